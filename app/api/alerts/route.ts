@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getAlerter } from '@/lib/alerts';
+import { log } from '@/lib/log';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+// GET /api/alerts?limit=50
+// Configured channels and the most recent deliveries with their attempts
+export async function GET(request: NextRequest) {
+  const access = authorize(request);
+  if (!access.ok) return access.response;
+
+  try {
+    const limit = Math.min(Number(request.nextUrl.searchParams.get('limit')) || DEFAULT_LIMIT, MAX_LIMIT);
+    const alerter = getAlerter();
+
+    return NextResponse.json({
+      success: true,
+      channels: alerter.channels,
+      deliveries: await alerter.recent(limit),
+    });
+
+  } catch (error) {
+    log.error('alerts API error', { error });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load alerts',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getAlerter } from '@/lib/alerts';
+import { getSnapshot } from '@/lib/scanner';
+import { log } from '@/lib/log';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// POST /api/alerts/test
+// Sends a test alert for the top-ranked token to every configured channel.
+// Needs a privileged key, since it posts to the real channels.
+export async function POST(request: NextRequest) {
+  const access = authorize(request, { permission: 'alerts' });
+  if (!access.ok) return access.response;
+
+  const alerter = getAlerter();
+  const snapshot = getSnapshot();
+  const token = snapshot.tokens[0] ?? snapshot.candidates[0];
+
+  if (alerter.channels.length === 0 || !token) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Nothing to send',
+        message: alerter.channels.length === 0
+          ? 'No alert channels are configured'
+          : 'No scanned tokens yet',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const alert = await alerter.sendTest(token);
+    const deliveries = (await alerter.recent(alerter.channels.length))
+      .filter((delivery) => delivery.alert.id === alert.id);
+
+    return NextResponse.json({
+      success: true,
+      deliveries,
+    });
+
+  } catch (error) {
+    log.error('alert test error', { error });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to send test alert',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
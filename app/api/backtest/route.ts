@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, authorizeLookup } from '@/lib/auth';
+import { parseWindow } from '@/lib/history';
+import { PRESETS, getActiveCriteria, getPreset, parseCriteria } from '@/lib/rules';
+import { BacktestCandidate, backtester } from '@/lib/backtest';
+import { log } from '@/lib/log';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const DEFAULT_WINDOW = '24h';
+const DEFAULT_HORIZON = '6h';
+const DEFAULT_HIT_MULTIPLE = 2;
+// The window plus the horizon; 14 days is the default archive retention
+const MAX_RANGE = 14 * 24 * 60 * 60 * 1000;
+const MAX_CANDIDATES = 6;
+
+function badRequest(error: string, message: string) {
+  return NextResponse.json({ success: false, error, message }, { status: 400 });
+}
+
+// Each `criteria` parameter is a criteria query string as /api/tokens takes
+// it, e.g. "preset=fresh&minHolders=80"; "" is the active criteria
+function parseCandidates(values: string[]): BacktestCandidate[] {
+  if (values.length === 0) {
+    return Object.keys(PRESETS).map((name) => ({ label: name, criteria: getPreset(name) }));
+  }
+
+  return values.map((value) => {
+    const criteria = parseCriteria(new URLSearchParams(value)) || getActiveCriteria();
+    return { label: value || criteria.preset || 'active', criteria };
+  });
+}
+
+// GET /api/backtest?window=24h&horizon=6h&hit=2&criteria=preset%3Dfresh&criteria=minHolders%3D100
+// Replays the archived scans in the window (or from/to, in ms) through each
+// `criteria`, every preset when none is given, and reports what each
+// selection did over the following `horizon`. `hit` is the peak market-cap
+// multiple that counts as a hit. Each backtest reads days of archived scans
+// and history, so it counts as a lookup.
+export async function GET(request: NextRequest) {
+  const access = authorize(request);
+  if (!access.ok) return access.response;
+
+  const params = request.nextUrl.searchParams;
+  const now = Date.now();
+
+  const horizon = parseWindow(params.get('horizon') || DEFAULT_HORIZON);
+  if (horizon === null) {
+    return badRequest('Invalid horizon', 'horizon must look like 30m, 6h or 2d');
+  }
+
+  const windowMs = parseWindow(params.get('window') || DEFAULT_WINDOW);
+  const to = params.has('to') ? Number(params.get('to')) : now;
+  const from = params.has('from') ? Number(params.get('from')) : windowMs !== null ? to - windowMs : NaN;
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from >= to || to + horizon - from > MAX_RANGE) {
+    return badRequest('Invalid range', 'Use window=<n>m|h|d or from/to in milliseconds; with the horizon, at most 14 days');
+  }
+
+  const hitMultiple = params.has('hit') ? Number(params.get('hit')) : DEFAULT_HIT_MULTIPLE;
+  if (!Number.isFinite(hitMultiple) || hitMultiple <= 0) {
+    return badRequest('Invalid hit multiple', 'hit must be a positive number, e.g. 2 for a 2x peak');
+  }
+
+  let candidates: BacktestCandidate[];
+  try {
+    candidates = parseCandidates(params.getAll('criteria'));
+  } catch (error) {
+    return badRequest('Invalid criteria', error instanceof Error ? error.message : 'Unknown error');
+  }
+  if (candidates.length > MAX_CANDIDATES) {
+    return badRequest('Invalid criteria', `At most ${MAX_CANDIDATES} criteria can be compared at once`);
+  }
+
+  const lookup = authorizeLookup(access.client);
+  if (!lookup.ok) return lookup.response;
+
+  try {
+    const report = await backtester.run(candidates, { from, to, horizon, hitMultiple }, now);
+
+    return NextResponse.json({ success: true, ...report });
+  } catch (error) {
+    log.error('backtest API error', { error });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to run backtest',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
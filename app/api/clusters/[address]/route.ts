@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, authorizeLookup } from '@/lib/auth';
+import { clusterIndex } from '@/lib/clusters';
+import { allowedAddresses, blockReason, deployerLists } from '@/lib/lists';
+import { isValidAddress } from '@/lib/solana';
+import { log } from '@/lib/log';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/clusters/<deployer>
+// The deployer's cluster, its list entry if any, and why its tokens are
+// excluded. Deployers no scan has seen are looked up on demand, which counts
+// as a lookup.
+export async function GET(request: NextRequest, { params }: { params: { address: string } }) {
+  const access = authorize(request);
+  if (!access.ok) return access.response;
+
+  if (!isValidAddress(params.address)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid address',
+        message: `"${params.address}" is not a base58 Solana address`,
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!clusterIndex.has(params.address)) {
+    const lookup = authorizeLookup(access.client);
+    if (!lookup.ok) return lookup.response;
+  }
+
+  try {
+    await clusterIndex.observeDeployer(params.address);
+
+    const entries = await deployerLists.list();
+    const byAddress = new Map(entries.map((entry) => [entry.address, entry]));
+    const cluster = clusterIndex.build(allowedAddresses(entries)).get(params.address);
+
+    return NextResponse.json({
+      success: true,
+      cluster,
+      listEntry: byAddress.get(params.address),
+      blockedReason: blockReason(params.address, cluster, byAddress),
+    });
+  } catch (error) {
+    log.error('cluster API error', { error });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load cluster',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { clusterIndex, multiWalletClusters } from '@/lib/clusters';
+import { allowedAddresses, deployerLists } from '@/lib/lists';
+import { log } from '@/lib/log';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/clusters
+// Every cluster of two or more deployers seen so far, largest first, with the
+// links that joined them and their combined bonding rate and rugs
+export async function GET(request: NextRequest) {
+  const access = authorize(request);
+  if (!access.ok) return access.response;
+
+  try {
+    const clusters = multiWalletClusters(clusterIndex.build(allowedAddresses(await deployerLists.list())));
+
+    return NextResponse.json({ success: true, count: clusters.length, clusters });
+  } catch (error) {
+    log.error('clusters API error', { error });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load clusters',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { deployerListErrorResponse, deployerLists } from '@/lib/lists';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// DELETE /api/deployer-lists/<address>
+// Takes the address off whichever list it is on
+export async function DELETE(request: NextRequest, { params }: { params: { address: string } }) {
+  const access = authorize(request, { permission: 'lists' });
+  if (!access.ok) return access.response;
+
+  try {
+    await deployerLists.remove(params.address);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return deployerListErrorResponse(error);
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { deployerListErrorResponse, deployerLists, parseListKind } from '@/lib/lists';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// POST /api/deployer-lists/import?list=block|allow
+// Body: a plain-text list file, one `address[,reason]` per line. Lines that
+// can't be imported are reported in `skipped`.
+export async function POST(request: NextRequest) {
+  const access = authorize(request, { permission: 'lists' });
+  if (!access.ok) return access.response;
+
+  try {
+    const kind = parseListKind(request.nextUrl.searchParams.get('list'));
+    const result = await deployerLists.importFile(await request.text(), kind);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return deployerListErrorResponse(error);
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { object, optional, string } from '@/lib/schema';
+import { deployerListErrorResponse, deployerLists, parseListKind } from '@/lib/lists';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const entrySchema = object<{ address: string; list: string; reason?: string }>({
+  address: string,
+  list: string,
+  reason: optional(string),
+});
+
+// GET /api/deployer-lists?list=block|allow
+export async function GET(request: NextRequest) {
+  const access = authorize(request);
+  if (!access.ok) return access.response;
+
+  try {
+    const list = request.nextUrl.searchParams.get('list');
+    const entries = await deployerLists.list(list === null ? undefined : parseListKind(list));
+
+    return NextResponse.json({ success: true, entries });
+  } catch (error) {
+    return deployerListErrorResponse(error);
+  }
+}
+
+// POST /api/deployer-lists
+// Body: { address, list: "block" | "allow", reason? }. An address already on
+// the other list is moved. Applies from the next scan.
+export async function POST(request: NextRequest) {
+  const access = authorize(request, { permission: 'lists' });
+  if (!access.ok) return access.response;
+
+  try {
+    const { address, list, reason } = entrySchema(await request.json().catch(() => null));
+    const entry = await deployerLists.add(address.trim(), parseListKind(list), reason?.trim());
+
+    return NextResponse.json({ success: true, entry }, { status: 201 });
+  } catch (error) {
+    return deployerListErrorResponse(error);
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, authorizeLookup } from '@/lib/auth';
+import { deployerIndex } from '@/lib/deployers';
+import { tokenHistory } from '@/lib/history';
+import { getDeployerProfile } from '@/lib/lookup';
+import { isValidAddress } from '@/lib/solana';
+import { log } from '@/lib/log';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/deployers/<address>
+// Deployer stats plus every known launch with its bonded status, peak
+// market cap and time to graduation. Deployers the index doesn't know yet
+// have their history scanned on demand, which counts as a lookup.
+export async function GET(request: NextRequest, { params }: { params: { address: string } }) {
+  const access = authorize(request);
+  if (!access.ok) return access.response;
+
+  if (!isValidAddress(params.address)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid address',
+        message: `"${params.address}" is not a base58 Solana address`,
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!deployerIndex.has(params.address)) {
+    const lookup = authorizeLookup(access.client);
+    if (!lookup.ok) return lookup.response;
+  }
+
+  try {
+    const profile = await getDeployerProfile(params.address, deployerIndex, tokenHistory);
+
+    return NextResponse.json({
+      success: true,
+      ...profile,
+    });
+
+  } catch (error) {
+    log.error('deployer API error', { error });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load deployer',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getSnapshot, startScanner } from '@/lib/scanner';
+import { Criteria, applyCriteria, getPreset } from '@/lib/rules';
+import { ExplorerQuery, parseExplorerQuery, queryExplorer } from '@/lib/explorer';
+import { log } from '@/lib/log';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/explorer?q=&filter=holders:gte:100&sort=marketCap:desc&limit=50&cursor=
+// Every token from the last scan, searchable, filterable and paginated. Rows
+// are marked as passing or failing the scan's criteria, or a preset's with
+// ?preset=<name>. See lib/explorer.ts for the parameters.
+export async function GET(request: NextRequest) {
+  const access = authorize(request);
+  if (!access.ok) return access.response;
+
+  const params = request.nextUrl.searchParams;
+  let query: ExplorerQuery;
+  let criteria: Criteria | null;
+  try {
+    query = parseExplorerQuery(params);
+    criteria = params.get('preset') ? getPreset(params.get('preset')!) : null;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid query',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        tokens: [],
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // No-op once the scanner is running (normally started from instrumentation.ts)
+    startScanner();
+
+    const snapshot = getSnapshot();
+    const page = queryExplorer(
+      snapshot.candidates,
+      criteria ? applyCriteria(snapshot.candidates, criteria).tokens : snapshot.tokens,
+      criteria || snapshot.criteria,
+      query
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...page,
+      preset: (criteria || snapshot.criteria).preset,
+      lastUpdated: snapshot.lastUpdated,
+    });
+
+  } catch (error) {
+    log.error('explorer API error', { error });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to query tokens',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        tokens: [],
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getSnapshot, startScanner } from '@/lib/scanner';
+import { deployerIndex } from '@/lib/deployers';
+import { parseRange, tokenHistory } from '@/lib/history';
+import { Criteria, applyCriteria, getPreset } from '@/lib/rules';
+import { ExplorerQuery, parseExplorerQuery, queryExplorer } from '@/lib/explorer';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import {
+  CONTENT_TYPES,
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportTable,
+  candidateTable,
+  deployerTable,
+  streamHistory,
+  toCsv,
+  toNdjson,
+  tokenTable,
+} from '@/lib/export';
+import { log } from '@/lib/log';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type Dataset = 'ranked' | 'tokens' | 'deployers' | 'history';
+
+const DATASETS: Dataset[] = ['ranked', 'tokens', 'deployers', 'history'];
+
+const DEFAULT_WINDOW = '24h';
+const DEPLOYER_CONCURRENCY = 4;
+
+function badRequest(error: string, message: string) {
+  return NextResponse.json({ success: false, error, message }, { status: 400 });
+}
+
+// GET /api/export?dataset=ranked|tokens|deployers|history&format=csv|json|ndjson
+//   ranked     the current top N
+//   tokens     every enriched token with `passes` and `rejectionReasons`;
+//              takes the explorer's q/filter/status/sort and ?preset=<name>
+//   deployers  stats for every deployer in the last scan
+//   history    recorded snapshot rows, streamed; window=24h or from/to (ms),
+//              at most 31 days, optional mint=<mint> and ranked=true
+export async function GET(request: NextRequest) {
+  const access = authorize(request);
+  if (!access.ok) return access.response;
+
+  const params = request.nextUrl.searchParams;
+  const dataset = (params.get('dataset') || 'ranked') as Dataset;
+  const format = (params.get('format') || 'csv') as ExportFormat;
+
+  if (!DATASETS.includes(dataset)) {
+    return badRequest('Invalid dataset', `dataset must be one of: ${DATASETS.join(', ')}`);
+  }
+  if (!EXPORT_FORMATS.includes(format)) {
+    return badRequest('Invalid format', `format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  const ranged = ['window', 'from', 'to'].some((key) => params.has(key));
+  if (ranged && dataset !== 'history') {
+    return badRequest('Invalid range', 'Time ranges apply to dataset=history; the other datasets are the last scan');
+  }
+
+  try {
+    // No-op once the scanner is running (normally started from instrumentation.ts)
+    startScanner();
+    const snapshot = getSnapshot();
+    const generatedAt = Date.now();
+    const filename = `deployer-hunter-${dataset}-${new Date(generatedAt).toISOString().replace(/[:.]/g, '-')}.${format}`;
+    const headers = {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    };
+    let table: ExportTable;
+
+    if (dataset === 'ranked') {
+      table = tokenTable(snapshot.tokens);
+
+    } else if (dataset === 'tokens') {
+      let query: ExplorerQuery;
+      let criteria: Criteria | null;
+      try {
+        query = parseExplorerQuery(params);
+        criteria = params.get('preset') ? getPreset(params.get('preset')!) : null;
+      } catch (error) {
+        return badRequest('Invalid query', error instanceof Error ? error.message : 'Unknown error');
+      }
+
+      // Ranks and passes both come from the preset when one is given
+      const ranked = criteria ? applyCriteria(snapshot.candidates, criteria).tokens : snapshot.tokens;
+      const page = queryExplorer(snapshot.candidates, ranked, criteria || snapshot.criteria, {
+        ...query,
+        cursor: undefined,
+        limit: snapshot.candidates.length,
+      });
+      table = candidateTable(page.tokens);
+
+    } else if (dataset === 'deployers') {
+      const addresses = Array.from(new Set(snapshot.candidates.map((token) => token.deployer)))
+        .filter((address) => address && address !== 'unknown');
+      const stats = await mapWithConcurrency(addresses, DEPLOYER_CONCURRENCY, (address) => deployerIndex.getStats(address));
+      table = deployerTable(stats);
+    } else {
+      const range = parseRange(params, DEFAULT_WINDOW, generatedAt);
+      if (!range) {
+        return badRequest('Invalid range', 'Use window=<n>m|h|d or from/to in milliseconds');
+      }
+
+      const rows = tokenHistory.stream(params.get('mint'), range.from, range.to);
+      const ranked = params.get('ranked') === 'true';
+      const selected = (async function* () {
+        for await (const row of rows) {
+          if (!ranked || row.rank !== null) yield row;
+        }
+      })();
+
+      const meta = { success: true, dataset, generatedAt, lastUpdated: snapshot.lastUpdated, ...range };
+      return new Response(streamHistory(selected, format, meta), { headers });
+    }
+
+    const body = format === 'csv'
+      ? toCsv(table)
+      : format === 'ndjson'
+        ? toNdjson(table)
+        : JSON.stringify({ success: true, dataset, generatedAt, lastUpdated: snapshot.lastUpdated, ...table });
+
+    return new Response(body, { headers });
+
+  } catch (error) {
+    log.error('export API error', { error });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to export',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getSnapshot } from '@/lib/scanner';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/health/ready
+// 200 once the first scan has succeeded and there is a snapshot to serve,
+// 503 before that. Upstream trouble doesn't make the app unready.
+export async function GET() {
+  const { lastUpdated } = getSnapshot();
+  const ready = lastUpdated > 0;
+
+  return NextResponse.json(
+    {
+      success: ready,
+      ready,
+      lastUpdated,
+    },
+    { status: ready ? 200 : 503 }
+  );
+}
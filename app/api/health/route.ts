@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getSnapshot } from '@/lib/scanner';
+import { getProviders } from '@/lib/providers';
+import { checkHealth } from '@/lib/health';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/health
+// Scanner freshness and upstream reachability. Responds 503 unless the
+// status is "ok", so an uptime check on this URL alerts when the backend or
+// RPC degrades.
+export async function GET() {
+  const report = checkHealth(getSnapshot(), getProviders());
+
+  return NextResponse.json(
+    {
+      success: report.status === 'ok',
+      ...report,
+    },
+    { status: report.status === 'ok' ? 200 : 503 }
+  );
+}
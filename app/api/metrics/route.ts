@@ -0,0 +1,22 @@
+import { getSnapshot } from '@/lib/scanner';
+import { getProviders } from '@/lib/providers';
+import { checkHealth, recordHealthMetrics } from '@/lib/health';
+import { renderMetrics } from '@/lib/metrics';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/metrics
+// Prometheus text format: scan duration and results, tokens per scan stage,
+// per-upstream request counts, latencies and failures, and health gauges
+export async function GET() {
+  recordHealthMetrics(checkHealth(getSnapshot(), getProviders()));
+
+  return new Response(renderMetrics(), {
+    headers: {
+      'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
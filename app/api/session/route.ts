@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, SESSION_TTL, authorize, createSession, isSameOrigin } from '@/lib/auth';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// POST /api/session
+// Issues the dashboard's session cookie, so the pages can call the API
+// without an API key. Only same-origin requests from a browser get one, but
+// those headers can be forged outside a browser, so a session carries no
+// more than anonymous access.
+export async function POST(request: NextRequest) {
+  const access = authorize(request, { allowAnonymous: true });
+  if (!access.ok) return access.response;
+
+  if (!isSameOrigin(request)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Forbidden',
+        message: 'Sessions are only issued to the dashboard',
+      },
+      { status: 403 }
+    );
+  }
+
+  const session = createSession();
+  const response = NextResponse.json({
+    success: true,
+    expiresAt: session.expiresAt,
+  });
+
+  response.cookies.set(SESSION_COOKIE, session.value, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/api',
+    maxAge: SESSION_TTL / 1000,
+  });
+
+  return response;
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { parseRange, tokenHistory } from '@/lib/history';
+import { log } from '@/lib/log';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const DEFAULT_WINDOW = '24h';
+const DEFAULT_POINTS = 200;
+const MAX_POINTS = 1000;
+
+// GET /api/tokens/<mint>/history?window=24h&points=200
+// or ?from=<ms>&to=<ms> for an explicit range, at most 31 days
+export async function GET(request: NextRequest, { params }: { params: { mint: string } }) {
+  const access = authorize(request);
+  if (!access.ok) return access.response;
+
+  const search = request.nextUrl.searchParams;
+  const range = parseRange(search, DEFAULT_WINDOW);
+  const points = Math.min(Number(search.get('points')) || DEFAULT_POINTS, MAX_POINTS);
+
+  if (!range || points < 1) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid range',
+        message: `Use window=<n>m|h|d (got "${search.get('window') || DEFAULT_WINDOW}") or from/to in milliseconds`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const series = await tokenHistory.series(params.mint, range.from, range.to, points);
+
+    return NextResponse.json({
+      success: true,
+      mint: params.mint,
+      ...range,
+      points: series,
+    });
+
+  } catch (error) {
+    log.error('history API error', { error });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load history',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, authorizeLookup } from '@/lib/auth';
+import { deployerIndex } from '@/lib/deployers';
+import { getProviders } from '@/lib/providers';
+import { getSnapshot } from '@/lib/scanner';
+import { getTokenDetail, scannedToken } from '@/lib/lookup';
+import { riskAnalyzer } from '@/lib/risk';
+import { isValidAddress } from '@/lib/solana';
+import { log } from '@/lib/log';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/tokens/<mint>
+// Full detail for any mint; tokens outside the last scan are enriched on
+// demand, and ?refresh=1 forces that for scanned tokens too (privileged
+// API keys only). On-demand lookups have their own, smaller rate limit.
+export async function GET(request: NextRequest, { params }: { params: { mint: string } }) {
+  const fresh = request.nextUrl.searchParams.get('refresh') === '1';
+  const access = authorize(request, fresh ? { permission: 'refresh' } : {});
+  if (!access.ok) return access.response;
+
+  if (!isValidAddress(params.mint)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid mint',
+        message: `"${params.mint}" is not a base58 Solana address`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const snapshot = getSnapshot();
+  if (!scannedToken(params.mint, snapshot, fresh)) {
+    const lookup = authorizeLookup(access.client);
+    if (!lookup.ok) return lookup.response;
+  }
+
+  try {
+    const detail = await getTokenDetail(
+      params.mint,
+      { providers: getProviders(), deployers: deployerIndex, risk: riskAnalyzer },
+      snapshot,
+      fresh
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...detail,
+    });
+
+  } catch (error) {
+    log.error('token API error', { error });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load token',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { TokenData } from '@/lib/types';
+import { getSnapshot, startScanner, subscribe } from '@/lib/scanner';
+import { Criteria, parseCriteria } from '@/lib/rules';
+import { buildTokensView } from '@/lib/view';
+import { diffTokens } from '@/lib/diff';
+import { watchedEntries } from '@/lib/watchlist';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// Keeps proxies from closing an idle connection
+const HEARTBEAT_INTERVAL = 25 * 1000; // 25 seconds
+// How long browsers wait before reconnecting
+const RETRY_MS = 5 * 1000;
+
+// GET /api/tokens/stream
+// Server-Sent Events: a `snapshot` event with the full view on connect, then
+// a `diff` event (added, removed, moved and changed tokens plus scanner
+// status) whenever a scan starts or finishes. Takes the same criteria query
+// parameters as /api/tokens.
+export async function GET(request: NextRequest) {
+  const access = authorize(request);
+  if (!access.ok) return access.response;
+
+  let requested: Criteria | null;
+  try {
+    requested = parseCriteria(request.nextUrl.searchParams);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid criteria',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 400 }
+    );
+  }
+
+  // No-op once the scanner is running (normally started from instrumentation.ts)
+  startScanner();
+
+  const encoder = new TextEncoder();
+  const initialEntries = await watchedEntries();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      // Stops everything once the client has gone away
+      const write = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          cleanup();
+        }
+      };
+      const send = (event: string, data: unknown) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      const initial = buildTokensView(getSnapshot(), requested, initialEntries);
+      let sent: TokenData[] = initial.tokens;
+
+      write(`retry: ${RETRY_MS}\n\n`);
+      send('snapshot', initial);
+
+      // The watchlist is read per update, so diffs go out one at a time in order
+      let updates = Promise.resolve();
+      const unsubscribe = subscribe((snapshot) => {
+        updates = updates.then(async () => {
+          const { tokens, ...status } = buildTokensView(snapshot, requested, await watchedEntries());
+          send('diff', { ...status, diff: diffTokens(sent, tokens) });
+          sent = tokens;
+        });
+      });
+
+      const heartbeat = setInterval(() => {
+        write(': ping\n\n');
+      }, HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { parseKind, watchInputSchema, watchlist, watchlistErrorResponse } from '@/lib/watchlist';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface Params {
+  params: { kind: string; address: string };
+}
+
+// PATCH /api/watchlist/<deployer|mint>/<address>
+// Body: { notes?, tags? }; only the fields given change, and "" clears notes
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const access = authorize(request, { permission: 'watchlist' });
+  if (!access.ok) return access.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const entry = await watchlist.update(parseKind(params.kind), params.address, watchInputSchema(body));
+
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    return watchlistErrorResponse(error);
+  }
+}
+
+// DELETE /api/watchlist/<deployer|mint>/<address>
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const access = authorize(request, { permission: 'watchlist' });
+  if (!access.ok) return access.response;
+
+  try {
+    await watchlist.remove(parseKind(params.kind), params.address);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return watchlistErrorResponse(error);
+  }
+}
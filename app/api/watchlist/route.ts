@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getSnapshot } from '@/lib/scanner';
+import { buildWatchlistView } from '@/lib/view';
+import { object, string } from '@/lib/schema';
+import { parseKind, watchInputSchema, watchlist, watchlistErrorResponse } from '@/lib/watchlist';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const addressSchema = object<{ kind: string; address: string }>({ kind: string, address: string });
+
+// GET /api/watchlist
+// Every entry, plus the last scan's data for watched mints and launches
+// from watched deployers
+export async function GET(request: NextRequest) {
+  const access = authorize(request);
+  if (!access.ok) return access.response;
+
+  try {
+    return NextResponse.json({
+      success: true,
+      ...buildWatchlistView(getSnapshot(), await watchlist.list()),
+    });
+  } catch (error) {
+    return watchlistErrorResponse(error);
+  }
+}
+
+// POST /api/watchlist
+// Body: { kind: "deployer" | "mint", address, notes?, tags? }. Watched mints
+// are picked up by the next scan.
+export async function POST(request: NextRequest) {
+  const access = authorize(request, { permission: 'watchlist' });
+  if (!access.ok) return access.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { kind, address } = addressSchema(body);
+    const entry = await watchlist.add(parseKind(kind), address.trim(), watchInputSchema(body));
+
+    return NextResponse.json({ success: true, entry }, { status: 201 });
+  } catch (error) {
+    return watchlistErrorResponse(error);
+  }
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { BacktestReport, BacktestSummary } from '@/lib/types';
+import { formatPercent, formatTimeAgo, formatUsd } from '@/lib/format';
+import { apiFetch } from '@/lib/session';
+
+const WINDOWS = ['6h', '24h', '3d', '7d', '14d'];
+const HORIZONS = ['1h', '6h', '24h', '3d'];
+
+// One criteria query string per line, as /api/tokens takes them
+const DEFAULT_CRITERIA = ['preset=default', 'preset=proven-deployers', 'preset=fresh'].join('\n');
+
+const rate = (value?: number) => (value === undefined ? '—' : `${value.toFixed(0)}%`);
+
+// Summary rows of the side-by-side table
+const METRICS: { label: string; render: (summary: BacktestSummary) => string }[] = [
+  { label: 'SELECTIONS', render: (s) => `${s.selections}` },
+  { label: 'PENDING', render: (s) => `${s.pending}` },
+  { label: 'GRADUATED', render: (s) => `${s.graduated} (${rate(s.graduationRate)})` },
+  { label: 'HITS', render: (s) => `${s.hits} (${rate(s.hitRate)})` },
+  { label: 'AVG PEAK', render: (s) => (s.averagePeakMultiple === undefined ? '—' : `${s.averagePeakMultiple.toFixed(2)}x`) },
+  { label: 'MEDIAN DRAWDOWN', render: (s) => rate(s.medianMaxDrawdown) },
+  { label: 'AVG HOLDER CHANGE', render: (s) => (s.averageHolderChange === undefined ? '—' : s.averageHolderChange.toFixed(0)) },
+];
+
+// Runs candidate criteria over archived scans and compares what their
+// selections did afterwards
+export default function BacktestPage() {
+  const [criteriaInput, setCriteriaInput] = useState(DEFAULT_CRITERIA);
+  const [range, setRange] = useState('24h');
+  const [horizon, setHorizon] = useState('6h');
+  const [hit, setHit] = useState('2');
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async () => {
+    const params = new URLSearchParams({ window: range, horizon, hit });
+    criteriaInput
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .forEach((line) => params.append('criteria', line));
+
+    setRunning(true);
+    setError(null);
+    try {
+      const response = await apiFetch(`/api/backtest?${params.toString()}`);
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.message || data.error);
+        return;
+      }
+      setReport(data);
+    } catch (err) {
+      console.error('Failed to run backtest:', err);
+      setError('Failed to run backtest');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <main className="relative min-h-screen py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto relative z-10">
+        <Link href="/" className="font-rajdhani text-cyan-400 hover:text-cyan-300">
+          ← BACK TO RANKINGS
+        </Link>
+
+        <h1 className="font-orbitron text-4xl font-black text-cyan-400 glow-text mt-6 mb-2">
+          BACKTEST
+        </h1>
+        <p className="font-rajdhani text-gray-400 mb-6">
+          Replays archived scans through each criteria and follows what its picks did next. A token counts once, from the first scan that picked it.
+        </p>
+
+        {/* Criteria and window */}
+        <div className="hologram rounded-lg p-4 mb-6 font-rajdhani text-sm">
+          <label className="block text-xs text-gray-400 mb-1">
+            CRITERIA, ONE PER LINE (e.g. preset=fresh&amp;minHolders=80)
+          </label>
+          <textarea
+            value={criteriaInput}
+            onChange={(event) => setCriteriaInput(event.target.value)}
+            rows={4}
+            className="w-full bg-black/40 border border-cyan-900 rounded px-3 py-2 font-mono text-gray-200 focus:outline-none focus:border-cyan-400"
+          />
+          <div className="flex flex-wrap gap-4 items-center mt-3">
+            <label className="text-gray-400">
+              SCANS FROM THE LAST{' '}
+              <select
+                value={range}
+                onChange={(event) => setRange(event.target.value)}
+                className="bg-black/40 border border-cyan-900 rounded px-2 py-1 text-gray-300"
+              >
+                {WINDOWS.map((value) => <option key={value} value={value}>{value}</option>)}
+              </select>
+            </label>
+            <label className="text-gray-400">
+              FOLLOWED FOR{' '}
+              <select
+                value={horizon}
+                onChange={(event) => setHorizon(event.target.value)}
+                className="bg-black/40 border border-cyan-900 rounded px-2 py-1 text-gray-300"
+              >
+                {HORIZONS.map((value) => <option key={value} value={value}>{value}</option>)}
+              </select>
+            </label>
+            <label className="text-gray-400">
+              HIT AT{' '}
+              <input
+                value={hit}
+                onChange={(event) => setHit(event.target.value)}
+                className="w-14 bg-black/40 border border-cyan-900 rounded px-2 py-1 text-right text-gray-300"
+              />
+              x PEAK
+            </label>
+            <button
+              onClick={run}
+              disabled={running}
+              className="px-4 py-1 rounded border border-cyan-400 text-cyan-400 hover:bg-cyan-400 hover:text-black disabled:opacity-40"
+            >
+              {running ? 'RUNNING...' : 'RUN'}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="hologram rounded-lg p-4 mb-6 font-rajdhani text-pink-400">{error}</div>
+        )}
+
+        {report && (
+          <>
+            <p className="font-rajdhani text-sm text-gray-500 mb-2">
+              {report.scans} ARCHIVED {report.scans === 1 ? 'SCAN' : 'SCANS'} · RATES LEAVE OUT PENDING SELECTIONS
+            </p>
+
+            {/* Side-by-side summary */}
+            <div className="hologram rounded-lg overflow-x-auto mb-8">
+              <table className="w-full font-rajdhani text-sm">
+                <thead>
+                  <tr className="text-gray-400 text-xs border-b border-cyan-900">
+                    <th className="text-left p-3"></th>
+                    {report.runs.map((run) => (
+                      <th key={run.label} className="text-right p-3 align-top" title={run.description.join('\n')}>
+                        <div className="font-orbitron text-cyan-400">{run.label}</div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {METRICS.map((metric) => (
+                    <tr key={metric.label} className="border-b border-gray-900">
+                      <td className="p-3 text-gray-400 whitespace-nowrap">{metric.label}</td>
+                      {report.runs.map((run) => (
+                        <td key={run.label} className="p-3 text-right text-gray-200 whitespace-nowrap">
+                          {metric.render(run.summary)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Selections per criteria */}
+            {report.runs.map((run) => (
+              <div key={run.label} className="hologram rounded-lg overflow-x-auto mb-6">
+                <div className="p-3 border-b border-cyan-900">
+                  <span className="font-orbitron text-cyan-400">{run.label}</span>
+                  <span className="ml-3 font-rajdhani text-xs text-gray-500">{run.description.join(' • ')}</span>
+                </div>
+                {run.selections.length === 0 ? (
+                  <p className="text-center font-rajdhani text-gray-500 py-6">NOTHING SELECTED</p>
+                ) : (
+                  <table className="w-full font-rajdhani text-sm">
+                    <thead>
+                      <tr className="text-gray-400 text-xs border-b border-cyan-900">
+                        <th className="text-left p-3">TOKEN</th>
+                        <th className="text-left p-3">PICKED</th>
+                        <th className="text-right p-3">RANK</th>
+                        <th className="text-right p-3">MARKET CAP</th>
+                        <th className="text-right p-3">PEAK</th>
+                        <th className="text-right p-3">DRAWDOWN</th>
+                        <th className="text-right p-3">HOLDERS</th>
+                        <th className="text-right p-3">OUTCOME</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {run.selections.map((selection) => (
+                        <tr key={selection.mint} className="border-b border-gray-900 hover:bg-cyan-950/30">
+                          <td className="p-3">
+                            <Link href={`/token/${selection.mint}`} className="font-orbitron font-bold text-cyan-400 hover:text-cyan-300">
+                              {selection.symbol}
+                            </Link>
+                          </td>
+                          <td className="p-3 text-gray-400 whitespace-nowrap">{formatTimeAgo(selection.selectedAt)}</td>
+                          <td className="p-3 text-right text-pink-400">#{selection.rank}</td>
+                          <td className="p-3 text-right text-gray-200">{formatUsd(selection.marketCap)}</td>
+                          <td className="p-3 text-right text-gray-200 whitespace-nowrap">
+                            {formatUsd(selection.peakMarketCap)}
+                            {selection.peakMultiple !== undefined && (
+                              <span className="ml-1 text-gray-500">{selection.peakMultiple.toFixed(2)}x</span>
+                            )}
+                          </td>
+                          <td className="p-3 text-right text-gray-200">{formatPercent(-selection.maxDrawdown, 0)}</td>
+                          <td className="p-3 text-right text-gray-200 whitespace-nowrap">
+                            {selection.holders}
+                            {selection.holderChange !== undefined && (
+                              <span className={`ml-1 ${selection.holderChange < 0 ? 'text-pink-400' : 'text-green-400'}`}>
+                                {selection.holderChange >= 0 ? '+' : ''}{selection.holderChange}
+                              </span>
+                            )}
+                          </td>
+                          <td className="p-3 text-right whitespace-nowrap">
+                            {selection.graduated && <span className="text-green-400 mr-2">GRADUATED</span>}
+                            {selection.hit && <span className="text-cyan-400 mr-2">HIT</span>}
+                            {!selection.complete && <span className="text-gray-500">PENDING</span>}
+                            {selection.complete && !selection.graduated && !selection.hit && <span className="text-gray-500">MISS</span>}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
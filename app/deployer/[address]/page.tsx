@@ -0,0 +1,145 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { DeployerProfile } from '@/lib/types';
+import { formatDuration, formatTimeAgo, formatUsd, shortAddress } from '@/lib/format';
+import { apiFetch } from '@/lib/session';
+
+export default function DeployerPage({ params }: { params: { address: string } }) {
+  const { address } = params;
+  const [profile, setProfile] = useState<DeployerProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        setLoading(true);
+        const response = await apiFetch(`/api/deployers/${address}`);
+        const data = await response.json();
+
+        if (data.success) {
+          setProfile(data);
+          setError(null);
+        } else {
+          setError(data.message || data.error);
+        }
+      } catch (error) {
+        console.error('Failed to fetch deployer:', error);
+        setError('Failed to fetch deployer');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProfile();
+  }, [address]);
+
+  const graduationTimes = (profile?.launches || [])
+    .map((launch) => launch.timeToGraduation)
+    .filter((value): value is number => value !== undefined);
+  const averageGraduation = graduationTimes.length > 0
+    ? graduationTimes.reduce((sum, value) => sum + value, 0) / graduationTimes.length
+    : undefined;
+
+  return (
+    <main className="relative min-h-screen py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-5xl mx-auto relative z-10">
+        <Link href="/" className="font-rajdhani text-cyan-400 hover:text-cyan-300">
+          ← BACK TO RANKINGS
+        </Link>
+
+        {loading && !profile ? (
+          <div className="text-center py-20">
+            <div className="inline-block">
+              <div className="w-16 h-16 border-4 border-cyan-400 border-t-transparent rounded-full animate-spin"></div>
+              <p className="font-rajdhani text-xl text-cyan-400 mt-4">
+                SCANNING DEPLOYER HISTORY...
+              </p>
+            </div>
+          </div>
+        ) : error || !profile ? (
+          <div className="hologram rounded-lg p-12 text-center mt-8">
+            <p className="font-rajdhani text-2xl text-gray-400">DEPLOYER NOT FOUND</p>
+            <p className="font-rajdhani text-lg text-gray-500 mt-2">{error}</p>
+          </div>
+        ) : (
+          <>
+            {/* Header */}
+            <div className="mt-8 mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+              <div>
+                <h1 className="font-orbitron text-5xl font-black text-cyan-400 glow-text">
+                  DEPLOYER
+                </h1>
+                <p className="font-mono text-xs text-gray-500 break-all mt-1">{address}</p>
+              </div>
+              <div className="flex gap-3 font-rajdhani text-sm">
+                <a href={`https://solscan.io/account/${address}`} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-cyan-400 underline decoration-dotted">
+                  SOLSCAN ↗
+                </a>
+              </div>
+            </div>
+
+            {/* Deployer Stats */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-8">
+              {[
+                { label: 'LAUNCHES', value: `${profile.stats.totalTokens}`, color: 'text-cyan-400' },
+                { label: 'BONDED', value: `${profile.stats.bondedTokens}`, color: 'text-green-400' },
+                { label: 'BONDING RATE', value: `${profile.stats.bondingRate.toFixed(0)}%`, color: 'text-purple-400' },
+                { label: 'AVG TIME TO BOND', value: formatDuration(averageGraduation), color: 'text-pink-400' },
+              ].map((stat) => (
+                <div key={stat.label} className="hologram rounded p-3">
+                  <div className="font-rajdhani text-xs text-gray-400 mb-1">{stat.label}</div>
+                  <div className={`font-orbitron text-lg font-bold ${stat.color}`}>{stat.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Launches */}
+            <div className="mb-8">
+              <h3 className="font-orbitron text-2xl font-bold tracking-wider mb-4">LAUNCHES</h3>
+              {profile.launches.length > 0 ? (
+                <div className="hologram rounded p-4 overflow-x-auto">
+                  <table className="w-full font-rajdhani text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-400 border-b border-cyan-900">
+                        <th className="pb-2 pr-4">TOKEN</th>
+                        <th className="pb-2 pr-4">LAUNCHED</th>
+                        <th className="pb-2 pr-4">STATUS</th>
+                        <th className="pb-2 pr-4 text-right">PEAK MCAP</th>
+                        <th className="pb-2 text-right">TIME TO BOND</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {profile.launches.map((launch) => (
+                        <tr key={launch.mint} className="border-b border-gray-800 last:border-0">
+                          <td className="py-2 pr-4">
+                            <Link href={`/token/${launch.mint}`} className="text-gray-300 hover:text-cyan-400">
+                              {launch.symbol || shortAddress(launch.mint)}
+                            </Link>
+                            {launch.name && <span className="text-gray-500"> {launch.name}</span>}
+                          </td>
+                          <td className="py-2 pr-4 text-gray-500">
+                            {launch.createdAt ? formatTimeAgo(launch.createdAt) : '—'}
+                          </td>
+                          <td className={`py-2 pr-4 ${launch.graduated ? 'text-green-400' : 'text-gray-500'}`}>
+                            {launch.graduated ? 'BONDED' : 'NOT BONDED'}
+                          </td>
+                          <td className="py-2 pr-4 text-right text-purple-400">{formatUsd(launch.peakMarketCap)}</td>
+                          <td className="py-2 text-right text-pink-400">{formatDuration(launch.timeToGraduation)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="hologram rounded p-4 font-rajdhani text-gray-500">NO LAUNCHES FOUND</div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,379 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { TokenData } from '@/lib/types';
+import { formatPercent, formatTimeAgo, formatUsd, shortAddress } from '@/lib/format';
+import { apiFetch } from '@/lib/session';
+
+type Row = TokenData & { rank?: number; passes: boolean; reasons: string[] };
+
+interface Filter {
+  field: string;
+  op: 'gte' | 'lte';
+  value: number;
+}
+
+const PAGE_SIZES = [25, 50, 100, 200];
+
+// Table columns; `field` makes a column sortable and filterable
+const COLUMNS: { label: string; field?: string; render: (row: Row) => React.ReactNode }[] = [
+  { label: 'HOLDERS', field: 'holders', render: (row) => (row.holdersError ? '?' : row.holders) },
+  { label: 'MARKET CAP', field: 'marketCap', render: (row) => formatUsd(row.marketCap) },
+  { label: 'LIQUIDITY', field: 'liquidityUsd', render: (row) => formatUsd(row.liquidityUsd) },
+  { label: '1H VOL', field: 'volume1h', render: (row) => formatUsd(row.volume1h) },
+  { label: '1H CHANGE', field: 'priceChange1h', render: (row) => formatPercent(row.priceChange1h) },
+  {
+    label: 'CURVE',
+    field: 'bondingCurveProgress',
+    render: (row) => (row.isGraduated ? 'GRAD' : row.bondingCurveProgress !== undefined ? `${row.bondingCurveProgress.toFixed(0)}%` : '—'),
+  },
+  { label: 'TOP 10', field: 'top10Share', render: (row) => (row.top10Share !== undefined ? `${row.top10Share.toFixed(0)}%` : '—') },
+  { label: 'DEV BONDED', field: 'bondingRate', render: (row) => `${row.bondingRate.toFixed(0)}%` },
+  { label: 'RISK', field: 'riskScore', render: (row) => row.riskScore ?? '—' },
+  { label: 'AGE', field: 'age', render: (row) => formatTimeAgo(row.createdAt) },
+];
+
+// "100" or ">=100" is a minimum, "<=40" a maximum, "100..500" both
+function parseFilterInput(field: string, input: string): Filter[] | null {
+  const text = input.replace(/\s/g, '');
+  if (!text) return [];
+
+  const range = text.match(/^(-?[\d.]+)\.\.(-?[\d.]+)$/);
+  if (range) {
+    return [
+      { field, op: 'gte', value: Number(range[1]) },
+      { field, op: 'lte', value: Number(range[2]) },
+    ];
+  }
+
+  const bound = text.match(/^(>=|<=)?(-?[\d.]+)$/);
+  if (!bound || !Number.isFinite(Number(bound[2]))) return null;
+  return [{ field, op: bound[1] === '<=' ? 'lte' : 'gte', value: Number(bound[2]) }];
+}
+
+function formatFilterInput(filters: Filter[]): string {
+  const min = filters.find((filter) => filter.op === 'gte');
+  const max = filters.find((filter) => filter.op === 'lte');
+  if (min && max) return `${min.value}..${max.value}`;
+  if (min) return `>=${min.value}`;
+  if (max) return `<=${max.value}`;
+  return '';
+}
+
+export default function ExplorerPage() {
+  const [rows, setRows] = useState<Row[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // The view lives in the URL's query string so links can be shared
+  const [search, setSearch] = useState<string | null>(null);
+  // Cursors of the pages before this one, for PREV
+  const [history, setHistory] = useState<string[]>([]);
+  const [filterInputs, setFilterInputs] = useState<Record<string, string>>({});
+  const [queryInput, setQueryInput] = useState('');
+
+  const params = new URLSearchParams(search || '');
+  const [sortField, sortDirection = 'desc'] = (params.get('sort') || 'holders:desc').split(':');
+  const filters: Filter[] = params.getAll('filter').map((filter) => {
+    const [field, op, value] = filter.split(':');
+    return { field, op: op as Filter['op'], value: Number(value) };
+  });
+
+  useEffect(() => {
+    setSearch(window.location.search);
+  }, []);
+
+  // Form fields follow the URL, e.g. after opening a shared link
+  useEffect(() => {
+    if (search === null) return;
+    const current = new URLSearchParams(search);
+    setQueryInput(current.get('q') || '');
+
+    const inputs: Record<string, string> = {};
+    for (const column of COLUMNS) {
+      if (!column.field) continue;
+      const columnFilters = current.getAll('filter')
+        .map((filter) => filter.split(':'))
+        .filter(([field]) => field === column.field)
+        .map(([field, op, value]) => ({ field, op: op as Filter['op'], value: Number(value) }));
+      inputs[column.field] = formatFilterInput(columnFilters);
+    }
+    setFilterInputs(inputs);
+  }, [search]);
+
+  useEffect(() => {
+    if (search === null) return;
+
+    const fetchPage = async () => {
+      try {
+        setLoading(true);
+        const response = await apiFetch(`/api/explorer${search}`);
+        const data = await response.json();
+
+        if (data.success) {
+          setRows(data.tokens);
+          setTotal(data.total);
+          setNextCursor(data.nextCursor);
+          setLastUpdated(data.lastUpdated);
+          setError(null);
+        } else {
+          setError(data.message || data.error);
+        }
+      } catch (error) {
+        console.error('Failed to fetch tokens:', error);
+        setError('Failed to fetch tokens');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPage();
+  }, [search]);
+
+  // Applies changes to the view; anything but paging starts again from page one
+  const updateView = (change: (params: URLSearchParams) => void, paging = false) => {
+    const next = new URLSearchParams(search || '');
+    change(next);
+    if (!paging) {
+      next.delete('cursor');
+      setHistory([]);
+    }
+    const query = next.toString() ? `?${next.toString()}` : '';
+    window.history.replaceState(null, '', `/explorer${query}`);
+    setSearch(query);
+  };
+
+  const toggleSort = (field: string) => {
+    const direction = field === sortField && sortDirection === 'desc' ? 'asc' : 'desc';
+    updateView((next) => next.set('sort', `${field}:${direction}`));
+  };
+
+  const applyFilter = (field: string) => {
+    const parsed = parseFilterInput(field, filterInputs[field] || '');
+    if (parsed === null) {
+      setError(`Invalid filter for ${field}: use 100, >=100, <=100 or 100..500`);
+      return;
+    }
+
+    const others = filters.filter((filter) => filter.field !== field);
+    const current = formatFilterInput(filters.filter((filter) => filter.field === field));
+    if (formatFilterInput(parsed) === current) return;
+
+    updateView((next) => {
+      next.delete('filter');
+      [...others, ...parsed].forEach(({ field, op, value }) => next.append('filter', `${field}:${op}:${value}`));
+    });
+  };
+
+  const applySearch = () => {
+    if (queryInput.trim() === (params.get('q') || '')) return;
+    updateView((next) => {
+      if (queryInput.trim()) next.set('q', queryInput.trim());
+      else next.delete('q');
+    });
+  };
+
+  const setStatus = (status: string) => {
+    updateView((next) => {
+      if (status) next.set('status', status);
+      else next.delete('status');
+    });
+  };
+
+  const nextPage = () => {
+    if (!nextCursor) return;
+    setHistory((pages) => [...pages, params.get('cursor') || '']);
+    updateView((next) => next.set('cursor', nextCursor), true);
+  };
+
+  const previousPage = () => {
+    const previous = history[history.length - 1];
+    setHistory((pages) => pages.slice(0, -1));
+    updateView((next) => {
+      if (previous) next.set('cursor', previous);
+      else next.delete('cursor');
+    }, true);
+  };
+
+  const pageSize = Number(params.get('limit')) || 50;
+  const status = params.get('status') || '';
+
+  // Downloads cover every row of the current view, not just this page
+  const exportParams = new URLSearchParams(search || '');
+  exportParams.delete('cursor');
+  exportParams.delete('limit');
+  exportParams.set('dataset', 'tokens');
+  const exportUrl = (format: string) => `/api/export?${exportParams.toString()}&format=${format}`;
+
+  return (
+    <main className="relative min-h-screen py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto relative z-10">
+        <Link href="/" className="font-rajdhani text-cyan-400 hover:text-cyan-300">
+          ← BACK TO RANKINGS
+        </Link>
+
+        <h1 className="font-orbitron text-4xl font-black text-cyan-400 glow-text mt-6 mb-2">
+          TOKEN EXPLORER
+        </h1>
+        <p className="font-rajdhani text-gray-400 mb-6">
+          Every token from the last scan{lastUpdated ? ` (${formatTimeAgo(lastUpdated)})` : ''}, including those that missed the criteria.
+        </p>
+
+        {/* Search and view controls */}
+        <div className="hologram rounded-lg p-4 mb-6 flex flex-col md:flex-row gap-4 md:items-center">
+          <input
+            value={queryInput}
+            onChange={(event) => setQueryInput(event.target.value)}
+            onKeyDown={(event) => event.key === 'Enter' && applySearch()}
+            onBlur={applySearch}
+            placeholder="SEARCH SYMBOL, MINT OR DEPLOYER"
+            className="flex-1 bg-black/40 border border-cyan-900 rounded px-3 py-2 font-rajdhani text-gray-200 placeholder-gray-600 focus:outline-none focus:border-cyan-400"
+          />
+          <div className="flex gap-2 font-rajdhani text-sm">
+            {[['', 'ALL'], ['passed', 'PASSING'], ['rejected', 'FILTERED OUT']].map(([value, label]) => (
+              <button
+                key={label}
+                onClick={() => setStatus(value)}
+                className={`px-3 py-1 rounded border ${
+                  status === value ? 'border-cyan-400 text-cyan-400' : 'border-gray-700 text-gray-400 hover:text-cyan-400'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={pageSize}
+            onChange={(event) => updateView((next) => next.set('limit', event.target.value))}
+            className="bg-black/40 border border-cyan-900 rounded px-2 py-1 font-rajdhani text-gray-300"
+          >
+            {PAGE_SIZES.map((size) => (
+              <option key={size} value={size}>{size} / PAGE</option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <div className="hologram rounded-lg p-4 mb-6 font-rajdhani text-pink-400">{error}</div>
+        )}
+
+        <div className="hologram rounded-lg overflow-x-auto">
+          <table className="w-full font-rajdhani text-sm">
+            <thead>
+              <tr className="text-gray-400 text-xs border-b border-cyan-900">
+                <th className="text-left p-3">TOKEN</th>
+                <th className="text-left p-3">STATUS</th>
+                {COLUMNS.map((column) => (
+                  <th key={column.label} className="text-right p-3 whitespace-nowrap">
+                    {column.field ? (
+                      <button onClick={() => toggleSort(column.field!)} className="hover:text-cyan-400">
+                        {column.label}
+                        {sortField === column.field ? (sortDirection === 'asc' ? ' ▲' : ' ▼') : ''}
+                      </button>
+                    ) : column.label}
+                  </th>
+                ))}
+                <th className="text-left p-3">DEPLOYER</th>
+              </tr>
+              <tr className="border-b border-cyan-900">
+                <th></th>
+                <th></th>
+                {COLUMNS.map((column) => (
+                  <th key={column.label} className="p-1">
+                    {column.field && (
+                      <input
+                        value={filterInputs[column.field] || ''}
+                        onChange={(event) => setFilterInputs((inputs) => ({ ...inputs, [column.field!]: event.target.value }))}
+                        onKeyDown={(event) => event.key === 'Enter' && applyFilter(column.field!)}
+                        onBlur={() => applyFilter(column.field!)}
+                        placeholder="≥ / ≤"
+                        className="w-20 bg-black/40 border border-gray-800 rounded px-1 py-0.5 text-right text-gray-300 placeholder-gray-700 focus:outline-none focus:border-cyan-400"
+                      />
+                    )}
+                  </th>
+                ))}
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.mint} className="border-b border-gray-900 hover:bg-cyan-950/30">
+                  <td className="p-3 whitespace-nowrap">
+                    <Link href={`/token/${row.mint}`} className="font-orbitron font-bold text-cyan-400 hover:text-cyan-300">
+                      {row.symbol}
+                    </Link>
+                    <div className="text-xs text-gray-500">{shortAddress(row.mint)}</div>
+                  </td>
+                  <td className="p-3 whitespace-nowrap" title={row.reasons.join('\n')}>
+                    {row.passes ? (
+                      <span className="text-green-400">{row.rank ? `#${row.rank}` : 'PASSES'}</span>
+                    ) : (
+                      <span className="text-gray-500">
+                        ✕ {row.reasons[0]}{row.reasons.length > 1 ? ` +${row.reasons.length - 1}` : ''}
+                      </span>
+                    )}
+                  </td>
+                  {COLUMNS.map((column) => (
+                    <td key={column.label} className="p-3 text-right text-gray-200 whitespace-nowrap">
+                      {column.render(row)}
+                    </td>
+                  ))}
+                  <td className="p-3">
+                    <Link href={`/deployer/${row.deployer}`} className="font-mono text-xs text-gray-400 hover:text-cyan-400">
+                      {shortAddress(row.deployer)}
+                    </Link>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {!loading && rows.length === 0 && (
+            <p className="text-center font-rajdhani text-gray-500 py-12">NO TOKENS MATCH</p>
+          )}
+        </div>
+
+        {/* Pagination */}
+        <div className="flex justify-between items-center mt-4 font-rajdhani text-sm text-gray-400">
+          <span>
+            {loading ? 'LOADING...' : `${total} ${total === 1 ? 'TOKEN' : 'TOKENS'}`}
+            <span className="ml-4">
+              DOWNLOAD:{' '}
+              {['csv', 'json', 'ndjson'].map((format, index) => (
+                <span key={format}>
+                  {index > 0 && ' · '}
+                  <a href={exportUrl(format)} className="hover:text-cyan-400 underline decoration-dotted">
+                    {format.toUpperCase()}
+                  </a>
+                </span>
+              ))}
+              {' · '}
+              <a href="/api/export?dataset=deployers&format=csv" className="hover:text-cyan-400 underline decoration-dotted">
+                DEPLOYERS CSV
+              </a>
+            </span>
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={previousPage}
+              disabled={loading || !params.get('cursor')}
+              className="px-3 py-1 rounded border border-gray-700 hover:text-cyan-400 disabled:text-gray-700"
+            >
+              ← PREV
+            </button>
+            <button
+              onClick={nextPage}
+              disabled={loading || !nextCursor}
+              className="px-3 py-1 rounded border border-gray-700 hover:text-cyan-400 disabled:text-gray-700"
+            >
+              NEXT →
+            </button>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
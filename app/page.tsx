@@ -1,7 +1,33 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { TokenData } from '@/lib/types';
+import Link from 'next/link';
+import { CriteriaSummary, SourceWarning, TokenData, TokensDiff, WatchEntry, WatchlistView } from '@/lib/types';
+import { formatTimeAgo, formatUsd } from '@/lib/format';
+import { applyDiff } from '@/lib/diff';
+import { apiFetch, ensureSession } from '@/lib/session';
+import type { TokensView } from '@/lib/view';
+import RiskBadges from '@/components/RiskBadges';
+import WatchlistPanel from '@/components/WatchlistPanel';
+
+type RowChange = 'new' | 'up' | 'down' | 'changed';
+
+const HIGHLIGHT_MS = 4 * 1000;
+const RECONNECT_MS = 5 * 1000;
+
+const HIGHLIGHT_STYLES: Record<RowChange, string> = {
+  new: 'ring-2 ring-green-400',
+  up: 'ring-2 ring-green-400',
+  down: 'ring-2 ring-pink-500',
+  changed: 'ring-1 ring-cyan-400',
+};
+
+const HIGHLIGHT_LABELS: Record<RowChange, string> = {
+  new: 'NEW',
+  up: '▲',
+  down: '▼',
+  changed: '',
+};
 
 export default function Home() {
   const [tokens, setTokens] = useState<TokenData[]>([]);
@@ -9,36 +35,145 @@ export default function Home() {
   const [lastUpdated, setLastUpdated] = useState<number>(0);
   const [nextUpdate, setNextUpdate] = useState<number>(0);
   const [timeUntilUpdate, setTimeUntilUpdate] = useState<number>(0);
+  const [scanning, setScanning] = useState(false);
+  const [stale, setStale] = useState(false);
+  const [lastError, setLastError] = useState<string | undefined>();
+  const [warnings, setWarnings] = useState<SourceWarning[]>([]);
+  const [criteria, setCriteria] = useState<CriteriaSummary | null>(null);
+  const [presets, setPresets] = useState<string[]>([]);
+  const [connected, setConnected] = useState(false);
+  const [query, setQuery] = useState<string | null>(null);
+  const [highlights, setHighlights] = useState<Record<string, RowChange>>({});
+  const [watchlist, setWatchlist] = useState<WatchlistView | null>(null);
 
-  const fetchTokens = async () => {
+  // Everything in a snapshot or diff event besides the tokens
+  const applyStatus = (data: Omit<TokensView, 'tokens'>) => {
+    setLastUpdated(data.lastUpdated);
+    setNextUpdate(data.nextUpdate);
+    setScanning(data.scanning);
+    setStale(data.stale);
+    setLastError(data.lastError);
+    setWarnings(data.warnings || []);
+    setCriteria(data.criteria);
+    setPresets(data.presets || []);
+    setWatchlist(data.watchlist || null);
+  };
+
+  // Watchlist edits show up straight away rather than on the next scan
+  const reloadWatchlist = async () => {
     try {
-      setLoading(true);
-      const response = await fetch('/api/tokens');
+      const response = await apiFetch('/api/watchlist');
       const data = await response.json();
-      
       if (data.success) {
-        setTokens(data.tokens);
-        setLastUpdated(data.lastUpdated);
-        setNextUpdate(data.nextUpdate);
+        setWatchlist({ entries: data.entries, mints: data.mints, launches: data.launches });
+        const deployers = new Set(
+          data.entries.filter((entry: WatchEntry) => entry.kind === 'deployer').map((entry: WatchEntry) => entry.address)
+        );
+        setTokens((current) => current.map((token) => ({ ...token, watchedDeployer: deployers.has(token.deployer) })));
       }
     } catch (error) {
-      console.error('Failed to fetch tokens:', error);
-    } finally {
-      setLoading(false);
+      console.error('Failed to load watchlist:', error);
     }
   };
 
+  const watchDeployer = async (address: string) => {
+    try {
+      await apiFetch('/api/watchlist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kind: 'deployer', address }),
+      });
+      await reloadWatchlist();
+    } catch (error) {
+      console.error('Failed to update watchlist:', error);
+    }
+  };
+
+  // Flags rows touched by a diff for a few seconds
+  const highlight = (diff: TokensDiff) => {
+    const changes: Record<string, RowChange> = {};
+    diff.changed.forEach(({ mint }) => {
+      changes[mint] = 'changed';
+    });
+    diff.moved.forEach(({ mint, from, to }) => {
+      changes[mint] = to < from ? 'up' : 'down';
+    });
+    diff.added.forEach(({ mint }) => {
+      changes[mint] = 'new';
+    });
+
+    const mints = Object.keys(changes);
+    if (mints.length === 0) return;
+
+    setHighlights((current) => ({ ...current, ...changes }));
+    setTimeout(() => {
+      setHighlights((current) => {
+        const next = { ...current };
+        mints.forEach((mint) => {
+          if (next[mint] === changes[mint]) delete next[mint];
+        });
+        return next;
+      });
+    }, HIGHLIGHT_MS);
+  };
+
+  // The page's own query (preset=..., minHolders=...) is passed through to the API
   useEffect(() => {
-    fetchTokens();
-    
-    // Refresh every 1 minute
-    const interval = setInterval(() => {
-      fetchTokens();
-    }, 60 * 1000); // 1 minute
-    
-    return () => clearInterval(interval);
+    setQuery(window.location.search);
   }, []);
 
+  // Subscribe to live updates; EventSource reconnects by itself after
+  // network errors, and we reconnect if the server refuses the stream
+  useEffect(() => {
+    if (query === null) return;
+
+    let source: EventSource | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const connect = async (renew = false) => {
+      try {
+        await ensureSession(renew);
+      } catch (error) {
+        console.error('Failed to start session:', error);
+      }
+      if (closed) return;
+
+      source = new EventSource(`/api/tokens/stream${query}`);
+
+      source.addEventListener('snapshot', (event) => {
+        const data = JSON.parse((event as MessageEvent).data);
+        setTokens(data.tokens);
+        applyStatus(data);
+        setConnected(true);
+        setLoading(false);
+      });
+
+      source.addEventListener('diff', (event) => {
+        const data = JSON.parse((event as MessageEvent).data);
+        setTokens((current) => applyDiff(current, data.diff));
+        highlight(data.diff);
+        applyStatus(data);
+      });
+
+      source.onerror = () => {
+        setConnected(false);
+        if (source?.readyState === EventSource.CLOSED && !closed) {
+          // Refused outright, possibly because the session expired
+          retry = setTimeout(() => connect(true), RECONNECT_MS);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      source?.close();
+      clearTimeout(retry);
+    };
+  }, [query]);
+
   // Update countdown timer
   useEffect(() => {
     const interval = setInterval(() => {
@@ -50,11 +185,10 @@ export default function Home() {
     return () => clearInterval(interval);
   }, [nextUpdate]);
 
-  const formatTimeAgo = (timestamp: number) => {
-    const minutes = Math.floor((Date.now() - timestamp) / 60000);
-    if (minutes < 1) return 'Just now';
-    if (minutes === 1) return '1 minute ago';
-    return `${minutes} minutes ago`;
+  const selectPreset = (preset: string) => {
+    const search = `?preset=${encodeURIComponent(preset)}`;
+    window.history.replaceState(null, '', search);
+    setQuery(search);
   };
 
   const formatCountdown = (seconds: number) => {
@@ -81,30 +215,68 @@ export default function Home() {
 
         {/* Status Bar */}
         <div className="hologram rounded-lg p-4 mb-8 flex flex-col sm:flex-row justify-between items-center gap-4">
-          <div className="flex items-center gap-3">
-            <div className="w-3 h-3 rounded-full bg-green-400 pulse-glow"></div>
+          <div className="flex items-center gap-3" title={lastError}>
+            <div className={`w-3 h-3 rounded-full pulse-glow ${stale || !connected ? 'bg-yellow-400' : 'bg-green-400'}`}></div>
             <span className="font-rajdhani text-lg">
-              SYSTEM ACTIVE
+              {scanning ? 'SCANNING...' : !connected && !loading ? 'RECONNECTING...' : stale ? 'STALE DATA' : 'SYSTEM ACTIVE'}
             </span>
           </div>
           <div className="font-rajdhani text-lg">
-            NEXT UPDATE: <span className="text-cyan-400 font-bold">{formatCountdown(timeUntilUpdate)}</span>
+            NEXT SCAN: <span className="text-cyan-400 font-bold">{formatCountdown(timeUntilUpdate)}</span>
           </div>
           <div className="font-rajdhani text-sm text-gray-400">
             Last scan: {lastUpdated ? formatTimeAgo(lastUpdated) : 'Never'}
+            {warnings.length > 0 && (
+              <span
+                className="ml-3 text-yellow-400"
+                title={warnings.map((w) => `${w.symbol || w.mint || 'feed'}: ${w.source} — ${w.error}`).join('\n')}
+              >
+                ⚠ {warnings.length} SOURCE {warnings.length === 1 ? 'WARNING' : 'WARNINGS'}
+              </span>
+            )}
           </div>
         </div>
 
+        {/* Watchlist */}
+        <WatchlistPanel view={watchlist} onChange={reloadWatchlist} />
+
         {/* Token List Section */}
         <div className="mb-12">
           <h3 className="font-orbitron text-3xl font-bold text-center mb-8 tracking-wider">
-            <span className="text-white">TOP 5</span>{' '}
+            <span className="text-white">TOP {criteria?.topN ?? 5}</span>{' '}
             <span className="text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500">
-              BY HOLDERS
+              {criteria?.rankingLabel ?? 'BY HOLDERS'}
             </span>
           </h3>
 
-          {loading && tokens.length === 0 ? (
+          {presets.length > 1 && (
+            <div className="flex flex-wrap justify-center gap-2 mb-8">
+              {presets.map((preset) => (
+                <button
+                  key={preset}
+                  onClick={() => selectPreset(preset)}
+                  className={`font-rajdhani text-sm px-3 py-1 rounded border transition-colors ${
+                    criteria?.preset === preset
+                      ? 'border-cyan-400 text-cyan-400'
+                      : 'border-gray-700 text-gray-400 hover:text-cyan-400'
+                  }`}
+                >
+                  {preset.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="text-center mb-8">
+            <Link href="/explorer" className="font-rajdhani text-sm text-gray-400 hover:text-cyan-400 underline decoration-dotted">
+              EXPLORE EVERY SCANNED TOKEN →
+            </Link>
+            <Link href="/backtest" className="ml-6 font-rajdhani text-sm text-gray-400 hover:text-cyan-400 underline decoration-dotted">
+              BACKTEST CRITERIA →
+            </Link>
+          </div>
+
+          {(loading || scanning) && tokens.length === 0 ? (
             <div className="text-center py-20">
               <div className="inline-block">
                 <div className="w-16 h-16 border-4 border-cyan-400 border-t-transparent rounded-full animate-spin"></div>
@@ -127,7 +299,9 @@ export default function Home() {
               {tokens.map((token) => (
                 <div
                   key={token.mint}
-                  className="token-card rounded-lg p-6 relative overflow-hidden"
+                  className={`token-card rounded-lg p-6 relative overflow-hidden transition-shadow ${
+                    highlights[token.mint] ? HIGHLIGHT_STYLES[highlights[token.mint]] : ''
+                  }`}
                 >
                   {/* Rank Badge */}
                   <div className="absolute top-4 left-4 rank-badge rounded-full w-14 h-14 flex items-center justify-center">
@@ -135,40 +309,62 @@ export default function Home() {
                       {token.rank}
                     </span>
                   </div>
+                  {highlights[token.mint] && HIGHLIGHT_LABELS[highlights[token.mint]] && (
+                    <div className="absolute top-20 left-4 w-14 text-center font-orbitron text-xs font-bold text-green-400">
+                      {HIGHLIGHT_LABELS[highlights[token.mint]]}
+                    </div>
+                  )}
 
                   {/* Token Content */}
                   <div className="ml-20">
                     <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
                       <div>
-                        <h4 className="font-orbitron text-2xl font-bold text-cyan-400 mb-1">
-                          {token.symbol}
-                        </h4>
+                        <Link href={`/token/${token.mint}`}>
+                          <h4 className="font-orbitron text-2xl font-bold text-cyan-400 hover:text-cyan-300 mb-1">
+                            {token.symbol}
+                          </h4>
+                        </Link>
+                        <Link
+                          href={`/token/${token.mint}`}
+                          className="font-rajdhani text-lg text-gray-300 hover:text-cyan-400 transition-colors underline decoration-dotted underline-offset-2 inline-block"
+                        >
+                          {token.name}
+                        </Link>
                         {token.uri && (
                           <a 
                             href={token.uri}
                             target="_blank"
                             rel="noopener noreferrer"
-                            className="font-rajdhani text-lg text-gray-300 hover:text-cyan-400 transition-colors underline decoration-dotted underline-offset-2 inline-block"
+                            className="font-rajdhani text-sm text-gray-500 hover:text-cyan-400 transition-colors ml-3"
                           >
-                            {token.name}
+                            PUMP.FUN ↗
                           </a>
                         )}
-                        {!token.uri && (
-                          <p className="font-rajdhani text-lg text-gray-300">
-                            {token.name}
-                          </p>
-                        )}
                       </div>
                       <div className="text-right">
-                        <div className="font-orbitron text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-green-400 to-cyan-400">
-                          {token.holders}
+                        <div
+                          className="font-orbitron text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-green-400 to-cyan-400"
+                          title={token.holdersError}
+                        >
+                          {token.holdersError ? '?' : token.holders}
                         </div>
                         <div className="font-rajdhani text-sm text-gray-400">
                           HOLDERS
                         </div>
+                        {token.top10Share !== undefined && (
+                          <div className="font-rajdhani text-xs text-gray-500">
+                            TOP 10 HOLD {token.top10Share.toFixed(0)}%
+                            {token.deployerShare ? ` · DEV ${token.deployerShare.toFixed(1)}%` : ''}
+                          </div>
+                        )}
                       </div>
                     </div>
 
+                    {/* Risk Flags */}
+                    <div className="mb-4">
+                      <RiskBadges score={token.riskScore} flags={token.riskFlags} />
+                    </div>
+
                     {/* Token Stats */}
                     <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
                       <div className="hologram rounded p-3">
@@ -178,6 +374,22 @@ export default function Home() {
                         <div className="font-orbitron text-lg font-bold text-purple-400">
                           ${(token.marketCap / 1000).toFixed(1)}K
                         </div>
+                        {token.isGraduated ? (
+                          <div className="font-rajdhani text-xs text-green-400">GRADUATED</div>
+                        ) : token.bondingCurveProgress !== undefined && (
+                          <div className="mt-1 h-1 bg-gray-800 rounded" title={`Bonding curve ${token.bondingCurveProgress.toFixed(1)}%`}>
+                            <div
+                              className="h-1 bg-gradient-to-r from-purple-500 to-cyan-400 rounded"
+                              style={{ width: `${token.bondingCurveProgress}%` }}
+                            />
+                          </div>
+                        )}
+                        {token.volume1h !== undefined && (
+                          <div className="font-rajdhani text-xs text-gray-500">
+                            1H VOL {formatUsd(token.volume1h)}
+                            {token.buys1h !== undefined ? ` · ${token.buys1h}B/${token.sells1h ?? 0}S` : ''}
+                          </div>
+                        )}
                       </div>
                       <div className="hologram rounded p-3">
                         <div className="font-rajdhani text-xs text-gray-400 mb-1">
@@ -201,10 +413,26 @@ export default function Home() {
                     <div className="mt-4 pt-4 border-t border-cyan-900">
                       <div className="font-rajdhani text-xs text-gray-400 mb-1">
                         DEV WALLET
+                        {token.watchedDeployer ? (
+                          <span className="ml-2 text-cyan-400">★ WATCHED</span>
+                        ) : (
+                          <button onClick={() => watchDeployer(token.deployer)} className="ml-2 hover:text-cyan-400">
+                            ☆ WATCH
+                          </button>
+                        )}
                       </div>
-                      <div className="font-mono text-sm text-gray-300 break-all">
+                      <Link href={`/deployer/${token.deployer}`} className="font-mono text-sm text-gray-300 break-all hover:text-cyan-400">
                         {token.deployer}
-                      </div>
+                      </Link>
+                      {token.cluster && token.cluster.size > 1 && (
+                        <div
+                          className={`font-rajdhani text-xs mt-1 ${token.cluster.rugs > 0 ? 'text-pink-400' : 'text-gray-500'}`}
+                          title="Wallets linked by funding source, SOL transfers or reused metadata"
+                        >
+                          CLUSTER OF {token.cluster.size} WALLETS · {token.cluster.bondingRate.toFixed(0)}% BONDED
+                          {token.cluster.rugs > 0 ? ` · ${token.cluster.rugs} ${token.cluster.rugs === 1 ? 'RUG' : 'RUGS'}` : ''}
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -223,7 +451,18 @@ export default function Home() {
         <div className="text-center mt-12 font-rajdhani text-sm text-gray-500">
           <p>AUTO-REFRESHING EVERY 1 MINUTE</p>
           <p className="mt-2">
-            CRITERIA: 160+ HOLDERS • $15K+ MARKET CAP • RANKED BY HOLDERS
+            EXPORT RANKINGS:{' '}
+            {['csv', 'json', 'ndjson'].map((format, index) => (
+              <span key={format}>
+                {index > 0 && ' · '}
+                <a href={`/api/export?dataset=ranked&format=${format}`} className="text-gray-400 hover:text-cyan-400 underline decoration-dotted">
+                  {format.toUpperCase()}
+                </a>
+              </span>
+            ))}
+          </p>
+          <p className="mt-2">
+            CRITERIA: {criteria ? criteria.description.join(' • ') : '...'}
           </p>
         </div>
       </div>
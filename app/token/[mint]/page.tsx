@@ -0,0 +1,329 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { HistoryPoint, TokenDetail } from '@/lib/types';
+import { formatPercent, formatPrice, formatTimeAgo, formatUsd, shortAddress } from '@/lib/format';
+import { apiFetch } from '@/lib/session';
+import LineChart from '@/components/LineChart';
+import RiskBadges from '@/components/RiskBadges';
+
+const WINDOWS = ['1h', '6h', '24h', '7d'];
+
+export default function TokenPage({ params }: { params: { mint: string } }) {
+  const { mint } = params;
+  const [detail, setDetail] = useState<TokenDetail | null>(null);
+  const [history, setHistory] = useState<HistoryPoint[]>([]);
+  const [historyWindow, setHistoryWindow] = useState('24h');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDetail = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await apiFetch(`/api/tokens/${mint}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setDetail(data);
+        setError(null);
+      } else {
+        setError(data.message || data.error);
+      }
+    } catch (error) {
+      console.error('Failed to fetch token:', error);
+      setError('Failed to fetch token');
+    } finally {
+      setLoading(false);
+    }
+  }, [mint]);
+
+  useEffect(() => {
+    fetchDetail();
+  }, [fetchDetail]);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const response = await apiFetch(`/api/tokens/${mint}/history?window=${historyWindow}`);
+        const data = await response.json();
+        if (data.success) {
+          setHistory(data.points);
+        }
+      } catch (error) {
+        console.error('Failed to fetch history:', error);
+      }
+    };
+
+    fetchHistory();
+  }, [mint, historyWindow]);
+
+  const token = detail?.token;
+  // One entry per source that failed, from the per-field provenance
+  const failedSources = Array.from(new Map(
+    Object.values(token?.provenance || {})
+      .filter((status) => status?.status === 'error')
+      .map((status) => [status!.source, status!.error || 'Unknown error'])
+  ));
+
+  return (
+    <main className="relative min-h-screen py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-5xl mx-auto relative z-10">
+        <Link href="/" className="font-rajdhani text-cyan-400 hover:text-cyan-300">
+          ← BACK TO RANKINGS
+        </Link>
+
+        {loading && !detail ? (
+          <div className="text-center py-20">
+            <div className="inline-block">
+              <div className="w-16 h-16 border-4 border-cyan-400 border-t-transparent rounded-full animate-spin"></div>
+              <p className="font-rajdhani text-xl text-cyan-400 mt-4">
+                ENRICHING TOKEN...
+              </p>
+            </div>
+          </div>
+        ) : error || !token || !detail ? (
+          <div className="hologram rounded-lg p-12 text-center mt-8">
+            <p className="font-rajdhani text-2xl text-gray-400">TOKEN NOT FOUND</p>
+            <p className="font-rajdhani text-lg text-gray-500 mt-2">{error}</p>
+          </div>
+        ) : (
+          <>
+            {/* Header */}
+            <div className="mt-8 mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+              <div>
+                <h1 className="font-orbitron text-5xl font-black text-cyan-400 glow-text">
+                  {token.symbol}
+                </h1>
+                <p className="font-rajdhani text-2xl text-gray-300">{token.name}</p>
+                <p className="font-mono text-xs text-gray-500 break-all mt-1">{token.mint}</p>
+              </div>
+              <div className="flex gap-3 font-rajdhani text-sm">
+                <a href={token.uri} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-cyan-400 underline decoration-dotted">
+                  PUMP.FUN ↗
+                </a>
+                <a href={`https://dexscreener.com/solana/${token.mint}`} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-cyan-400 underline decoration-dotted">
+                  DEXSCREENER ↗
+                </a>
+                <button onClick={() => fetchDetail()} disabled={loading} className="text-cyan-400 hover:text-cyan-300 disabled:text-gray-600">
+                  {loading ? 'REFRESHING...' : 'REFRESH'}
+                </button>
+              </div>
+            </div>
+
+            {/* Token Stats */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-8">
+              {[
+                { label: 'HOLDERS', value: token.holdersError ? 'UNKNOWN' : `${token.holders}`, color: 'text-green-400' },
+                {
+                  label: token.marketCapSource === 'fdv'
+                    ? 'MARKET CAP (FDV)'
+                    : token.marketCapSource === 'bondingCurve' ? 'MARKET CAP (CURVE)' : 'MARKET CAP',
+                  value: formatUsd(token.marketCap),
+                  color: 'text-purple-400',
+                },
+                { label: 'PRICE', value: formatPrice(token.priceUsd), color: 'text-cyan-400' },
+                { label: `LIQUIDITY${token.dexId ? ` (${token.dexId.toUpperCase()})` : ''}`, value: formatUsd(token.liquidityUsd), color: 'text-cyan-400' },
+                { label: '1H VOLUME', value: formatUsd(token.volume1h), color: 'text-cyan-400' },
+                { label: '24H VOLUME', value: formatUsd(token.volume24h), color: 'text-cyan-400' },
+                {
+                  label: '5M / 1H CHANGE',
+                  value: `${formatPercent(token.priceChange5m)} / ${formatPercent(token.priceChange1h)}`,
+                  color: (token.priceChange1h ?? 0) >= 0 ? 'text-green-400' : 'text-pink-400',
+                },
+                {
+                  label: '24H CHANGE',
+                  value: formatPercent(token.priceChange24h),
+                  color: (token.priceChange24h ?? 0) >= 0 ? 'text-green-400' : 'text-pink-400',
+                },
+                {
+                  label: '1H BUYS / SELLS',
+                  value: token.buys1h !== undefined ? `${token.buys1h} / ${token.sells1h ?? 0}` : '—',
+                  color: 'text-green-400',
+                },
+                {
+                  label: '24H BUYS / SELLS',
+                  value: token.buys24h !== undefined ? `${token.buys24h} / ${token.sells24h ?? 0}` : '—',
+                  color: 'text-green-400',
+                },
+                {
+                  label: 'BONDING CURVE',
+                  value: token.isGraduated
+                    ? 'GRADUATED'
+                    : token.bondingCurveProgress !== undefined ? `${token.bondingCurveProgress.toFixed(1)}%` : '—',
+                  color: 'text-purple-400',
+                },
+                { label: 'RANK', value: token.rank ? `#${token.rank}` : 'UNRANKED', color: 'text-pink-400' },
+                { label: 'CREATED', value: token.createdAt ? formatTimeAgo(token.createdAt) : '—', color: 'text-cyan-400' },
+                {
+                  label: 'HOLDERS/HR',
+                  value: token.holderVelocity !== undefined ? token.holderVelocity.toFixed(0) : '—',
+                  color: 'text-green-400',
+                },
+              ].map((stat) => (
+                <div key={stat.label} className="hologram rounded p-3">
+                  <div className="font-rajdhani text-xs text-gray-400 mb-1">{stat.label}</div>
+                  <div className={`font-orbitron text-lg font-bold ${stat.color}`}>{stat.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Failed sources */}
+            {failedSources.length > 0 && (
+              <div className="hologram rounded-lg p-4 mb-8 font-rajdhani text-sm text-yellow-400">
+                {failedSources.map(([source, error]) => (
+                  <div key={source}>
+                    ⚠ {source.toUpperCase()} FAILED — <span className="text-gray-400">{error}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Risk */}
+            {token.riskScore !== undefined && (
+              <div className="mb-8">
+                <h3 className="font-orbitron text-2xl font-bold tracking-wider mb-4">RISK</h3>
+                <div className="hologram rounded p-4">
+                  <RiskBadges score={token.riskScore} flags={token.riskFlags} />
+                  {token.riskFlags && token.riskFlags.length > 0 && (
+                    <ul className="mt-4 space-y-1 font-rajdhani text-sm text-gray-300">
+                      {token.riskFlags.map((flag) => (
+                        <li key={flag.check}>• {flag.detail}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* History */}
+            <div className="mb-8">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="font-orbitron text-2xl font-bold tracking-wider">HISTORY</h3>
+                <div className="flex gap-2">
+                  {WINDOWS.map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setHistoryWindow(option)}
+                      className={`font-rajdhani text-sm px-3 py-1 rounded border ${
+                        historyWindow === option ? 'border-cyan-400 text-cyan-400' : 'border-gray-700 text-gray-400 hover:text-cyan-400'
+                      }`}
+                    >
+                      {option.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <LineChart
+                  label="HOLDERS"
+                  color="#39ff14"
+                  points={history.map((point) => ({ t: point.t, v: point.holders }))}
+                  format={(value) => value.toFixed(0)}
+                />
+                <LineChart
+                  label="MARKET CAP"
+                  color="#9d4edd"
+                  points={history.map((point) => ({ t: point.t, v: point.marketCap }))}
+                  format={(value) => formatUsd(value)}
+                />
+              </div>
+            </div>
+
+            {/* Holder Concentration */}
+            <div className="mb-8">
+              <h3 className="font-orbitron text-2xl font-bold tracking-wider mb-4">HOLDER CONCENTRATION</h3>
+              {detail.concentration ? (
+                <div className="hologram rounded p-4">
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-4">
+                    {[
+                      { label: 'TOP 10', value: `${detail.concentration.top10Share.toFixed(1)}%` },
+                      { label: 'TOP 20', value: `${detail.concentration.top20Share.toFixed(1)}%` },
+                      { label: 'GINI', value: detail.concentration.gini.toFixed(2) },
+                      { label: 'DEPLOYER HOLDS', value: `${detail.concentration.deployerShare.toFixed(1)}%` },
+                    ].map((stat) => (
+                      <div key={stat.label}>
+                        <div className="font-rajdhani text-xs text-gray-400">{stat.label}</div>
+                        <div className="font-orbitron text-lg font-bold text-pink-400">{stat.value}</div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="space-y-2">
+                    {detail.concentration.largest.slice(0, 10).map((account) => (
+                      <div key={account.address} className="flex items-center gap-3 font-rajdhani text-sm">
+                        <span className="font-mono text-gray-400 w-28">
+                          {shortAddress(account.address)}
+                          {account.address === token.deployer && <span className="text-pink-400"> DEV</span>}
+                        </span>
+                        <div className="flex-1 h-2 bg-gray-800 rounded">
+                          <div className="h-2 rounded bg-gradient-to-r from-cyan-400 to-purple-500" style={{ width: `${Math.min(100, account.share)}%` }}></div>
+                        </div>
+                        <span className="w-16 text-right text-gray-300">{account.share.toFixed(2)}%</span>
+                      </div>
+                    ))}
+                  </div>
+                  {detail.concentration.excluded.length > 0 && (
+                    <div className="border-t border-cyan-900 mt-4 pt-4 font-rajdhani text-sm text-gray-500">
+                      EXCLUDED:{' '}
+                      {detail.concentration.excluded
+                        .map((account) => `${account.label} (${account.share.toFixed(1)}%)`)
+                        .join(', ')}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="hologram rounded p-4 font-rajdhani text-gray-500">UNAVAILABLE</div>
+              )}
+            </div>
+
+            {/* Deployer */}
+            <div className="mb-8">
+              <h3 className="font-orbitron text-2xl font-bold tracking-wider mb-4">DEPLOYER</h3>
+              <div className="hologram rounded p-4">
+                <Link href={`/deployer/${detail.deployer.address}`} className="block font-mono text-sm text-gray-300 break-all mb-4 hover:text-cyan-400">
+                  {detail.deployer.address} →
+                </Link>
+                <div className="grid grid-cols-3 gap-4 mb-4">
+                  <div>
+                    <div className="font-rajdhani text-xs text-gray-400">LAUNCHES</div>
+                    <div className="font-orbitron text-lg font-bold text-cyan-400">{detail.deployer.totalTokens}</div>
+                  </div>
+                  <div>
+                    <div className="font-rajdhani text-xs text-gray-400">BONDED</div>
+                    <div className="font-orbitron text-lg font-bold text-green-400">{detail.deployer.bondedTokens}</div>
+                  </div>
+                  <div>
+                    <div className="font-rajdhani text-xs text-gray-400">BONDING RATE</div>
+                    <div className="font-orbitron text-lg font-bold text-purple-400">{detail.deployer.bondingRate.toFixed(0)}%</div>
+                  </div>
+                </div>
+                {detail.launches.length > 0 && (
+                  <div className="border-t border-cyan-900 pt-4 space-y-2">
+                    {detail.launches.map((launch) => (
+                      <div key={launch.mint} className="flex justify-between items-center font-rajdhani text-sm">
+                        <Link href={`/token/${launch.mint}`} className="text-gray-300 hover:text-cyan-400">
+                          {launch.symbol || shortAddress(launch.mint)}
+                          {launch.mint === token.mint && <span className="text-gray-500"> (this token)</span>}
+                        </Link>
+                        <span className="flex gap-4">
+                          <span className="text-gray-500">{launch.createdAt ? formatTimeAgo(launch.createdAt) : ''}</span>
+                          <span className={launch.graduated ? 'text-green-400' : 'text-gray-500'}>
+                            {launch.graduated ? 'BONDED' : 'NOT BONDED'}
+                          </span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <p className="font-rajdhani text-sm text-gray-500 text-center">
+              Data from {detail.scannedAt ? formatTimeAgo(detail.scannedAt) : 'never'}
+            </p>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,58 @@
+interface LineChartProps {
+  points: { t: number; v: number }[];
+  label: string;
+  color: string;
+  format: (value: number) => string;
+  height?: number;
+}
+
+// Minimal SVG line chart; no axes beyond min/max and the time range
+export default function LineChart({ points, label, color, format, height = 160 }: LineChartProps) {
+  const width = 600;
+
+  if (points.length < 2) {
+    return (
+      <div className="hologram rounded p-4">
+        <div className="font-rajdhani text-xs text-gray-400 mb-1">{label}</div>
+        <div className="font-rajdhani text-gray-500 py-8 text-center">NOT ENOUGH HISTORY YET</div>
+      </div>
+    );
+  }
+
+  const minT = points[0].t;
+  const maxT = points[points.length - 1].t;
+  const values = points.map((point) => point.v);
+  const minV = Math.min(...values);
+  const maxV = Math.max(...values);
+  const rangeT = maxT - minT || 1;
+  const rangeV = maxV - minV || 1;
+
+  const path = points
+    .map((point) => {
+      const x = ((point.t - minT) / rangeT) * width;
+      const y = height - ((point.v - minV) / rangeV) * (height - 10) - 5;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  const formatTime = (t: number) =>
+    new Date(t).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="hologram rounded p-4">
+      <div className="flex justify-between font-rajdhani text-xs text-gray-400 mb-2">
+        <span>{label}</span>
+        <span>
+          {format(minV)} – {format(maxV)}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full" preserveAspectRatio="none" style={{ height }}>
+        <polyline points={path} fill="none" stroke={color} strokeWidth="2" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between font-rajdhani text-xs text-gray-500 mt-1">
+        <span>{formatTime(minT)}</span>
+        <span>{formatTime(maxT)}</span>
+      </div>
+    </div>
+  );
+}
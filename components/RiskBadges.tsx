@@ -0,0 +1,45 @@
+import { RiskFlag } from '@/lib/types';
+
+interface RiskBadgesProps {
+  score?: number;
+  flags?: RiskFlag[];
+}
+
+const SEVERITY_STYLES: Record<RiskFlag['severity'], string> = {
+  high: 'border-pink-500 text-pink-400',
+  medium: 'border-yellow-500 text-yellow-400',
+  low: 'border-gray-500 text-gray-400',
+};
+
+// One badge per risk flag; hover for the explanation
+export default function RiskBadges({ score, flags }: RiskBadgesProps) {
+  // Unscored because a lookup failed; not the same as no flags
+  if (score === undefined) {
+    return (
+      <div className="flex flex-wrap gap-2 font-rajdhani text-xs">
+        <span title="The risk checks couldn't run for this token" className="px-2 py-0.5 rounded border border-gray-500 text-gray-400 cursor-help">
+          RISK UNKNOWN
+        </span>
+      </div>
+    );
+  }
+
+  if (!flags || flags.length === 0) {
+    return (
+      <div className="flex flex-wrap gap-2 font-rajdhani text-xs">
+        <span className="px-2 py-0.5 rounded border border-green-500 text-green-400">NO RISK FLAGS</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2 font-rajdhani text-xs">
+      <span className="px-2 py-0.5 rounded border border-pink-500 text-pink-400 font-bold">RISK {score}</span>
+      {flags.map((flag) => (
+        <span key={flag.check} title={flag.detail} className={`px-2 py-0.5 rounded border cursor-help ${SEVERITY_STYLES[flag.severity]}`}>
+          {flag.label}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { TokenData, WatchEntry, WatchKind, WatchlistView } from '@/lib/types';
+import { formatTimeAgo, formatUsd, shortAddress } from '@/lib/format';
+import { apiFetch } from '@/lib/session';
+
+interface WatchlistPanelProps {
+  view: WatchlistView | null;
+  // Called after an entry is added or removed, to reload the view
+  onChange: () => void;
+}
+
+const KIND_LABELS: Record<WatchKind, string> = {
+  deployer: 'DEV WALLET',
+  mint: 'TOKEN',
+};
+
+function Tags({ entry }: { entry: WatchEntry }) {
+  return (
+    <>
+      {entry.tags.map((tag) => (
+        <span key={tag} className="ml-2 px-2 py-0.5 rounded border border-purple-500 text-purple-400 text-xs">
+          {tag}
+        </span>
+      ))}
+    </>
+  );
+}
+
+// Pinned section of the dashboard: watched tokens with their latest data,
+// watched dev wallets with their launches in the last scan, and a form to
+// add either
+export default function WatchlistPanel({ view, onChange }: WatchlistPanelProps) {
+  const [kind, setKind] = useState<WatchKind>('deployer');
+  const [address, setAddress] = useState('');
+  const [tags, setTags] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const entries = view?.entries || [];
+  const tokens = new Map((view?.mints || []).map((token) => [token.mint, token]));
+  const launchesBy = (deployer: string) => (view?.launches || []).filter((token) => token.deployer === deployer);
+
+  const add = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await apiFetch('/api/watchlist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind,
+          address,
+          notes: notes || undefined,
+          tags: tags.split(',').filter((tag) => tag.trim()),
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.message || data.error);
+        return;
+      }
+
+      setAddress('');
+      setTags('');
+      setNotes('');
+      onChange();
+    } catch (err) {
+      console.error('Failed to update watchlist:', err);
+      setError('Failed to update watchlist');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (entry: WatchEntry) => {
+    try {
+      await apiFetch(`/api/watchlist/${entry.kind}/${entry.address}`, { method: 'DELETE' });
+      onChange();
+    } catch (err) {
+      console.error('Failed to update watchlist:', err);
+    }
+  };
+
+  const removeButton = (entry: WatchEntry) => (
+    <button
+      onClick={() => remove(entry)}
+      title="Stop watching"
+      className="ml-3 text-gray-500 hover:text-pink-400"
+    >
+      ✕
+    </button>
+  );
+
+  const tokenSummary = (token: TokenData) => (
+    <span className="text-gray-400">
+      {token.holdersError ? '?' : token.holders} HOLDERS · {formatUsd(token.marketCap)}
+      {token.rank > 0 && <span className="ml-2 text-pink-400">#{token.rank}</span>}
+    </span>
+  );
+
+  return (
+    <div className="hologram rounded-lg p-6 mb-8">
+      <h3 className="font-orbitron text-2xl font-bold mb-4 tracking-wider">
+        <span className="text-cyan-400">★</span> WATCHLIST
+      </h3>
+
+      {entries.length === 0 ? (
+        <p className="font-rajdhani text-gray-500 mb-4">
+          Nothing watched yet. Add a dev wallet to flag its launches, or a token to track it outside the ranking.
+        </p>
+      ) : (
+        <div className="grid gap-3 mb-4 font-rajdhani">
+          {entries.map((entry) => {
+            if (entry.kind === 'mint') {
+              const token = tokens.get(entry.address);
+              return (
+                <div key={`mint-${entry.address}`} className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <span className="text-xs text-gray-500 mr-2">TOKEN</span>
+                    <Link href={`/token/${entry.address}`} className="font-orbitron text-cyan-400 hover:text-cyan-300">
+                      {token?.symbol || shortAddress(entry.address)}
+                    </Link>
+                    <Tags entry={entry} />
+                    {entry.notes && <span className="ml-3 text-sm text-gray-500">{entry.notes}</span>}
+                  </div>
+                  <div className="text-sm">
+                    {token ? tokenSummary(token) : <span className="text-gray-500">AWAITING NEXT SCAN</span>}
+                    {removeButton(entry)}
+                  </div>
+                </div>
+              );
+            }
+
+            const launches = launchesBy(entry.address);
+            return (
+              <div key={`deployer-${entry.address}`}>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <span className="text-xs text-gray-500 mr-2">DEV</span>
+                    <Link href={`/deployer/${entry.address}`} className="font-mono text-sm text-gray-300 hover:text-cyan-400">
+                      {shortAddress(entry.address)}
+                    </Link>
+                    <Tags entry={entry} />
+                    {entry.notes && <span className="ml-3 text-sm text-gray-500">{entry.notes}</span>}
+                  </div>
+                  <div className="text-sm text-gray-400">
+                    {launches.length} {launches.length === 1 ? 'LAUNCH' : 'LAUNCHES'} IN LAST SCAN
+                    {removeButton(entry)}
+                  </div>
+                </div>
+                {launches.map((token) => (
+                  <div key={token.mint} className="flex flex-wrap justify-between gap-2 ml-6 text-sm">
+                    <div>
+                      <Link href={`/token/${token.mint}`} className="text-cyan-400 hover:text-cyan-300">
+                        {token.symbol}
+                      </Link>
+                      <span className="ml-2 text-gray-500">{formatTimeAgo(token.createdAt)}</span>
+                      {token.createdAt > entry.addedAt && (
+                        <span className="ml-2 px-2 py-0.5 rounded border border-green-500 text-green-400 text-xs">NEW LAUNCH</span>
+                      )}
+                    </div>
+                    {tokenSummary(token)}
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Add entry */}
+      <div className="flex flex-col sm:flex-row gap-2 font-rajdhani text-sm">
+        <select
+          value={kind}
+          onChange={(event) => setKind(event.target.value as WatchKind)}
+          className="bg-black border border-gray-700 rounded px-2 py-1 text-gray-300"
+        >
+          {(Object.keys(KIND_LABELS) as WatchKind[]).map((value) => (
+            <option key={value} value={value}>{KIND_LABELS[value]}</option>
+          ))}
+        </select>
+        <input
+          value={address}
+          onChange={(event) => setAddress(event.target.value)}
+          placeholder="Address"
+          className="flex-1 bg-black border border-gray-700 rounded px-2 py-1 font-mono text-gray-300"
+        />
+        <input
+          value={tags}
+          onChange={(event) => setTags(event.target.value)}
+          placeholder="Tags, comma separated"
+          className="bg-black border border-gray-700 rounded px-2 py-1 text-gray-300"
+        />
+        <input
+          value={notes}
+          onChange={(event) => setNotes(event.target.value)}
+          placeholder="Notes"
+          className="bg-black border border-gray-700 rounded px-2 py-1 text-gray-300"
+        />
+        <button
+          onClick={add}
+          disabled={busy || !address.trim()}
+          className="px-3 py-1 rounded border border-cyan-400 text-cyan-400 hover:bg-cyan-400 hover:text-black disabled:opacity-40"
+        >
+          WATCH
+        </button>
+      </div>
+      {error && <p className="font-rajdhani text-sm text-pink-400 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+// Starts the background scanner when the server boots
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScanner } = await import('@/lib/scanner');
+    startScanner();
+  }
+}
@@ -0,0 +1,107 @@
+import { Alert, AlertChannel } from '@/lib/alerts/types';
+import { upstreamFetch } from '@/lib/http';
+import { formatUsd, shortAddress } from '@/lib/format';
+
+// Alert delivery channels
+//
+// Each channel makes a single attempt; retries are scheduled by the outbox.
+
+export const DEFAULT_TELEGRAM_API_URL = 'https://api.telegram.org';
+
+// Where "view" links in alerts point, e.g. https://hunter.example.com
+export interface ChannelOptions {
+  dashboardUrl?: string;
+}
+
+function tokenLink(alert: Alert, options: ChannelOptions): string {
+  return options.dashboardUrl ? `${options.dashboardUrl}/token/${alert.mint}` : alert.token.uri;
+}
+
+export function formatAlertText(alert: Alert): string {
+  const { token } = alert;
+  return [
+    `🚨 ${alert.symbol} (${alert.name})`,
+    ...alert.reasons.map((reason) => `• ${reason.message}`),
+    `${token.holdersError ? '?' : token.holders} holders · ${formatUsd(token.marketCap)} market cap · deployer ${token.bondingRate.toFixed(0)}% bonded`,
+  ].join('\n');
+}
+
+async function post(url: string, body: unknown) {
+  const response = await upstreamFetch(
+    url,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    },
+    { retries: 0, upstream: 'alerts' }
+  );
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`${response.status} ${response.statusText}${text ? `: ${text.slice(0, 200)}` : ''}`);
+  }
+}
+
+// Posts the alert as JSON
+export function createWebhookChannel(url: string, options: ChannelOptions = {}): AlertChannel {
+  return {
+    name: 'webhook',
+    async send(alert) {
+      await post(url, {
+        type: 'token-alert',
+        ...alert,
+        url: tokenLink(alert, options),
+        text: formatAlertText(alert),
+      });
+    },
+  };
+}
+
+export function createDiscordChannel(webhookUrl: string, options: ChannelOptions = {}): AlertChannel {
+  return {
+    name: 'discord',
+    async send(alert) {
+      const { token } = alert;
+      await post(webhookUrl, {
+        embeds: [
+          {
+            title: `🚨 ${alert.symbol} — ${alert.name}`,
+            url: tokenLink(alert, options),
+            description: alert.reasons.map((reason) => `• ${reason.message}`).join('\n'),
+            color: 0x00f0ff,
+            fields: [
+              { name: 'Holders', value: `${token.holders}`, inline: true },
+              { name: 'Market cap', value: formatUsd(token.marketCap), inline: true },
+              { name: 'Deployer bonded', value: `${token.bondingRate.toFixed(0)}%`, inline: true },
+              { name: 'Mint', value: `\`${alert.mint}\`` },
+            ],
+            footer: { text: `Deployer ${shortAddress(token.deployer)}` },
+            timestamp: new Date(alert.createdAt).toISOString(),
+          },
+        ],
+      });
+    },
+  };
+}
+
+export function createTelegramChannel(
+  botToken: string,
+  chatId: string,
+  options: ChannelOptions & { apiUrl?: string } = {}
+): AlertChannel {
+  const apiUrl = options.apiUrl || DEFAULT_TELEGRAM_API_URL;
+
+  return {
+    name: 'telegram',
+    async send(alert) {
+      await post(`${apiUrl}/bot${botToken}/sendMessage`, {
+        chat_id: chatId,
+        text: `${formatAlertText(alert)}\n${tokenLink(alert, options)}`,
+        disable_web_page_preview: true,
+      });
+    },
+  };
+}
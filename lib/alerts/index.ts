@@ -0,0 +1,209 @@
+import path from 'path';
+import { Alert, AlertChannel, Delivery } from '@/lib/alerts/types';
+import { AlertThresholds, detectAlerts } from '@/lib/alerts/triggers';
+import { AlertStore, createFileAlertStore } from '@/lib/alerts/outbox';
+import { createDiscordChannel, createTelegramChannel, createWebhookChannel } from '@/lib/alerts/channels';
+import { EnrichedToken } from '@/lib/enrich';
+import { ScanResult } from '@/lib/scan';
+import { DATA_DIR } from '@/lib/store';
+import { singleton } from '@/lib/singleton';
+import { log } from '@/lib/log';
+
+export * from '@/lib/alerts/types';
+
+// Alerting
+//
+// After every scan, new alerts are detected, queued once per channel and
+// delivered. Failed deliveries are retried with exponential backoff on later
+// scans until MAX_ATTEMPTS is reached.
+
+type Env = Record<string, string | undefined>;
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE = 30 * 1000; // 30 seconds
+const RETRY_MAX = 30 * 60 * 1000; // 30 minutes
+// Finished deliveries kept for /api/alerts
+const KEEP_DELIVERIES = 500;
+const DEFAULT_COOLDOWN = 30 * 60 * 1000; // 30 minutes
+
+export interface AlerterOptions {
+  channels: AlertChannel[];
+  store: AlertStore;
+  thresholds: AlertThresholds;
+  // Minimum time between alerts for the same mint
+  cooldown: number;
+  now?: () => number;
+}
+
+export function createAlerter(options: AlerterOptions) {
+  const now = options.now || Date.now;
+  const { channels, store } = options;
+
+  // Runs store read-modify-write cycles one at a time
+  let queue: Promise<unknown> = Promise.resolve();
+  function serial<T>(task: () => Promise<T>): Promise<T> {
+    const run = queue.then(task);
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  function enqueue(deliveries: Delivery[], alerts: Alert[]) {
+    for (const alert of alerts) {
+      for (const channel of channels) {
+        deliveries.push({
+          id: `${alert.id}-${channel.name}`,
+          channel: channel.name,
+          alert,
+          status: 'pending',
+          attempts: [],
+          nextAttemptAt: now(),
+        });
+      }
+    }
+  }
+
+  async function deliverDue(deliveries: Delivery[]) {
+    for (const delivery of deliveries) {
+      if (delivery.status !== 'pending' || delivery.nextAttemptAt > now()) continue;
+
+      const channel = channels.find((candidate) => candidate.name === delivery.channel);
+      if (!channel) {
+        delivery.status = 'failed';
+        delivery.attempts.push({ at: now(), ok: false, error: 'Channel is no longer configured' });
+        continue;
+      }
+
+      try {
+        await channel.send(delivery.alert);
+        delivery.status = 'delivered';
+        delivery.attempts.push({ at: now(), ok: true });
+        log.info('alert delivered', { mint: delivery.alert.mint, symbol: delivery.alert.symbol, channel: channel.name });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        delivery.attempts.push({ at: now(), ok: false, error: message });
+
+        if (delivery.attempts.length >= MAX_ATTEMPTS) {
+          delivery.status = 'failed';
+          log.error('alert delivery failed for good', {
+            mint: delivery.alert.mint,
+            channel: channel.name,
+            attempts: delivery.attempts.length,
+            error: message,
+          });
+        } else {
+          delivery.nextAttemptAt = now() + Math.min(RETRY_BASE * 2 ** (delivery.attempts.length - 1), RETRY_MAX);
+          log.warn('alert delivery failed, will retry', {
+            mint: delivery.alert.mint,
+            channel: channel.name,
+            attempts: delivery.attempts.length,
+            error: message,
+          });
+        }
+      }
+    }
+  }
+
+  // Keeps every pending delivery and the most recent finished ones
+  function prune(deliveries: Delivery[]): Delivery[] {
+    const finished = deliveries.filter((delivery) => delivery.status !== 'pending');
+    const dropped = new Set(finished.slice(0, Math.max(0, finished.length - KEEP_DELIVERIES)));
+    return deliveries.filter((delivery) => !dropped.has(delivery));
+  }
+
+  async function deliver(alerts: Alert[]) {
+    const deliveries = await store.loadDeliveries();
+    enqueue(deliveries, alerts);
+    await deliverDue(deliveries);
+    await store.saveDeliveries(prune(deliveries));
+  }
+
+  // Detects alerts in a scan result, then delivers them and any due retries
+  function handleScan(result: Pick<ScanResult, 'candidates' | 'ranked' | 'fallback' | 'criteria'>): Promise<Alert[]> {
+    return serial(async () => {
+      if (channels.length === 0) return [];
+
+      const detected = detectAlerts(result, await store.loadState(), options.thresholds, options.cooldown, now());
+      await store.saveState(detected.state);
+      await deliver(detected.alerts);
+
+      return detected.alerts;
+    });
+  }
+
+  // Sends an alert for `token` to every channel, bypassing the triggers
+  function sendTest(token: EnrichedToken): Promise<Alert> {
+    return serial(async () => {
+      const alert: Alert = {
+        id: `test-${token.mint}-${now()}`,
+        mint: token.mint,
+        symbol: token.symbol,
+        name: token.name,
+        createdAt: now(),
+        reasons: [{ trigger: 'test', key: 'test', message: 'Test alert' }],
+        token,
+      };
+      await deliver([alert]);
+      return alert;
+    });
+  }
+
+  // Newest first
+  async function recent(limit: number = 50): Promise<Delivery[]> {
+    const deliveries = await store.loadDeliveries();
+    return deliveries.slice(-limit).reverse();
+  }
+
+  return {
+    channels: channels.map((channel) => channel.name),
+    handleScan,
+    sendTest,
+    recent,
+  };
+}
+
+export type Alerter = ReturnType<typeof createAlerter>;
+
+function parseNumbers(value?: string): number[] {
+  return (value || '')
+    .split(',')
+    .map((part) => Number(part.trim()))
+    .filter((number) => Number.isFinite(number) && number > 0)
+    .sort((a, b) => a - b);
+}
+
+// Channels are enabled by setting their URL or credentials
+export function createChannels(env: Env = process.env): AlertChannel[] {
+  const options = { dashboardUrl: env.ALERT_DASHBOARD_URL };
+  const channels: AlertChannel[] = [];
+
+  if (env.ALERT_WEBHOOK_URL) {
+    channels.push(createWebhookChannel(env.ALERT_WEBHOOK_URL, options));
+  }
+  if (env.ALERT_DISCORD_WEBHOOK_URL) {
+    channels.push(createDiscordChannel(env.ALERT_DISCORD_WEBHOOK_URL, options));
+  }
+  if (env.ALERT_TELEGRAM_BOT_TOKEN && env.ALERT_TELEGRAM_CHAT_ID) {
+    channels.push(createTelegramChannel(env.ALERT_TELEGRAM_BOT_TOKEN, env.ALERT_TELEGRAM_CHAT_ID, {
+      ...options,
+      apiUrl: env.ALERT_TELEGRAM_API_URL,
+    }));
+  }
+
+  return channels;
+}
+
+export function createAlerterFromEnv(env: Env = process.env): Alerter {
+  return createAlerter({
+    channels: createChannels(env),
+    store: createFileAlertStore(path.join(DATA_DIR, 'alerts')),
+    thresholds: {
+      holders: parseNumbers(env.ALERT_HOLDER_THRESHOLDS),
+      marketCap: parseNumbers(env.ALERT_MARKET_CAP_THRESHOLDS),
+    },
+    cooldown: Number(env.ALERT_COOLDOWN_MS) || DEFAULT_COOLDOWN,
+  });
+}
+
+export function getAlerter(): Alerter {
+  return singleton('alerter', () => createAlerterFromEnv());
+}
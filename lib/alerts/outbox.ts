@@ -0,0 +1,28 @@
+import path from 'path';
+import { Delivery } from '@/lib/alerts/types';
+import { AlertState, emptyAlertState } from '@/lib/alerts/triggers';
+import { readJson, writeJson } from '@/lib/store';
+
+// Alert persistence
+//
+// Dedup state and every delivery with its attempts are kept as JSON files,
+// so restarts neither re-send old alerts nor drop pending retries.
+
+export interface AlertStore {
+  loadState(): Promise<AlertState>;
+  saveState(state: AlertState): Promise<void>;
+  loadDeliveries(): Promise<Delivery[]>;
+  saveDeliveries(deliveries: Delivery[]): Promise<void>;
+}
+
+export function createFileAlertStore(dir: string): AlertStore {
+  const stateFile = path.join(dir, 'state.json');
+  const deliveriesFile = path.join(dir, 'deliveries.json');
+
+  return {
+    loadState: () => readJson(stateFile, emptyAlertState()),
+    saveState: (state) => writeJson(stateFile, state),
+    loadDeliveries: () => readJson<Delivery[]>(deliveriesFile, []),
+    saveDeliveries: (deliveries) => writeJson(deliveriesFile, deliveries),
+  };
+}
@@ -0,0 +1,116 @@
+import { Alert, AlertReason } from '@/lib/alerts/types';
+import { ScanResult } from '@/lib/scan';
+import { criteriaRejections } from '@/lib/rules';
+import { formatUsd } from '@/lib/format';
+
+// Alert triggers
+//
+// Turns a scan result into alerts. Every reason has a dedup key that is
+// remembered once alerted, so a mint is only reported once for passing the
+// filters or crossing a threshold. A mint that leaves the top-N forgets its
+// top-N key and is reported again if it re-enters; a fallback ranking of
+// tokens that failed the filters counts as an empty top N. Alerts for a mint
+// are spaced by a cooldown; reasons held back by it are alerted once it
+// passes, if they still hold.
+
+// Ascending
+export interface AlertThresholds {
+  holders: number[];
+  marketCap: number[];
+}
+
+export interface AlertState {
+  // Dedup key -> when it was alerted
+  sent: Record<string, number>;
+  // Mint -> when it was last alerted
+  lastAlertAt: Record<string, number>;
+}
+
+// Keys are forgotten after this long, so state doesn't grow forever
+const STATE_RETENTION = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export function emptyAlertState(): AlertState {
+  return { sent: {}, lastAlertAt: {} };
+}
+
+export function detectAlerts(
+  result: Pick<ScanResult, 'candidates' | 'ranked' | 'fallback' | 'criteria'>,
+  state: AlertState,
+  thresholds: AlertThresholds,
+  cooldown: number,
+  now: number = Date.now()
+): { alerts: Alert[]; state: AlertState } {
+  const sent = { ...state.sent };
+  const lastAlertAt = { ...state.lastAlertAt };
+  const ranks = new Map(result.fallback ? [] : result.ranked.map((token) => [token.mint, token.rank]));
+  const alerts: Alert[] = [];
+
+  for (const [key, at] of Object.entries(sent)) {
+    const [trigger, mint] = key.split(':');
+    if (now - at > STATE_RETENTION || (trigger === 'top' && !ranks.has(mint))) {
+      delete sent[key];
+    }
+  }
+  for (const [mint, at] of Object.entries(lastAlertAt)) {
+    if (now - at > STATE_RETENTION) delete lastAlertAt[mint];
+  }
+
+  for (const token of result.candidates) {
+    const reasons: AlertReason[] = [];
+    const rank = ranks.get(token.mint);
+
+    if (criteriaRejections(token, result.criteria, now).length === 0) {
+      reasons.push({ trigger: 'passed-filters', key: `passed:${token.mint}`, message: 'Passed the active filters' });
+    }
+
+    if (rank !== undefined) {
+      reasons.push({
+        trigger: 'entered-top',
+        key: `top:${token.mint}`,
+        message: `Entered the top ${result.criteria.topN} at #${rank}`,
+      });
+    }
+
+    for (const threshold of thresholds.holders) {
+      if (token.holders >= threshold) {
+        reasons.push({ trigger: 'holders', key: `holders:${token.mint}:${threshold}`, message: `Reached ${threshold} holders` });
+      }
+    }
+
+    for (const threshold of thresholds.marketCap) {
+      if (token.marketCap >= threshold) {
+        reasons.push({
+          trigger: 'market-cap',
+          key: `marketCap:${token.mint}:${threshold}`,
+          message: `Market cap reached ${formatUsd(threshold)}`,
+        });
+      }
+    }
+
+    const fresh = reasons.filter((reason) => sent[reason.key] === undefined);
+    if (fresh.length === 0) continue;
+    if (lastAlertAt[token.mint] !== undefined && now - lastAlertAt[token.mint] < cooldown) continue;
+
+    for (const reason of fresh) {
+      sent[reason.key] = now;
+    }
+    lastAlertAt[token.mint] = now;
+
+    // Crossing several thresholds at once only reports the highest
+    const reported = fresh.filter((reason, i) =>
+      !fresh.slice(i + 1).some((later) => later.trigger === reason.trigger)
+    );
+
+    alerts.push({
+      id: `${token.mint}-${now}`,
+      mint: token.mint,
+      symbol: token.symbol,
+      name: token.name,
+      createdAt: now,
+      reasons: reported,
+      token: { ...token, rank },
+    });
+  }
+
+  return { alerts, state: { sent, lastAlertAt } };
+}
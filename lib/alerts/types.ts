@@ -0,0 +1,44 @@
+import { EnrichedToken } from '@/lib/enrich';
+
+// Alerting types
+
+export type AlertTrigger = 'passed-filters' | 'entered-top' | 'holders' | 'market-cap' | 'test';
+
+export interface AlertReason {
+  trigger: AlertTrigger;
+  // Dedup key: a reason is only alerted once while its key is remembered
+  key: string;
+  message: string;
+}
+
+export interface Alert {
+  id: string;
+  mint: string;
+  symbol: string;
+  name: string;
+  createdAt: number;
+  reasons: AlertReason[];
+  // Rank in the current selection, when ranked
+  token: EnrichedToken & { rank?: number };
+}
+
+// A delivery target. `send` throws when the target rejects the alert.
+export interface AlertChannel {
+  name: string;
+  send(alert: Alert): Promise<void>;
+}
+
+export interface DeliveryAttempt {
+  at: number;
+  ok: boolean;
+  error?: string;
+}
+
+export interface Delivery {
+  id: string;
+  channel: string;
+  alert: Alert;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: DeliveryAttempt[];
+  nextAttemptAt: number;
+}
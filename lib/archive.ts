@@ -0,0 +1,111 @@
+import { appendFile, mkdir, readdir, unlink } from 'fs/promises';
+import path from 'path';
+import { EnrichedToken } from '@/lib/enrich';
+import { DATA_DIR, dayFile, readNdjson } from '@/lib/store';
+import { singleton } from '@/lib/singleton';
+import { log } from '@/lib/log';
+
+// Scan archive
+//
+// The snapshot store keeps a few metrics per token; backtests need every
+// field a filter or ranking can use, as it was when the scan ran. A sample of
+// scans is kept whole (every enriched token, less provenance and the metadata
+// URI) in one NDJSON file per UTC day under DATA_DIR/scans. Scans closer
+// together than BACKTEST_ARCHIVE_INTERVAL_MS (default 5 minutes) are skipped,
+// and days older than BACKTEST_ARCHIVE_DAYS (default 14) are deleted.
+
+export interface ArchivedScan {
+  t: number;
+  tokens: EnrichedToken[];
+}
+
+export interface ScanArchiveStore {
+  append(scan: ArchivedScan): Promise<void>;
+  scan(from: number, to: number): AsyncIterable<ArchivedScan>;
+  // Deletes every scan before `before`, a whole day at a time
+  prune(before: number): Promise<void>;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const ARCHIVE_INTERVAL = Number(process.env.BACKTEST_ARCHIVE_INTERVAL_MS) || 5 * 60 * 1000;
+const ARCHIVE_DAYS = Number(process.env.BACKTEST_ARCHIVE_DAYS) || 14;
+
+export function createFileArchiveStore(dir: string): ScanArchiveStore {
+  return {
+    async append(scan) {
+      await mkdir(dir, { recursive: true });
+      await appendFile(dayFile(dir, scan.t), JSON.stringify(scan) + '\n');
+    },
+
+    // Oldest first, one day in memory at a time
+    async *scan(from, to) {
+      for (let day = Math.floor(from / DAY) * DAY; day <= to; day += DAY) {
+        yield* (await readNdjson<ArchivedScan>(dayFile(dir, day)))
+          .filter((scan) => scan.t >= from && scan.t <= to)
+          .sort((a, b) => a.t - b.t);
+      }
+    },
+
+    async prune(before) {
+      let files: string[];
+      try {
+        files = await readdir(dir);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+        throw error;
+      }
+
+      // File names sort by date, so compare them with the cutoff day's name
+      const cutoff = path.basename(dayFile(dir, before));
+      for (const file of files) {
+        if (file.endsWith('.ndjson') && file < cutoff) {
+          await unlink(path.join(dir, file));
+        }
+      }
+    },
+  };
+}
+
+export function createScanArchive(
+  store: ScanArchiveStore,
+  interval: number = ARCHIVE_INTERVAL,
+  retentionDays: number = ARCHIVE_DAYS
+) {
+  let lastArchived = 0;
+  let lastPruned = 0;
+
+  // Archives the scan unless one was archived less than `interval` ago
+  async function record(tokens: EnrichedToken[], now: number = Date.now()) {
+    if (now - lastArchived < interval) return;
+    lastArchived = now;
+
+    await store.append({
+      t: now,
+      tokens: tokens.map(({ provenance, uri, ...token }) => token as EnrichedToken),
+    });
+
+    if (now - lastPruned >= DAY) {
+      lastPruned = now;
+      await store.prune(now - retentionDays * DAY).catch((error) => {
+        log.warn('error pruning scan archive', { error });
+      });
+    }
+  }
+
+  // Archived scans between `from` and `to`, oldest first
+  function scans(from: number, to: number): AsyncIterable<ArchivedScan> {
+    return store.scan(from, to);
+  }
+
+  return {
+    record,
+    scans,
+  };
+}
+
+export type ScanArchive = ReturnType<typeof createScanArchive>;
+
+export const scanArchive = singleton('scanArchive', () =>
+  createScanArchive(createFileArchiveStore(path.join(DATA_DIR, 'scans')))
+);
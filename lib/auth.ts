@@ -0,0 +1,277 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { RateLimit, RateLimitResult, takeToken } from '@/lib/ratelimit';
+import { createCounter } from '@/lib/metrics';
+import { log } from '@/lib/log';
+import { singleton } from '@/lib/singleton';
+
+// API access
+//
+// Every JSON API route calls `authorize` first. Callers are identified by an
+// API key (`Authorization: Bearer <key>` or `X-API-Key`), by the dashboard's
+// same-origin session cookie, or else by IP address, and rate limited under
+// the tier that identity maps to: per key, per session or per IP. Keys and
+// their tiers come from API_KEYS ("key:tier,key:tier"). With
+// API_REQUIRE_KEY=true, callers with neither a key nor a session get a 401.
+//
+// The session cookie only keeps other sites from using a visitor's browser
+// against the API; any client can ask for one the way the dashboard does. It
+// is not authentication, so sessions get anonymous limits and no permissions.
+
+export type Tier = 'anonymous' | 'session' | 'standard' | 'privileged';
+
+// Actions beyond reading cached data
+export type Permission = 'refresh' | 'watchlist' | 'lists' | 'alerts';
+
+interface TierPolicy extends RateLimit {
+  permissions: Permission[];
+}
+
+// Requests per minute can be overridden per tier, e.g. RATE_LIMIT_ANONYMOUS=60
+const TIERS: Record<Tier, TierPolicy> = {
+  anonymous: { requestsPerMinute: 30, burst: 10, permissions: [] },
+  session: { requestsPerMinute: 30, burst: 10, permissions: [] },
+  standard: { requestsPerMinute: 300, burst: 60, permissions: ['watchlist'] },
+  privileged: { requestsPerMinute: 1200, burst: 200, permissions: ['refresh', 'watchlist', 'lists', 'alerts'] },
+};
+
+// On-demand lookups (enriching a mint the last scan didn't cover) cost dozens
+// of upstream requests each, so they get a much smaller budget per caller on
+// top of the tier's request limit
+const LOOKUP_LIMITS: Record<Tier, RateLimit> = {
+  anonymous: { requestsPerMinute: 2, burst: 2 },
+  session: { requestsPerMinute: 2, burst: 2 },
+  standard: { requestsPerMinute: 20, burst: 5 },
+  privileged: { requestsPerMinute: 120, burst: 20 },
+};
+
+// Without a platform-supplied IP or TRUSTED_PROXIES, a caller's address may be
+// forged, so those callers are also limited together, at this multiple of
+// their tier's limits
+const UNVERIFIED_MULTIPLE = 10;
+
+// Tiers an API key can be given
+const KEY_TIERS: Tier[] = ['standard', 'privileged'];
+
+export const SESSION_COOKIE = 'hunter_session';
+export const SESSION_TTL = 12 * 60 * 60 * 1000; // 12 hours
+
+export interface ApiClient {
+  tier: Tier;
+  // Rate-limit bucket: the key's label, the session or the caller's IP
+  id: string;
+  // The IP in `id` may be forged; see UNVERIFIED_MULTIPLE
+  unverified?: boolean;
+}
+
+export type Access =
+  | { ok: true; client: ApiClient }
+  | { ok: false; response: NextResponse };
+
+export interface AuthorizeOptions {
+  permission?: Permission;
+  // Let callers without a key through even when API_REQUIRE_KEY is set
+  allowAnonymous?: boolean;
+}
+
+const requestsTotal = createCounter(
+  'deployer_hunter_api_requests_total',
+  'API requests by caller tier and outcome (allowed, unauthorized, forbidden, rate_limited)'
+);
+
+function policy(tier: Tier): TierPolicy {
+  const override = Number(process.env[`RATE_LIMIT_${tier.toUpperCase()}`]);
+  if (!(override > 0)) return TIERS[tier];
+  return { ...TIERS[tier], requestsPerMinute: override, burst: Math.min(TIERS[tier].burst, override) };
+}
+
+// API_KEYS="alice-1f9c...:standard,ops-77ab...:privileged"; a key without a
+// tier is standard
+function configuredKeys(): Map<string, Tier> {
+  const keys = new Map<string, Tier>();
+
+  for (const entry of (process.env.API_KEYS || '').split(',')) {
+    const [key, tier = 'standard'] = entry.trim().split(':');
+    if (!key) continue;
+
+    if (!KEY_TIERS.includes(tier as Tier)) {
+      log.warn('ignoring API key with unknown tier', { tier });
+      continue;
+    }
+    keys.set(key, tier as Tier);
+  }
+
+  return keys;
+}
+
+function requestKey(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  if (header?.toLowerCase().startsWith('bearer ')) {
+    return header.slice(7).trim();
+  }
+  return request.headers.get('x-api-key');
+}
+
+// Reverse proxies allowed to report the client address, from TRUSTED_PROXIES
+// ("10.0.0.2,10.0.0.3"). Set it only when the app can't be reached except
+// through them; otherwise forwarding headers are ignored, since any caller can
+// send them.
+function trustedProxies(): Set<string> | null {
+  const proxies = (process.env.TRUSTED_PROXIES || '').split(',').map((proxy) => proxy.trim()).filter(Boolean);
+  return proxies.length > 0 ? new Set(proxies) : null;
+}
+
+// Whether `clientIp` comes from the platform or from our own proxies
+function verifiedIp(request: NextRequest): boolean {
+  return !!request.ip || trustedProxies() !== null;
+}
+
+export function clientIp(request: NextRequest): string {
+  // Set by the platform (e.g. Vercel), so it can be trusted as is
+  if (request.ip) return request.ip;
+
+  const hops = (request.headers.get('x-forwarded-for') || '').split(',').map((hop) => hop.trim()).filter(Boolean);
+
+  // Next's own server sets X-Forwarded-For to the socket address, but only
+  // when the request doesn't carry one already, so this may be forged
+  const proxies = trustedProxies();
+  if (!proxies) return hops[hops.length - 1] || 'unknown';
+
+  // Each proxy appends the address it got the request from, so the right-most
+  // hop that isn't one of ours is the client; anything left of it is whatever
+  // the client sent
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!proxies.has(hops[i])) return hops[i];
+  }
+
+  return hops[0] || request.headers.get('x-real-ip') || 'unknown';
+}
+
+// Sessions
+
+// SESSION_SECRET must be set when more than one instance serves the API;
+// otherwise each process signs with its own random secret
+function sessionSecret(): string {
+  return process.env.SESSION_SECRET || singleton('auth.sessionSecret', () => randomBytes(32).toString('hex'));
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', sessionSecret()).update(payload).digest('base64url');
+}
+
+// `<expiresAt>.<nonce>.<signature>`
+export function createSession(now: number = Date.now()): { value: string; expiresAt: number } {
+  const expiresAt = now + SESSION_TTL;
+  const payload = `${expiresAt}.${randomBytes(12).toString('base64url')}`;
+  return { value: `${payload}.${sign(payload)}`, expiresAt };
+}
+
+export function verifySession(value: string | undefined, now: number = Date.now()): boolean {
+  if (!value) return false;
+
+  const index = value.lastIndexOf('.');
+  if (index < 0) return false;
+
+  const payload = value.slice(0, index);
+  const signature = Buffer.from(value.slice(index + 1));
+  const expected = Buffer.from(sign(payload));
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+    return false;
+  }
+
+  return Number(payload.split('.')[0]) > now;
+}
+
+// The session's nonce; only call it on a verified session
+function sessionId(value: string): string {
+  return value.split('.')[1];
+}
+
+// Browsers send Sec-Fetch-Site; older ones at least send Origin on POST
+export function isSameOrigin(request: NextRequest): boolean {
+  const site = request.headers.get('sec-fetch-site');
+  if (site) return site === 'same-origin';
+
+  const origin = request.headers.get('origin');
+  return origin !== null && origin === request.nextUrl.origin;
+}
+
+function deny(status: number, error: string, message: string, headers?: Record<string, string>): NextResponse {
+  return NextResponse.json({ success: false, error, message }, { status, headers });
+}
+
+export function authorize(request: NextRequest, options: AuthorizeOptions = {}): Access {
+  let client: ApiClient;
+  const key = requestKey(request);
+  const session = request.cookies.get(SESSION_COOKIE)?.value;
+
+  if (key) {
+    const tier = configuredKeys().get(key);
+    if (!tier) {
+      requestsTotal.inc({ tier: 'anonymous', outcome: 'unauthorized' });
+      return { ok: false, response: deny(401, 'Unauthorized', 'Invalid API key') };
+    }
+    // Never put the key itself in labels or logs
+    client = { tier, id: `key:${createHmac('sha256', 'api-key').update(key).digest('hex').slice(0, 12)}` };
+  } else if (session && verifySession(session)) {
+    client = { tier: 'session', id: `session:${sessionId(session)}` };
+  } else {
+    client = { tier: 'anonymous', id: `ip:${clientIp(request)}`, unverified: !verifiedIp(request) || undefined };
+
+    if (process.env.API_REQUIRE_KEY === 'true' && !options.allowAnonymous) {
+      requestsTotal.inc({ tier: client.tier, outcome: 'unauthorized' });
+      return { ok: false, response: deny(401, 'Unauthorized', 'An API key is required') };
+    }
+  }
+
+  const tierPolicy = policy(client.tier);
+
+  if (options.permission && !tierPolicy.permissions.includes(options.permission)) {
+    requestsTotal.inc({ tier: client.tier, outcome: 'forbidden' });
+    return {
+      ok: false,
+      response: deny(403, 'Forbidden', `${options.permission} is not allowed for ${client.tier} callers`),
+    };
+  }
+
+  const limit = takeLimits(client, '', tierPolicy);
+  if (!limit.allowed) {
+    return rateLimited(client, limit, 'requests');
+  }
+
+  requestsTotal.inc({ tier: client.tier, outcome: 'allowed' });
+  return { ok: true, client };
+}
+
+// Call once `authorize` has let the client through and the request is about
+// to enrich a mint on demand
+export function authorizeLookup(client: ApiClient): Access {
+  const limit = takeLimits(client, 'lookup:', LOOKUP_LIMITS[client.tier]);
+  return limit.allowed ? { ok: true, client } : rateLimited(client, limit, 'lookups');
+}
+
+// The client's own bucket, then for unverified callers the one they share
+function takeLimits(client: ApiClient, prefix: string, limit: RateLimit): RateLimitResult {
+  const own = takeToken(`${prefix}${client.tier}:${client.id}`, limit);
+  if (!own.allowed || !client.unverified) return own;
+
+  return takeToken(`${prefix}${client.tier}:unverified`, {
+    requestsPerMinute: limit.requestsPerMinute * UNVERIFIED_MULTIPLE,
+    burst: limit.burst * UNVERIFIED_MULTIPLE,
+  });
+}
+
+function rateLimited(client: ApiClient, limit: RateLimitResult, what: string): Access {
+  requestsTotal.inc({ tier: client.tier, outcome: 'rate_limited' });
+  log.debug('rate limited', { tier: client.tier, client: client.id, what, retryAfter: limit.retryAfter });
+
+  return {
+    ok: false,
+    response: deny(429, 'Too Many Requests', `Rate limit of ${limit.limit} ${what} per minute exceeded`, {
+      'Retry-After': String(limit.retryAfter),
+      'RateLimit-Limit': String(limit.limit),
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': String(limit.retryAfter),
+    }),
+  };
+}
@@ -0,0 +1,170 @@
+import { BacktestOptions, BacktestReport, BacktestRun, BacktestSelection, BacktestSummary, TokenData } from '@/lib/types';
+import { ScanArchive, scanArchive } from '@/lib/archive';
+import { History, tokenHistory } from '@/lib/history';
+import { DeployerIndex, deployerIndex } from '@/lib/deployers';
+import { Criteria, applyCriteria, describeCriteria } from '@/lib/rules';
+import { SnapshotRow } from '@/lib/store';
+import { singleton } from '@/lib/singleton';
+
+// Backtesting
+//
+// Replays archived scans through candidate criteria and follows up on what
+// each selection did next, using the snapshot history recorded after it:
+// whether it graduated, its peak market cap and worst drawdown, and its
+// holder count `horizon` after it was selected. A token counts once per
+// criteria, from the first scan that selected it, so a long-running winner
+// isn't counted once per scan.
+
+export interface BacktestCandidate {
+  label: string;
+  criteria: Criteria;
+}
+
+export interface BacktestSources {
+  archive: ScanArchive;
+  history: History;
+  deployers: DeployerIndex;
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+const percent = (count: number, total: number) => (total > 0 ? (count / total) * 100 : undefined);
+
+// A token one criteria picked, with its outcome so far
+interface FollowUp {
+  token: Pick<TokenData, 'mint' | 'symbol' | 'deployer' | 'rank' | 'marketCap' | 'holders'>;
+  selectedAt: number;
+  peak: number;
+  maxDrawdown: number;
+  // The last history row within the horizon
+  last?: SnapshotRow;
+}
+
+function followUp({ mint, symbol, deployer, rank, marketCap, holders }: TokenData, selectedAt: number): FollowUp {
+  return { token: { mint, symbol, deployer, rank, marketCap, holders }, selectedAt, peak: marketCap, maxDrawdown: 0 };
+}
+
+export function summarize(selections: BacktestSelection[]): BacktestSummary {
+  const complete = selections.filter((selection) => selection.complete);
+  const graduated = complete.filter((selection) => selection.graduated).length;
+  const hits = complete.filter((selection) => selection.hit).length;
+
+  return {
+    selections: selections.length,
+    pending: selections.length - complete.length,
+    graduated,
+    graduationRate: percent(graduated, complete.length),
+    hits,
+    hitRate: percent(hits, complete.length),
+    averagePeakMultiple: average(
+      complete.map((selection) => selection.peakMultiple).filter((value): value is number => value !== undefined)
+    ),
+    medianMaxDrawdown: median(complete.map((selection) => selection.maxDrawdown)),
+    averageHolderChange: average(
+      complete.map((selection) => selection.holderChange).filter((value): value is number => value !== undefined)
+    ),
+  };
+}
+
+export function createBacktester(sources: BacktestSources) {
+  function graduatedBy(token: { mint: string; deployer: string }, end: number, archived: Map<string, number>): boolean {
+    if ((archived.get(token.mint) ?? Infinity) <= end) return true;
+
+    // The deployer index knows migrations between archived scans, and older ones
+    const launch = sources.deployers.getLaunches(token.deployer).find((entry) => entry.mint === token.mint);
+    return !!launch?.graduated && launch.graduatedAt !== undefined && launch.graduatedAt <= end;
+  }
+
+  // Reads the archive and the history one day at a time, so only the picks
+  // and their running outcomes are held in memory
+  async function run(candidates: BacktestCandidate[], options: BacktestOptions, now: number = Date.now()): Promise<BacktestReport> {
+    const { from, to, horizon, hitMultiple } = options;
+    const end = Math.min(to + horizon, now);
+
+    // Each criteria's picks by mint, and the first time each mint was seen
+    // graduated in the archive
+    const picks = candidates.map(() => new Map<string, FollowUp>());
+    const graduations = new Map<string, number>();
+    let scans = 0;
+
+    for await (const scan of sources.archive.scans(from, end)) {
+      for (const token of scan.tokens) {
+        if (token.isGraduated && !graduations.has(token.mint)) graduations.set(token.mint, scan.t);
+      }
+      if (scan.t > to) continue;
+      scans++;
+
+      candidates.forEach(({ criteria }, i) => {
+        for (const token of applyCriteria(scan.tokens, criteria, scan.t).tokens) {
+          if (!picks[i].has(token.mint)) picks[i].set(token.mint, followUp(token, scan.t));
+        }
+      });
+    }
+
+    const byMint = new Map<string, FollowUp[]>();
+    for (const pick of picks.flatMap((mints) => Array.from(mints.values()))) {
+      const followUps = byMint.get(pick.token.mint);
+      if (followUps) followUps.push(pick);
+      else byMint.set(pick.token.mint, [pick]);
+    }
+
+    // Oldest first, so peaks and drawdowns can be kept as running values
+    for await (const row of sources.history.stream(null, from, end)) {
+      for (const pick of byMint.get(row.mint) || []) {
+        if (row.t <= pick.selectedAt || row.t > pick.selectedAt + horizon) continue;
+
+        pick.peak = Math.max(pick.peak, row.marketCap);
+        if (pick.peak > 0) pick.maxDrawdown = Math.max(pick.maxDrawdown, ((pick.peak - row.marketCap) / pick.peak) * 100);
+        pick.last = row;
+      }
+    }
+
+    function outcome({ token, selectedAt, peak, maxDrawdown, last }: FollowUp): BacktestSelection {
+      const until = selectedAt + horizon;
+      const peakMultiple = token.marketCap > 0 ? peak / token.marketCap : undefined;
+
+      return {
+        mint: token.mint,
+        symbol: token.symbol,
+        deployer: token.deployer,
+        selectedAt,
+        rank: token.rank,
+        marketCap: token.marketCap,
+        holders: token.holders,
+        graduated: graduatedBy(token, until, graduations),
+        peakMarketCap: peak,
+        peakMultiple,
+        maxDrawdown,
+        holdersAfter: last?.holders,
+        holderChange: last ? last.holders - token.holders : undefined,
+        hit: peakMultiple !== undefined && peakMultiple >= hitMultiple,
+        complete: until <= now,
+      };
+    }
+
+    const runs = candidates.map(({ label, criteria }, i): BacktestRun => {
+      const selections = Array.from(picks[i].values()).map(outcome);
+      return { label, description: describeCriteria(criteria), summary: summarize(selections), selections };
+    });
+
+    return { ...options, scans, runs };
+  }
+
+  return {
+    run,
+  };
+}
+
+export type Backtester = ReturnType<typeof createBacktester>;
+
+export const backtester = singleton('backtester', () =>
+  createBacktester({ archive: scanArchive, history: tokenHistory, deployers: deployerIndex })
+);
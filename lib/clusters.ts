@@ -0,0 +1,292 @@
+import { ClusterLink, ClusterSummary, DeployerCluster } from '@/lib/types';
+import { DeployerIndex, deployerIndex } from '@/lib/deployers';
+import { ChainProvider, ParsedTransaction, getProviders } from '@/lib/providers';
+import { RiskAnalyzer, riskAnalyzer } from '@/lib/risk';
+import { fetchEarliestSignatures } from '@/lib/signatures';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { singleton } from '@/lib/singleton';
+import { log } from '@/lib/log';
+
+// Deployer clusters
+//
+// A serial rugger can start every launch from a fresh wallet, which resets
+// the per-address DeployerStats. Clusters group deployer addresses that are
+// probably one operator, linked by any of:
+//   funder    the same wallet sent each of them their first SOL
+//   transfer  one sent the other SOL in its first transactions
+//   metadata  they launched tokens with the same name and symbol
+// Bonding rate and rug history are then totalled over the whole cluster.
+// Copied tickers are common on pump.fun, so a metadata link is the weaker
+// evidence: it's dropped once a name and symbol has several deployers, and it
+// never carries a blocklist entry to other wallets (see linkedByFunds).
+
+export interface ClusterIndexSources {
+  chain: ChainProvider;
+  deployers: DeployerIndex;
+  risk: RiskAnalyzer;
+}
+
+interface ClusterToken {
+  mint: string;
+  name: string;
+  symbol: string;
+  deployer: string;
+}
+
+// SOL moved to and from a deployer in its first transactions
+interface WalletTransfers {
+  received: string[];
+  sent: string[];
+}
+
+// How many of a deployer's first transactions are searched for transfers
+const TRANSFER_TX_LIMIT = 5;
+// A funder of this many deployers is taken for an exchange or faucet hot
+// wallet rather than one operator, and links nothing
+const HUB_FUNDER_DEPLOYERS = 20;
+// A name and symbol launched by this many deployers is a copied ticker rather
+// than one operator reusing it, and links nothing
+const COPYCAT_METADATA_DEPLOYERS = 3;
+// Bounds on what's kept in memory; the oldest entries are dropped first
+const MAX_TRACKED_DEPLOYERS = 5000;
+const MAX_TRACKED_METADATA = 5000;
+const CONCURRENCY = 4;
+// Names the feed and lookups use when metadata is missing
+const PLACEHOLDER_NAMES = new Set(['', 'unknown']);
+
+// The system-program SOL transfers into and out of `address` in `txs`
+export function parseTransfers(txs: (ParsedTransaction | null)[], address: string): WalletTransfers {
+  const received = new Set<string>();
+  const sent = new Set<string>();
+
+  for (const tx of txs) {
+    if (!tx || tx.meta?.err) continue;
+
+    const instructions = [
+      ...(tx.transaction?.message?.instructions || []),
+      ...(tx.meta?.innerInstructions || []).flatMap((inner) => inner.instructions || []),
+    ];
+
+    for (const ix of instructions) {
+      if (ix?.program !== 'system' || ix.parsed?.type !== 'transfer') continue;
+
+      const { source, destination } = ix.parsed.info || {};
+      if (destination === address && source && source !== address) received.add(source);
+      if (source === address && destination && destination !== address) sent.add(destination);
+    }
+  }
+
+  return { received: Array.from(received), sent: Array.from(sent) };
+}
+
+const metadataKey = (token: { name: string; symbol: string }) =>
+  `${token.name.trim().toLowerCase()}\u0000${token.symbol.trim().toLowerCase()}`;
+
+export function createClusterIndex(sources: ClusterIndexSources) {
+  const transfers = new Map<string, WalletTransfers>();
+  const pending = new Map<string, Promise<void>>();
+  // Deployers per name and symbol pair, with one launch each as the example
+  const launchesByMetadata = new Map<string, Map<string, ClusterToken>>();
+
+  async function fetchTransfers(deployer: string) {
+    const signatures = await fetchEarliestSignatures(sources.chain, deployer, TRANSFER_TX_LIMIT);
+    const txs = await Promise.all(
+      signatures.filter((s) => !s.err).map((signature) => sources.chain.fetchTransaction(signature.signature))
+    );
+    if (transfers.size >= MAX_TRACKED_DEPLOYERS) {
+      transfers.delete(transfers.keys().next().value as string);
+    }
+    transfers.set(deployer, parseTransfers(txs, deployer));
+  }
+
+  // Transfers are looked up once per deployer: a wallet's first
+  // transactions never change
+  function loadTransfers(deployer: string): Promise<void> {
+    if (transfers.has(deployer)) return Promise.resolve();
+
+    let lookup = pending.get(deployer);
+    if (!lookup) {
+      lookup = fetchTransfers(deployer)
+        .catch((error) => {
+          log.warn('error fetching deployer transfers', { deployer, error });
+        })
+        .finally(() => {
+          pending.delete(deployer);
+        });
+      pending.set(deployer, lookup);
+    }
+    return lookup;
+  }
+
+  // Records the tokens' metadata and looks up their deployers' transfers
+  async function observe(tokens: ClusterToken[]) {
+    const deployers = new Set<string>();
+
+    for (const token of tokens) {
+      if (!token.deployer || token.deployer === 'unknown') continue;
+      deployers.add(token.deployer);
+
+      if (PLACEHOLDER_NAMES.has(token.name.trim().toLowerCase())) continue;
+      const key = metadataKey(token);
+      let launches = launchesByMetadata.get(key);
+      if (!launches) {
+        if (launchesByMetadata.size >= MAX_TRACKED_METADATA) {
+          launchesByMetadata.delete(launchesByMetadata.keys().next().value as string);
+        }
+        launches = new Map<string, ClusterToken>();
+        launchesByMetadata.set(key, launches);
+      }
+      // Past the cap the ticker links nothing, so more deployers don't matter
+      if (launches.size < COPYCAT_METADATA_DEPLOYERS && !launches.has(token.deployer)) {
+        launches.set(token.deployer, token);
+      }
+    }
+
+    await mapWithConcurrency(Array.from(deployers), CONCURRENCY, loadTransfers);
+  }
+
+  // Whether the deployer's transfers have been looked up
+  function has(deployer: string): boolean {
+    return transfers.has(deployer);
+  }
+
+  // Adds one deployer outside a scan, with whatever launches are known for it
+  async function observeDeployer(deployer: string) {
+    const launches = sources.deployers.getLaunches(deployer);
+    await observe(launches.map((launch) => ({ mint: launch.mint, name: launch.name || '', symbol: launch.symbol || '', deployer })));
+    await loadTransfers(deployer);
+  }
+
+  // Every link between known deployers. `ignored` addresses (the allowlist)
+  // never link wallets, so a trusted funder doesn't merge its customers.
+  function links(ignored: Set<string>): ClusterLink[] {
+    const found: ClusterLink[] = [];
+    const funded = new Map<string, string[]>();
+
+    transfers.forEach(({ received, sent }, deployer) => {
+      for (const source of received) {
+        if (ignored.has(source)) continue;
+        if (transfers.has(source)) {
+          found.push({ from: source, to: deployer, reason: 'transfer', via: source });
+        } else {
+          const deployers = funded.get(source);
+          if (deployers) deployers.push(deployer);
+          else funded.set(source, [deployer]);
+        }
+      }
+      // Only recorded from the sender's side when the receiver's own
+      // first transactions don't show it
+      for (const destination of sent) {
+        if (ignored.has(destination) || !transfers.has(destination)) continue;
+        if (!transfers.get(destination)!.received.includes(deployer)) {
+          found.push({ from: deployer, to: destination, reason: 'transfer', via: deployer });
+        }
+      }
+    });
+
+    funded.forEach((deployers, funder) => {
+      if (deployers.length < 2 || deployers.length >= HUB_FUNDER_DEPLOYERS) return;
+      for (const deployer of deployers.slice(1)) {
+        found.push({ from: deployers[0], to: deployer, reason: 'funder', via: funder });
+      }
+    });
+
+    launchesByMetadata.forEach((launches) => {
+      if (launches.size >= COPYCAT_METADATA_DEPLOYERS) return;
+      const [first, ...rest] = Array.from(launches.values());
+      for (const launch of rest) {
+        found.push({ from: first.deployer, to: launch.deployer, reason: 'metadata', via: `${first.name} (${first.symbol})` });
+      }
+    });
+
+    return found;
+  }
+
+  function stats(members: string[]): Pick<DeployerCluster, 'totalTokens' | 'bondedTokens' | 'bondingRate' | 'rugs'> {
+    const launches = members.flatMap((member) => sources.deployers.getLaunches(member));
+    const bondedTokens = launches.filter((launch) => launch.graduated).length;
+
+    return {
+      totalTokens: launches.length,
+      bondedTokens,
+      bondingRate: launches.length > 0 ? (bondedTokens / launches.length) * 100 : 0,
+      rugs: sources.risk.rugsBy(members),
+    };
+  }
+
+  // Groups every known deployer; returns each deployer's cluster, including
+  // single-member ones
+  function build(ignored: Set<string> = new Set()): Map<string, DeployerCluster> {
+    const parent = new Map<string, string>();
+    const find = (address: string): string => {
+      let root = address;
+      while (parent.get(root) !== root) root = parent.get(root)!;
+      parent.set(address, root);
+      return root;
+    };
+
+    const all = new Set<string>(transfers.keys());
+    launchesByMetadata.forEach((launches) => launches.forEach((_, deployer) => all.add(deployer)));
+    all.forEach((address) => parent.set(address, address));
+
+    const found = links(ignored);
+    for (const link of found) {
+      const [a, b] = [find(link.from), find(link.to)];
+      // The smaller address is the root, so IDs don't depend on link order
+      if (a !== b) parent.set(a < b ? b : a, a < b ? a : b);
+    }
+
+    const groups = new Map<string, string[]>();
+    all.forEach((address) => {
+      const root = find(address);
+      const group = groups.get(root);
+      if (group) group.push(address);
+      else groups.set(root, [address]);
+    });
+
+    const clusters = new Map<string, DeployerCluster>();
+    groups.forEach((members, id) => {
+      const memberSet = new Set(members);
+      const cluster: DeployerCluster = {
+        id,
+        members: members.sort(),
+        links: found.filter((link) => memberSet.has(link.from)),
+        ...stats(members),
+      };
+      members.forEach((member) => clusters.set(member, cluster));
+    });
+
+    return clusters;
+  }
+
+  return {
+    observe,
+    observeDeployer,
+    has,
+    build,
+  };
+}
+
+export type ClusterIndex = ReturnType<typeof createClusterIndex>;
+
+// Each cluster once, largest first, leaving out single wallets
+export function multiWalletClusters(clusters: Map<string, DeployerCluster>): DeployerCluster[] {
+  return Array.from(new Set(clusters.values()))
+    .filter((cluster) => cluster.members.length > 1)
+    .sort((a, b) => b.members.length - a.members.length || a.id.localeCompare(b.id));
+}
+
+export function summarizeCluster(cluster: DeployerCluster): ClusterSummary {
+  return {
+    id: cluster.id,
+    size: cluster.members.length,
+    totalTokens: cluster.totalTokens,
+    bondedTokens: cluster.bondedTokens,
+    bondingRate: cluster.bondingRate,
+    rugs: cluster.rugs.length,
+  };
+}
+
+export const clusterIndex = singleton('clusterIndex', () =>
+  createClusterIndex({ chain: getProviders().chain, deployers: deployerIndex, risk: riskAnalyzer })
+);
@@ -0,0 +1,108 @@
+import { ChainProvider } from '@/lib/providers';
+import { LAMPORTS_PER_SOL, PUMP_FUN_PROGRAM_ID, decodeBase58, encodeBase58, findProgramAddress } from '@/lib/solana';
+
+// pump.fun bonding curve
+//
+// Every pump.fun token trades against a bonding curve account until it
+// graduates to an AMM, usually long before DexScreener lists it. The curve's
+// reserves give the price, market cap and how far along graduation is.
+//
+// Account layout (little-endian):
+//   0   discriminator           8 bytes
+//   8   virtualTokenReserves    u64
+//   16  virtualSolReserves      u64 (lamports)
+//   24  realTokenReserves       u64
+//   32  realSolReserves         u64 (lamports)
+//   40  tokenTotalSupply        u64
+//   48  complete                bool
+//   49  creator                 32 bytes (curves created since the creator-fee upgrade)
+
+export const BONDING_CURVE_DISCRIMINATOR = Uint8Array.from([23, 183, 248, 55, 96, 216, 172, 96]);
+
+const CURVE_ACCOUNT_MIN_SIZE = 49;
+const CREATOR_OFFSET = 49;
+
+// pump.fun tokens all have 6 decimals
+const TOKEN_DECIMALS = 6;
+
+// Real token reserves at launch; the curve completes once they're sold
+export const INITIAL_REAL_TOKEN_RESERVES = 793_100_000;
+
+export interface BondingCurveState {
+  // Token amounts in UI units, SOL amounts in SOL
+  virtualTokenReserves: number;
+  virtualSolReserves: number;
+  realTokenReserves: number;
+  realSolReserves: number;
+  tokenTotalSupply: number;
+  complete: boolean;
+  creator?: string;
+}
+
+export interface BondingCurveMetrics {
+  priceSol: number;
+  marketCapSol: number;
+  // Only when a SOL price is known
+  priceUsd?: number;
+  marketCapUsd?: number;
+  // 0 at launch to 100 at graduation
+  progress: number;
+}
+
+export function bondingCurveAddress(tokenMint: string): string {
+  const mint = decodeBase58(tokenMint);
+  if (mint.length !== 32) {
+    throw new Error(`${tokenMint} is not a valid address`);
+  }
+
+  const [address] = findProgramAddress([Buffer.from('bonding-curve'), mint], PUMP_FUN_PROGRAM_ID);
+  return address;
+}
+
+export function decodeBondingCurve(data: Uint8Array): BondingCurveState {
+  const buffer = Buffer.from(data);
+
+  if (buffer.length < CURVE_ACCOUNT_MIN_SIZE) {
+    throw new Error(`Bonding curve account is ${buffer.length} bytes, expected at least ${CURVE_ACCOUNT_MIN_SIZE}`);
+  }
+  if (!buffer.subarray(0, 8).equals(BONDING_CURVE_DISCRIMINATOR)) {
+    throw new Error('Not a pump.fun bonding curve account');
+  }
+
+  const tokens = (offset: number) => Number(buffer.readBigUInt64LE(offset)) / 10 ** TOKEN_DECIMALS;
+  const sol = (offset: number) => Number(buffer.readBigUInt64LE(offset)) / LAMPORTS_PER_SOL;
+
+  return {
+    virtualTokenReserves: tokens(8),
+    virtualSolReserves: sol(16),
+    realTokenReserves: tokens(24),
+    realSolReserves: sol(32),
+    tokenTotalSupply: tokens(40),
+    complete: buffer[48] === 1,
+    creator: buffer.length >= CREATOR_OFFSET + 32
+      ? encodeBase58(buffer.subarray(CREATOR_OFFSET, CREATOR_OFFSET + 32))
+      : undefined,
+  };
+}
+
+export function curveMetrics(state: BondingCurveState, solPriceUsd?: number): BondingCurveMetrics {
+  // The curve prices tokens at the ratio of its virtual reserves
+  const priceSol = state.virtualTokenReserves > 0 ? state.virtualSolReserves / state.virtualTokenReserves : 0;
+  const marketCapSol = priceSol * state.tokenTotalSupply;
+  const sold = INITIAL_REAL_TOKEN_RESERVES - state.realTokenReserves;
+  const progress = state.complete ? 100 : Math.min(100, Math.max(0, (sold / INITIAL_REAL_TOKEN_RESERVES) * 100));
+
+  return {
+    priceSol,
+    marketCapSol,
+    priceUsd: solPriceUsd !== undefined ? priceSol * solPriceUsd : undefined,
+    marketCapUsd: solPriceUsd !== undefined ? marketCapSol * solPriceUsd : undefined,
+    progress,
+  };
+}
+
+// null when the token has no curve, i.e. wasn't launched on pump.fun
+export async function fetchBondingCurve(chain: ChainProvider, tokenMint: string): Promise<BondingCurveState | null> {
+  const data = await chain.fetchAccountData(bondingCurveAddress(tokenMint));
+  return data ? decodeBondingCurve(Buffer.from(data, 'base64')) : null;
+}
@@ -0,0 +1,277 @@
+import { DeployerLaunch, DeployerStats } from '@/lib/types';
+import { PUMP_FUN_PROGRAM_ID } from '@/lib/solana';
+import { hasMigratedPair, migrationTime } from '@/lib/dexscreener';
+import { summarizePairs } from '@/lib/market';
+import { ChainProvider, MarketDataProvider, ParsedTransaction, SignatureInfo, getProviders } from '@/lib/providers';
+import { singleton } from '@/lib/singleton';
+import { log } from '@/lib/log';
+
+// Deployer history index
+//
+// Records every token a creator has launched (seen in the backend feed or
+// found in the creator's signature history) and works out which of them
+// graduated off the pump.fun bonding curve.
+
+const STATS_TTL = 30 * 60 * 1000; // 30 minutes
+// Stats from a failed history scan are retried sooner
+const ERROR_STATS_TTL = 60 * 1000; // 1 minute
+const GRADUATION_TTL = 10 * 60 * 1000; // re-check non-graduated tokens every 10 minutes
+const SIGNATURE_LIMIT = 100;
+// Bounds how far back a creator's history is paged (10 x 100 signatures)
+const MAX_SIGNATURE_PAGES = 10;
+
+export interface DeployerIndexSources {
+  chain: ChainProvider;
+  market: MarketDataProvider;
+  now?: () => number;
+}
+
+interface GraduationRecord {
+  graduated: boolean;
+  graduatedAt?: number;
+  marketCap?: number;
+  checkedAt: number;
+}
+
+interface LaunchRecord {
+  mint: string;
+  name?: string;
+  symbol?: string;
+  createdAt: number;
+  source: DeployerLaunch['source'];
+}
+
+// Returns the mint and creator (fee payer) of a pump.fun create transaction, or null
+export function parseCreation(tx: ParsedTransaction | null): { mint: string; creator: string } | null {
+  const logs = tx?.meta?.logMessages || [];
+  const invokesPumpFun = logs.some((log) => log.startsWith(`Program ${PUMP_FUN_PROGRAM_ID} invoke`));
+  const isCreate = logs.includes('Program log: Instruction: Create');
+
+  if (!invokesPumpFun || !isCreate || tx?.meta?.err) {
+    return null;
+  }
+
+  const key = tx?.transaction?.message?.accountKeys?.[0];
+  const creator = typeof key === 'string' ? key : key?.pubkey;
+  if (!creator) {
+    return null;
+  }
+
+  const innerInstructions = (tx?.meta?.innerInstructions || []).flatMap((inner) => inner.instructions || []);
+  const initializeMint = innerInstructions.find((ix) =>
+    ix?.parsed?.type === 'initializeMint' || ix?.parsed?.type === 'initializeMint2'
+  );
+  if (initializeMint?.parsed?.info?.mint) {
+    return { mint: initializeMint.parsed.info.mint, creator };
+  }
+
+  // Fall back to the first account of the pump.fun create instruction (the mint)
+  const instructions = tx?.transaction?.message?.instructions || [];
+  const createIx = instructions.find((ix) => ix?.programId === PUMP_FUN_PROGRAM_ID);
+  return createIx?.accounts?.[0] ? { mint: createIx.accounts[0], creator } : null;
+}
+
+// Returns the mint created by `creator` in a pump.fun create transaction, or null
+export function parseCreatedMint(tx: ParsedTransaction | null, creator: string): string | null {
+  const creation = parseCreation(tx);
+  return creation?.creator === creator ? creation.mint : null;
+}
+
+export function createDeployerIndex(sources: DeployerIndexSources) {
+  const now = sources.now || Date.now;
+  const launches = new Map<string, Map<string, LaunchRecord>>();
+  const graduation = new Map<string, GraduationRecord>();
+  const statsCache = new Map<string, { stats: DeployerStats; expiresAt: number }>();
+  const pending = new Map<string, Promise<DeployerStats>>();
+  // Newest signature whose transaction has been processed, per creator
+  const lastSignature = new Map<string, string>();
+  // Creators with more history than MAX_SIGNATURE_PAGES covered
+  const truncated = new Set<string>();
+
+  function recordLaunch(creator: string, launch: LaunchRecord) {
+    let creatorLaunches = launches.get(creator);
+    if (!creatorLaunches) {
+      creatorLaunches = new Map();
+      launches.set(creator, creatorLaunches);
+    }
+
+    const existing = creatorLaunches.get(launch.mint);
+    if (existing) {
+      // Keep the backend's metadata, it is richer than what we parse from RPC
+      creatorLaunches.set(launch.mint, {
+        ...existing,
+        name: existing.name ?? launch.name,
+        symbol: existing.symbol ?? launch.symbol,
+      });
+      return;
+    }
+
+    creatorLaunches.set(launch.mint, launch);
+    statsCache.delete(creator);
+  }
+
+  // Signatures newer than the cursor, newest first, paged back until the
+  // cursor, the start of the history or MAX_SIGNATURE_PAGES
+  async function fetchNewSignatures(creator: string): Promise<{ signatures: SignatureInfo[]; complete: boolean }> {
+    const until = lastSignature.get(creator);
+    const signatures: SignatureInfo[] = [];
+    let before: string | undefined;
+
+    for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+      const options: { limit: number; until?: string; before?: string } = { limit: SIGNATURE_LIMIT };
+      if (until) options.until = until;
+      if (before) options.before = before;
+
+      const batch = await sources.chain.fetchSignatures(creator, options);
+      signatures.push(...batch);
+      if (batch.length < SIGNATURE_LIMIT) {
+        return { signatures, complete: true };
+      }
+      before = batch[batch.length - 1].signature;
+    }
+
+    return { signatures, complete: false };
+  }
+
+  async function scanSignatureHistory(creator: string) {
+    const { signatures, complete } = await fetchNewSignatures(creator);
+    if (!complete) {
+      truncated.add(creator);
+    }
+
+    // Oldest first, moving the cursor past each transaction once it's been
+    // processed: if a fetch fails, the next scan resumes from there
+    for (const signature of signatures.reverse()) {
+      if (!signature.err) {
+        const tx = await sources.chain.fetchTransaction(signature.signature);
+
+        const mint = parseCreatedMint(tx, creator);
+        if (mint) {
+          const blockTime = tx?.blockTime ?? signature.blockTime;
+          recordLaunch(creator, {
+            mint,
+            createdAt: blockTime ? blockTime * 1000 : 0,
+            source: 'rpc',
+          });
+        }
+      }
+
+      lastSignature.set(creator, signature.signature);
+    }
+  }
+
+  async function isGraduated(mint: string): Promise<boolean> {
+    const cached = graduation.get(mint);
+    // Graduation is one-way, so a positive result never needs re-checking
+    if (cached && (cached.graduated || now() - cached.checkedAt < GRADUATION_TTL)) {
+      return cached.graduated;
+    }
+
+    try {
+      const pairs = await sources.market.fetchPairs(mint);
+      const graduated = hasMigratedPair(pairs);
+      const { marketCap } = summarizePairs(pairs, mint);
+
+      graduation.set(mint, {
+        graduated,
+        graduatedAt: graduated ? migrationTime(pairs) : undefined,
+        marketCap: marketCap || undefined,
+        checkedAt: now(),
+      });
+      return graduated;
+    } catch (error) {
+      log.warn('error checking graduation', { mint, error });
+      return cached?.graduated ?? false;
+    }
+  }
+
+  async function computeStats(address: string): Promise<DeployerStats> {
+    let scanError: string | undefined;
+    try {
+      await scanSignatureHistory(address);
+    } catch (error) {
+      log.warn('error scanning signature history', { deployer: address, error });
+      scanError = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    const records = Array.from(launches.get(address)?.values() || []);
+    let bondedTokens = 0;
+
+    for (const record of records) {
+      if (await isGraduated(record.mint)) {
+        bondedTokens++;
+      }
+    }
+
+    const totalTokens = records.length;
+
+    return {
+      address,
+      totalTokens,
+      bondedTokens,
+      bondingRate: totalTokens > 0 ? (bondedTokens / totalTokens) * 100 : 0,
+      partial: truncated.has(address) || undefined,
+      error: scanError,
+    };
+  }
+
+  async function getStats(address: string): Promise<DeployerStats> {
+    if (!address || address === 'unknown') {
+      return { address, totalTokens: 0, bondedTokens: 0, bondingRate: 0 };
+    }
+
+    const cached = statsCache.get(address);
+    if (cached && cached.expiresAt > now()) {
+      return cached.stats;
+    }
+
+    // Share one lookup between concurrent callers for the same deployer
+    const inFlight = pending.get(address);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const lookup = computeStats(address)
+      .then((stats) => {
+        statsCache.set(address, { stats, expiresAt: now() + (stats.error ? ERROR_STATS_TTL : STATS_TTL) });
+        return stats;
+      })
+      .finally(() => {
+        pending.delete(address);
+      });
+
+    pending.set(address, lookup);
+    return lookup;
+  }
+
+  // Whether the deployer's history has been scanned or seen in a scan, so a
+  // lookup only reads new signatures
+  function has(address: string): boolean {
+    return launches.has(address) || lastSignature.has(address);
+  }
+
+  function getLaunches(address: string): DeployerLaunch[] {
+    return Array.from(launches.get(address)?.values() || [])
+      .map((record) => {
+        const status = graduation.get(record.mint);
+        return {
+          ...record,
+          graduated: status?.graduated ?? false,
+          graduatedAt: status?.graduatedAt,
+          marketCap: status?.marketCap,
+        };
+      })
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  return {
+    recordLaunch,
+    getStats,
+    getLaunches,
+    has,
+  };
+}
+
+export type DeployerIndex = ReturnType<typeof createDeployerIndex>;
+
+export const deployerIndex = singleton('deployerIndex', () => createDeployerIndex(getProviders()));
@@ -0,0 +1,26 @@
+import { DexPair } from '@/lib/providers/schemas';
+
+// DexScreener helpers
+
+export const DEXSCREENER_API_URL = 'https://api.dexscreener.com';
+
+// Pairs on the pump.fun curve are listed under this dexId; anything else
+// (pumpswap, raydium, ...) only exists once the token has migrated.
+export function hasMigratedPair(pairs: DexPair[]): boolean {
+  return pairs.some(isMigratedPair);
+}
+
+function isMigratedPair(pair: DexPair): boolean {
+  return pair.dexId !== 'pumpfun';
+}
+
+// When the first post-migration pair was created, i.e. roughly when the
+// token graduated
+export function migrationTime(pairs: DexPair[]): number | undefined {
+  const times = pairs
+    .filter(isMigratedPair)
+    .map((pair) => pair.pairCreatedAt)
+    .filter((t): t is number => typeof t === 'number');
+
+  return times.length > 0 ? Math.min(...times) : undefined;
+}
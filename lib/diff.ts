@@ -0,0 +1,72 @@
+import { TokenData, TokensDiff } from '@/lib/types';
+
+// Token list diffs
+//
+// Computed on the server for /api/tokens/stream and applied in the browser,
+// so this must stay free of server-only imports.
+
+const METRICS: (keyof TokenData)[] = [
+  'holders',
+  'marketCap',
+  'bondingCurveProgress',
+  'priceUsd',
+  'volume1h',
+  'volume24h',
+  'priceChange1h',
+  'priceChange24h',
+  'holderVelocity',
+  'marketCapVelocity',
+  'top10Share',
+  'riskScore',
+  'bondingRate',
+  'score',
+];
+
+export function diffTokens(previous: TokenData[], next: TokenData[]): TokensDiff {
+  const before = new Map(previous.map((token) => [token.mint, token]));
+  const after = new Set(next.map((token) => token.mint));
+  const diff: TokensDiff = { added: [], removed: [], moved: [], changed: [] };
+
+  for (const token of next) {
+    const old = before.get(token.mint);
+    if (!old) {
+      diff.added.push(token);
+      continue;
+    }
+
+    if (old.rank !== token.rank) {
+      diff.moved.push({ mint: token.mint, from: old.rank, to: token.rank });
+    }
+
+    if (JSON.stringify(old) !== JSON.stringify(token)) {
+      const deltas: Record<string, number> = {};
+      for (const metric of METRICS) {
+        const from = old[metric];
+        const to = token[metric];
+        if (typeof from === 'number' && typeof to === 'number' && from !== to) {
+          deltas[metric] = to - from;
+        }
+      }
+      diff.changed.push({ mint: token.mint, token, deltas });
+    }
+  }
+
+  for (const token of previous) {
+    if (!after.has(token.mint)) {
+      diff.removed.push(token.mint);
+    }
+  }
+
+  return diff;
+}
+
+// Applies a diff to a token list, keeping it sorted by rank
+export function applyDiff(tokens: TokenData[], diff: TokensDiff): TokenData[] {
+  const byMint = new Map(tokens.map((token) => [token.mint, token]));
+
+  diff.removed.forEach((mint) => byMint.delete(mint));
+  diff.added.forEach((token) => byMint.set(token.mint, token));
+  diff.changed.forEach(({ mint, token }) => byMint.set(mint, token));
+
+  return Array.from(byMint.values()).sort((a, b) => a.rank - b.rank);
+}
@@ -0,0 +1,229 @@
+import { DataSource, FieldProvenance, HolderConcentration, SourceWarning, TokenData } from '@/lib/types';
+import { DeployerIndex } from '@/lib/deployers';
+import { FeedToken, Providers } from '@/lib/providers';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { fetchConcentration } from '@/lib/holders';
+import { fetchMarketData, fetchSolPrice } from '@/lib/market';
+import { curveMetrics, fetchBondingCurve } from '@/lib/curve';
+import { RiskAnalyzer } from '@/lib/risk';
+import { log } from '@/lib/log';
+
+// Enrichment pipeline
+//
+// Adds market data, bonding curve state, holder distribution, deployer stats
+// and rug risk to every token in the feed. Upstream rate limits and retries
+// are handled by `upstreamFetch`; this only bounds how many tokens are in
+// flight at once. A failing source leaves its fields empty and is recorded in
+// the token's `provenance` rather than failing the token.
+
+export type EnrichedToken = Omit<TokenData, 'rank'>;
+
+const ENRICH_CONCURRENCY = Number(process.env.ENRICH_CONCURRENCY) || 8;
+
+// Which source fills each field. marketCap, priceUsd and the graduation
+// fields depend on the token and are attributed in enrichToken.
+const FIELD_SOURCES: Record<DataSource, (keyof EnrichedToken)[]> = {
+  feed: ['name', 'symbol', 'createdAt', 'deployer'],
+  dexscreener: [
+    'liquidityUsd', 'dexId',
+    'volume5m', 'volume1h', 'volume24h',
+    'priceChange5m', 'priceChange1h', 'priceChange24h',
+    'buys5m', 'sells5m', 'buys1h', 'sells1h', 'buys24h', 'sells24h',
+  ],
+  bondingCurve: ['marketCapSol'],
+  rpc: ['holders', 'top10Share', 'top20Share', 'gini', 'deployerBalance', 'deployerShare'],
+  deployerIndex: ['bondingRate'],
+  risk: ['riskScore', 'riskFlags'],
+};
+
+function fieldSources(assessed: boolean): Partial<Record<keyof EnrichedToken, DataSource>> {
+  const sources: Partial<Record<keyof EnrichedToken, DataSource>> = {};
+  for (const [source, fields] of Object.entries(FIELD_SOURCES) as [DataSource, (keyof EnrichedToken)[]][]) {
+    if (source === 'risk' && !assessed) continue;
+    fields.forEach((field) => {
+      sources[field] = source;
+    });
+  }
+  return sources;
+}
+
+interface Lookup<T> {
+  value: T | null;
+  error?: string;
+}
+
+async function attempt<T>(what: string, tokenMint: string, task: () => Promise<T>): Promise<Lookup<T>> {
+  try {
+    return { value: await task() };
+  } catch (error) {
+    log.warn(`error ${what}`, { mint: tokenMint, error });
+    return { value: null, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+// `errors` maps each source that failed to its error
+function buildProvenance(
+  token: EnrichedToken,
+  errors: Partial<Record<DataSource, string>>,
+  sources: Partial<Record<keyof EnrichedToken, DataSource>>
+): FieldProvenance {
+  const provenance: FieldProvenance = {};
+
+  for (const [field, source] of Object.entries(sources) as [keyof EnrichedToken, DataSource][]) {
+    const value = token[field];
+    const error = errors[source];
+    // marketCap is 0 and deployer 'unknown' when nothing reported them
+    const missing = value === undefined || value === 'unknown' ||
+      (field === 'marketCap' && token.marketCapSource === 'none');
+
+    provenance[field] = error ? { source, status: 'error', error } : { source, status: missing ? 'missing' : 'ok' };
+  }
+
+  return provenance;
+}
+
+// Risk is only assessed when an analyzer is given
+export async function enrichToken(
+  token: FeedToken,
+  providers: Providers,
+  deployers: DeployerIndex,
+  risk?: RiskAnalyzer
+): Promise<EnrichedToken> {
+  return (await enrichTokenWithHolders(token, providers, deployers, risk)).token;
+}
+
+// Also returns the holder analysis the token's fields came from, null if it
+// failed, for views that show the full holder list
+export async function enrichTokenWithHolders(
+  token: FeedToken,
+  providers: Providers,
+  deployers: DeployerIndex,
+  risk?: RiskAnalyzer
+): Promise<{ token: EnrichedToken; concentration: HolderConcentration | null }> {
+  const creator = token.creator || 'unknown';
+
+  const [market, holderLookup, deployerStats, curveLookup] = await Promise.all([
+    fetchMarketData(providers.market, token.mint),
+    attempt('fetching holders', token.mint, () => fetchConcentration(providers.chain, token.mint, creator)),
+    deployers.getStats(creator),
+    attempt('fetching bonding curve', token.mint, () => fetchBondingCurve(providers.chain, token.mint)),
+  ]);
+
+  const curve = curveLookup.value;
+  const curveData = curve ? curveMetrics(curve, await fetchSolPrice(providers.market)) : null;
+  // Tokens still on the curve often have no DexScreener pair yet
+  const curveMarketCap = market.marketCapSource === 'none' ? curveData?.marketCapUsd : undefined;
+  const graduationKnown = curve !== null || market.pairCount > 0;
+
+  const holders = holderLookup.value;
+
+  // Runs after the holder analysis so the deployer's current balance is known
+  const assessment = risk
+    ? await attempt('assessing risk', token.mint, () => risk.assess(
+      { mint: token.mint, symbol: token.symbol, deployer: creator, createdAt: token.createdAt },
+      holders
+    ))
+    : null;
+
+  const enriched: EnrichedToken = {
+    mint: token.mint,
+    name: token.name,
+    symbol: token.symbol,
+    uri: `https://pump.fun/${token.mint}`,
+    marketCap: curveMarketCap ?? market.marketCap,
+    marketCapSource: curveMarketCap !== undefined ? 'bondingCurve' : market.marketCapSource,
+    marketCapSol: curveData?.marketCapSol,
+    bondingCurveProgress: market.migrated ? 100 : curveData?.progress,
+    isGraduated: graduationKnown ? market.migrated || !!curve?.complete : undefined,
+    deployer: creator,
+    holders: holders?.holders ?? 0,
+    holdersError: holderLookup.error,
+    createdAt: token.createdAt,
+    bondingRate: deployerStats.bondingRate,
+    priceUsd: market.priceUsd ?? curveData?.priceUsd,
+    liquidityUsd: market.liquidityUsd,
+    dexId: market.dexId,
+    volume5m: market.volume5m,
+    volume1h: market.volume1h,
+    volume24h: market.volume24h,
+    priceChange5m: market.priceChange5m,
+    priceChange1h: market.priceChange1h,
+    priceChange24h: market.priceChange24h,
+    buys5m: market.buys5m,
+    sells5m: market.sells5m,
+    buys1h: market.buys1h,
+    sells1h: market.sells1h,
+    buys24h: market.buys24h,
+    sells24h: market.sells24h,
+    top10Share: holders?.top10Share,
+    top20Share: holders?.top20Share,
+    gini: holders?.gini,
+    deployerBalance: holders?.deployerBalance,
+    deployerShare: holders?.deployerShare,
+    riskScore: assessment?.value?.score,
+    riskFlags: assessment?.value?.flags,
+  };
+
+  const provenance = buildProvenance(enriched, {
+    dexscreener: market.error,
+    bondingCurve: curveLookup.error,
+    rpc: holderLookup.error,
+    deployerIndex: deployerStats.error,
+    risk: assessment?.error,
+  }, {
+    ...fieldSources(risk !== undefined),
+    marketCap: curveMarketCap !== undefined ? 'bondingCurve' : 'dexscreener',
+    priceUsd: market.priceUsd === undefined && curveData?.priceUsd !== undefined ? 'bondingCurve' : 'dexscreener',
+    // An AMM listing settles graduation without the curve
+    bondingCurveProgress: market.migrated ? 'dexscreener' : 'bondingCurve',
+    isGraduated: market.migrated ? 'dexscreener' : 'bondingCurve',
+  });
+
+  return { token: { ...enriched, provenance }, concentration: holders };
+}
+
+export async function enrichTokens(
+  tokens: FeedToken[],
+  providers: Providers,
+  deployers: DeployerIndex,
+  risk?: RiskAnalyzer,
+  concurrency: number = ENRICH_CONCURRENCY
+): Promise<EnrichedToken[]> {
+  let completed = 0;
+
+  return mapWithConcurrency(tokens, concurrency, async (token) => {
+    const enriched = await enrichToken(token, providers, deployers, risk);
+    completed++;
+
+    log.debug('token enriched', {
+      progress: `${completed}/${tokens.length}`,
+      mint: enriched.mint,
+      symbol: enriched.symbol,
+      holders: enriched.holdersError ? undefined : enriched.holders,
+      marketCap: Math.round(enriched.marketCap),
+      bondingRate: Math.round(enriched.bondingRate),
+    });
+
+    return enriched;
+  });
+}
+
+// One warning per token and failed source
+export function sourceWarnings(tokens: EnrichedToken[]): SourceWarning[] {
+  const warnings: SourceWarning[] = [];
+
+  for (const token of tokens) {
+    const failed = new Map<DataSource, string>();
+    for (const status of Object.values(token.provenance || {})) {
+      if (status?.status === 'error' && !failed.has(status.source)) {
+        failed.set(status.source, status.error || 'Unknown error');
+      }
+    }
+
+    failed.forEach((error, source) => {
+      warnings.push({ source, mint: token.mint, symbol: token.symbol, error });
+    });
+  }
+
+  return warnings;
+}
@@ -0,0 +1,186 @@
+import { TokenData } from '@/lib/types';
+import { EnrichedToken } from '@/lib/enrich';
+import { Criteria, FIELDS, FilterOp, FilterRule, criteriaRejections, rejectionReasons } from '@/lib/rules';
+
+// Token explorer
+//
+// Every enriched token from the last scan, not just the ranked top N, with
+// search, column filters, sorting and keyset pagination. Each row says
+// whether it passes the active criteria and, if not, why, so near misses
+// are visible.
+//
+// Query parameters (all optional):
+//   q=<text>                       symbol, mint or deployer address contains text
+//   filter=<field>:<gte|lte>:<n>   column filter; repeat for more
+//   status=passed|rejected         only tokens that pass / fail the criteria
+//   sort=<field>:<asc|desc>        default holders:desc
+//   limit=<n>                      page size, default 50, at most 200
+//   cursor=<opaque>                nextCursor from the previous page
+
+export interface ExplorerSort {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface ExplorerQuery {
+  q?: string;
+  filters: FilterRule[];
+  status?: 'passed' | 'rejected';
+  sort: ExplorerSort;
+  limit: number;
+  cursor?: ExplorerCursor;
+}
+
+// Position after the last row of a page. `now` pins time-based fields (age)
+// so later pages sort the same way as the first.
+interface ExplorerCursor {
+  value: number | null;
+  mint: string;
+  now: number;
+}
+
+export type ExplorerRow = EnrichedToken & {
+  // Rank in the scan's top N, when there
+  rank?: number;
+  passes: boolean;
+  // Why the token fails the criteria; empty when it passes
+  reasons: string[];
+};
+
+export interface ExplorerPage {
+  tokens: ExplorerRow[];
+  // Rows matching the search and filters, across all pages
+  total: number;
+  nextCursor: string | null;
+  sort: ExplorerSort;
+  filters: FilterRule[];
+  columns: { field: string; label: string }[];
+}
+
+const DEFAULT_SORT: ExplorerSort = { field: 'holders', direction: 'desc' };
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function checkField(field: string) {
+  if (!FIELDS[field]) {
+    throw new Error(`Unknown field "${field}" (expected one of: ${Object.keys(FIELDS).join(', ')})`);
+  }
+}
+
+function encodeCursor(cursor: ExplorerCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.mint, cursor.now])).toString('base64url');
+}
+
+function decodeCursor(value: string): ExplorerCursor {
+  try {
+    const [sortValue, mint, now] = JSON.parse(Buffer.from(value, 'base64url').toString());
+    if ((typeof sortValue === 'number' || sortValue === null) && typeof mint === 'string' && typeof now === 'number') {
+      return { value: sortValue, mint, now };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('Invalid cursor');
+}
+
+export function parseExplorerQuery(params: URLSearchParams): ExplorerQuery {
+  const filters = params.getAll('filter').map((filter): FilterRule => {
+    const [field, op, value] = filter.split(':');
+    checkField(field);
+    if (op !== 'gte' && op !== 'lte') {
+      throw new Error(`Invalid filter "${filter}" (expected <field>:gte:<n> or <field>:lte:<n>)`);
+    }
+    if (value === undefined || value.trim() === '' || !Number.isFinite(Number(value))) {
+      throw new Error(`Invalid value in filter "${filter}"`);
+    }
+    return { field, op: op as FilterOp, value: Number(value) };
+  });
+
+  const status = params.get('status');
+  if (status && status !== 'passed' && status !== 'rejected') {
+    throw new Error('status must be passed or rejected');
+  }
+
+  let sort = DEFAULT_SORT;
+  const sortParam = params.get('sort');
+  if (sortParam) {
+    const [field, direction = 'desc'] = sortParam.split(':');
+    checkField(field);
+    if (direction !== 'asc' && direction !== 'desc') {
+      throw new Error('sort direction must be asc or desc');
+    }
+    sort = { field, direction };
+  }
+
+  const limit = Number(params.get('limit'));
+  const cursor = params.get('cursor');
+
+  return {
+    q: params.get('q')?.trim() || undefined,
+    filters,
+    status: (status || undefined) as ExplorerQuery['status'],
+    sort,
+    limit: limit > 0 ? Math.min(Math.floor(limit), MAX_LIMIT) : DEFAULT_LIMIT,
+    cursor: cursor ? decodeCursor(cursor) : undefined,
+  };
+}
+
+// Missing values sort last in either direction; mint breaks ties
+function compareKeys(
+  a: { value: number | null; mint: string },
+  b: { value: number | null; mint: string },
+  direction: ExplorerSort['direction']
+): number {
+  if (a.value !== b.value) {
+    if (a.value === null) return 1;
+    if (b.value === null) return -1;
+    return direction === 'asc' ? a.value - b.value : b.value - a.value;
+  }
+  return a.mint < b.mint ? -1 : a.mint > b.mint ? 1 : 0;
+}
+
+function matchesSearch(token: EnrichedToken, q: string): boolean {
+  const needle = q.toLowerCase();
+  return [token.symbol, token.mint, token.deployer].some((value) => value?.toLowerCase().includes(needle));
+}
+
+export function queryExplorer(
+  candidates: EnrichedToken[],
+  ranked: TokenData[],
+  criteria: Criteria,
+  query: ExplorerQuery
+): ExplorerPage {
+  const now = query.cursor?.now ?? Date.now();
+  const ranks = new Map(ranked.map((token) => [token.mint, token.rank]));
+  const def = FIELDS[query.sort.field];
+
+  const rows = candidates
+    .filter((token) => !query.q || matchesSearch(token, query.q))
+    .filter((token) => rejectionReasons(token, query.filters, now).length === 0)
+    .map((token): ExplorerRow => {
+      const reasons = criteriaRejections(token, criteria, now);
+      return { ...token, rank: ranks.get(token.mint), passes: reasons.length === 0, reasons };
+    })
+    .filter((row) => !query.status || (query.status === 'passed') === row.passes)
+    .map((row) => {
+      const value = def.get(row, now);
+      return { row, key: { value: value === undefined || Number.isNaN(value) ? null : value, mint: row.mint } };
+    })
+    .sort((a, b) => compareKeys(a.key, b.key, query.sort.direction));
+
+  const start = query.cursor
+    ? rows.findIndex(({ key }) => compareKeys(key, query.cursor!, query.sort.direction) > 0)
+    : 0;
+  const page = start < 0 ? [] : rows.slice(start, start + query.limit);
+  const last = page[page.length - 1];
+  const hasMore = start >= 0 && start + query.limit < rows.length;
+
+  return {
+    tokens: page.map(({ row }) => row),
+    total: rows.length,
+    nextCursor: hasMore && last ? encodeCursor({ ...last.key, now }) : null,
+    sort: query.sort,
+    filters: query.filters,
+    columns: Object.entries(FIELDS).map(([field, { label }]) => ({ field, label })),
+  };
+}
@@ -0,0 +1,195 @@
+import { DeployerStats, TokenData } from '@/lib/types';
+import { SnapshotRow } from '@/lib/store';
+
+// Exports
+//
+// Turns scan results, deployer stats and history rows into CSV, JSON or
+// NDJSON for spreadsheets and notebooks. Column names are the TokenData,
+// DeployerStats and SnapshotRow field names and always appear in the same
+// order, whether or not a row has a value. Nested fields are flattened:
+// `riskFlags` becomes the list of flag checks, and `provenance` is left out
+// (it's in /api/tokens).
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson'];
+
+export type ExportValue = string | number | boolean | string[] | null;
+
+export type ExportRecord = Record<string, ExportValue>;
+
+export interface ExportTable {
+  columns: string[];
+  rows: ExportRecord[];
+}
+
+const TOKEN_COLUMNS: (keyof TokenData)[] = [
+  'rank',
+  'mint',
+  'name',
+  'symbol',
+  'uri',
+  'deployer',
+  'createdAt',
+  'holders',
+  'holdersError',
+  'marketCap',
+  'marketCapSource',
+  'marketCapSol',
+  'priceUsd',
+  'bondingCurveProgress',
+  'isGraduated',
+  'bondingRate',
+  'liquidityUsd',
+  'dexId',
+  'volume5m',
+  'volume1h',
+  'volume24h',
+  'priceChange5m',
+  'priceChange1h',
+  'priceChange24h',
+  'buys5m',
+  'sells5m',
+  'buys1h',
+  'sells1h',
+  'buys24h',
+  'sells24h',
+  'score',
+  'holderVelocity',
+  'marketCapVelocity',
+  'top10Share',
+  'top20Share',
+  'gini',
+  'deployerBalance',
+  'deployerShare',
+  'riskScore',
+  'riskFlags',
+  'blockedReason',
+];
+
+// Added to every token in the full enriched set
+const REJECTION_COLUMNS = ['passes', 'rejectionReasons'];
+
+const DEPLOYER_COLUMNS: (keyof DeployerStats)[] = ['address', 'totalTokens', 'bondedTokens', 'bondingRate', 'partial', 'error'];
+
+const HISTORY_COLUMNS: (keyof SnapshotRow)[] = ['t', 'mint', 'symbol', 'holders', 'marketCap', 'priceUsd', 'volume24h', 'rank'];
+
+function pick(source: object, columns: string[]): ExportRecord {
+  const values = source as Record<string, unknown>;
+  const record: ExportRecord = {};
+
+  for (const column of columns) {
+    const value = values[column];
+    if (column === 'riskFlags') {
+      record[column] = Array.isArray(value) ? value.map((flag) => flag.check) : null;
+    } else {
+      record[column] = value === undefined ? null : (value as ExportValue);
+    }
+  }
+
+  return record;
+}
+
+export function tokenTable(tokens: Partial<TokenData>[]): ExportTable {
+  return { columns: TOKEN_COLUMNS, rows: tokens.map((token) => pick(token, TOKEN_COLUMNS)) };
+}
+
+// Every enriched token with whether it passed the criteria and why not
+export function candidateTable(
+  tokens: (Partial<TokenData> & { passes: boolean; reasons: string[] })[]
+): ExportTable {
+  return {
+    columns: [...TOKEN_COLUMNS, ...REJECTION_COLUMNS],
+    rows: tokens.map((token) => ({
+      ...pick(token, TOKEN_COLUMNS),
+      passes: token.passes,
+      rejectionReasons: token.reasons,
+    })),
+  };
+}
+
+export function deployerTable(stats: DeployerStats[]): ExportTable {
+  return { columns: DEPLOYER_COLUMNS, rows: stats.map((entry) => pick(entry, DEPLOYER_COLUMNS)) };
+}
+
+function csvCell(value: ExportValue): string {
+  if (value === null) return '';
+
+  let text = Array.isArray(value) ? value.join(';') : String(value);
+  // Spreadsheets run cells starting with these as formulas; token names come
+  // from anyone who launches a token
+  if (typeof value !== 'number' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvLine = (columns: string[], row: ExportRecord) => columns.map((column) => csvCell(row[column])).join(',');
+
+export function toCsv(table: ExportTable): string {
+  const lines = [table.columns.join(','), ...table.rows.map((row) => csvLine(table.columns, row))];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+export function toNdjson(table: ExportTable): string {
+  return table.rows.map((row) => JSON.stringify(row)).join('\n') + (table.rows.length > 0 ? '\n' : '');
+}
+
+// Rows sent per chunk of a streamed export
+const STREAM_BATCH = 500;
+
+// History rows as they are read, so a long range is never held in memory.
+// JSON is `meta` with the columns and rows added.
+export function streamHistory(
+  rows: AsyncIterable<SnapshotRow>,
+  format: ExportFormat,
+  meta: Record<string, unknown>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = rows[Symbol.asyncIterator]();
+  let started = false;
+  let count = 0;
+
+  return new ReadableStream({
+    async pull(controller) {
+      let chunk = '';
+      if (!started) {
+        started = true;
+        chunk = format === 'csv'
+          ? `${HISTORY_COLUMNS.join(',')}\r\n`
+          : format === 'json'
+            ? `${JSON.stringify({ ...meta, columns: HISTORY_COLUMNS }).slice(0, -1)},"rows":[`
+            : '';
+      }
+
+      for (let i = 0; i < STREAM_BATCH; i++) {
+        const next = await iterator.next();
+        if (next.done) {
+          controller.enqueue(encoder.encode(format === 'json' ? `${chunk}]}` : chunk));
+          controller.close();
+          return;
+        }
+
+        const record = pick(next.value, HISTORY_COLUMNS);
+        chunk += format === 'csv'
+          ? `${csvLine(HISTORY_COLUMNS, record)}\r\n`
+          : format === 'json'
+            ? `${count++ > 0 ? ',' : ''}${JSON.stringify(record)}`
+            : `${JSON.stringify(record)}\n`;
+      }
+
+      controller.enqueue(encoder.encode(chunk));
+    },
+
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+};
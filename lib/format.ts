@@ -0,0 +1,41 @@
+// Display formatting shared by the pages
+
+export const formatTimeAgo = (timestamp: number, now: number = Date.now()) => {
+  const minutes = Math.floor((now - timestamp) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes === 1) return '1 minute ago';
+  if (minutes < 120) return `${minutes} minutes ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} hours ago`;
+  return `${Math.floor(hours / 24)} days ago`;
+};
+
+export const formatUsd = (value?: number) => {
+  if (value === undefined || value === null) return '—';
+  if (Math.abs(value) >= 1e6) return `$${(value / 1e6).toFixed(2)}M`;
+  if (Math.abs(value) >= 1e3) return `$${(value / 1e3).toFixed(1)}K`;
+  return `$${value.toFixed(0)}`;
+};
+
+export const formatPrice = (value?: number) => {
+  if (value === undefined || value === null) return '—';
+  if (value >= 1) return `$${value.toFixed(4)}`;
+  return `$${value.toPrecision(3)}`;
+};
+
+export const formatPercent = (value?: number, digits = 1) => {
+  if (value === undefined || value === null) return '—';
+  return `${value > 0 ? '+' : ''}${value.toFixed(digits)}%`;
+};
+
+export const shortAddress = (address: string) =>
+  address.length > 12 ? `${address.substring(0, 4)}…${address.substring(address.length - 4)}` : address;
+
+export const formatDuration = (ms?: number) => {
+  if (ms === undefined || ms === null) return '—';
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
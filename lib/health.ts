@@ -0,0 +1,92 @@
+import { ScanSnapshot } from '@/lib/scanner';
+import { Providers } from '@/lib/providers';
+import { UpstreamStatus, getUpstreamStatuses } from '@/lib/http';
+import { createGauge } from '@/lib/metrics';
+
+// Health
+//
+// What /api/health and /api/metrics report about the scanner and the
+// upstreams it depends on. The service is
+//   ok        the last scan is fresh and every data upstream is up
+//   degraded  still serving a fresh snapshot, but the last refresh failed or
+//             an upstream the scan reads from is down
+//   down      no scan has succeeded recently, so the dashboard is stale or empty
+
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+export interface HealthReport {
+  status: HealthStatus;
+  // A snapshot exists to serve
+  ready: boolean;
+  scanner: {
+    lastScanId?: string;
+    lastUpdated: number;
+    // Age of the last successful scan; null before the first one
+    lastSuccessAgeMs: number | null;
+    scanning: boolean;
+    stale: boolean;
+    lastError?: string;
+    lastErrorAt?: number;
+  };
+  upstreams: (UpstreamStatus & { required: boolean })[];
+  checkedAt: number;
+}
+
+const snapshotAge = createGauge(
+  'deployer_hunter_snapshot_age_seconds',
+  'Seconds since the last successful scan (-1 before the first one)'
+);
+const healthStatus = createGauge(
+  'deployer_hunter_health_status',
+  'Overall health, 1 for the current status (ok, degraded or down) and 0 otherwise'
+);
+const upstreamUp = createGauge(
+  'deployer_hunter_upstream_up',
+  'Whether an upstream is up (0 after repeated failed requests)'
+);
+
+export function checkHealth(snapshot: ScanSnapshot, providers: Providers): HealthReport {
+  const now = Date.now();
+
+  // Upstreams the scan reads from are named after their providers; anything
+  // else (alert channels) is reported but doesn't affect the status
+  const sources = new Set([providers.feed.name, providers.market.name, providers.chain.name]);
+  const upstreams = getUpstreamStatuses().map((status) => ({ ...status, required: sources.has(status.upstream) }));
+
+  let status: HealthStatus = 'ok';
+  if (snapshot.stale) {
+    status = 'down';
+  } else if (snapshot.lastError || upstreams.some((upstream) => upstream.required && upstream.status === 'down')) {
+    status = 'degraded';
+  }
+
+  return {
+    status,
+    ready: snapshot.lastUpdated > 0,
+    scanner: {
+      lastScanId: snapshot.lastScanId,
+      lastUpdated: snapshot.lastUpdated,
+      lastSuccessAgeMs: snapshot.lastUpdated > 0 ? now - snapshot.lastUpdated : null,
+      scanning: snapshot.scanning,
+      stale: snapshot.stale,
+      lastError: snapshot.lastError,
+      lastErrorAt: snapshot.lastErrorAt,
+    },
+    upstreams,
+    checkedAt: now,
+  };
+}
+
+// Point-in-time gauges, refreshed before each /api/metrics render
+export function recordHealthMetrics(report: HealthReport) {
+  const { lastSuccessAgeMs } = report.scanner;
+  snapshotAge.set({}, lastSuccessAgeMs === null ? -1 : lastSuccessAgeMs / 1000);
+
+  for (const status of ['ok', 'degraded', 'down'] as HealthStatus[]) {
+    healthStatus.set({ status }, report.status === status ? 1 : 0);
+  }
+
+  for (const upstream of report.upstreams) {
+    upstreamUp.set({ upstream: upstream.upstream }, upstream.status === 'up' ? 1 : 0);
+  }
+}
@@ -0,0 +1,241 @@
+import { HistoryPoint, TokenData } from '@/lib/types';
+import { EnrichedToken } from '@/lib/enrich';
+import { SnapshotRow, SnapshotStore, getSnapshotStore } from '@/lib/store';
+import { singleton } from '@/lib/singleton';
+import { log } from '@/lib/log';
+
+// Token history
+//
+// Records each scan in the snapshot store, derives holder and market-cap
+// velocity from recent scans, and serves downsampled time series.
+
+const HOUR = 60 * 60 * 1000;
+
+export const VELOCITY_WINDOW = Number(process.env.VELOCITY_WINDOW_MS) || 15 * 60 * 1000; // 15 minutes
+
+// Shortest gap we'll compute a velocity over; anything less is mostly noise
+const MIN_VELOCITY_SPAN = 60 * 1000;
+
+// Longest range a series or export covers; longer ones keep the latest part
+export const MAX_RANGE = 31 * 24 * HOUR;
+
+// How far back the peak market-cap index is built from on startup
+const PEAK_LOOKBACK = 30 * 24 * HOUR;
+// Mints in the peak index; the ones recorded longest ago are dropped first
+const MAX_PEAKS = 20000;
+
+// Parses "15m", "6h", "7d" into milliseconds
+export function parseWindow(value: string): number | null {
+  const match = value.match(/^(\d+)(m|h|d)$/);
+  if (!match) return null;
+
+  const unit = { m: 60 * 1000, h: HOUR, d: 24 * HOUR }[match[2] as 'm' | 'h' | 'd'];
+  return Number(match[1]) * unit;
+}
+
+// The range asked for with window=<n>m|h|d (or `defaultWindow`) or
+// from/to in milliseconds, ending no later than `now` and at most MAX_RANGE
+// long. Null when it's malformed or empty.
+export function parseRange(
+  params: URLSearchParams,
+  defaultWindow: string,
+  now: number = Date.now()
+): { from: number; to: number } | null {
+  const windowMs = parseWindow(params.get('window') || defaultWindow);
+  const to = Math.min(params.has('to') ? Number(params.get('to')) : now, now);
+  const from = params.has('from') ? Number(params.get('from')) : windowMs !== null ? to - windowMs : NaN;
+
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from >= to) {
+    return null;
+  }
+  return { from: Math.max(from, to - MAX_RANGE), to };
+}
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+function averageDefined(values: (number | undefined)[]): number | undefined {
+  const defined = values.filter((v): v is number => v !== undefined);
+  return defined.length > 0 ? average(defined) : undefined;
+}
+
+// Buckets rows into at most `points` equal time slices, averaging metrics
+// and keeping the best rank in each slice
+export function downsample(rows: SnapshotRow[], from: number, to: number, points: number): HistoryPoint[] {
+  const toPoint = (row: SnapshotRow): HistoryPoint => ({
+    t: row.t,
+    holders: row.holders,
+    marketCap: row.marketCap,
+    priceUsd: row.priceUsd,
+    volume24h: row.volume24h,
+    rank: row.rank,
+  });
+
+  if (rows.length <= points) {
+    return rows.map(toPoint);
+  }
+
+  const bucketSize = (to - from) / points;
+  const buckets = new Map<number, SnapshotRow[]>();
+
+  for (const row of rows) {
+    const bucket = Math.min(points - 1, Math.floor((row.t - from) / bucketSize));
+    const slice = buckets.get(bucket);
+    if (slice) slice.push(row);
+    else buckets.set(bucket, [row]);
+  }
+
+  return Array.from(buckets.values()).map((bucket) => {
+    const ranks = bucket.map((row) => row.rank).filter((rank): rank is number => rank !== null);
+
+    return {
+      t: Math.round(average(bucket.map((row) => row.t))),
+      holders: Math.round(average(bucket.map((row) => row.holders))),
+      marketCap: average(bucket.map((row) => row.marketCap)),
+      priceUsd: averageDefined(bucket.map((row) => row.priceUsd)),
+      volume24h: averageDefined(bucket.map((row) => row.volume24h)),
+      rank: ranks.length > 0 ? Math.min(...ranks) : null,
+    };
+  });
+}
+
+export function createHistory(store: SnapshotStore, velocityWindow: number = VELOCITY_WINDOW) {
+  // Recent rows per mint, enough to compute velocity without reading disk each scan
+  const recent = new Map<string, SnapshotRow[]>();
+  let warmed = false;
+  // Highest market cap recorded per mint, built from the last PEAK_LOOKBACK
+  // of snapshots on first use and kept up to date by `record`
+  let peaks: Promise<Map<string, number>> | null = null;
+
+  async function warm(now: number) {
+    if (warmed) return;
+    warmed = true;
+
+    try {
+      const rows = await store.query(null, now - velocityWindow * 2, now);
+      for (const row of rows) {
+        const kept = recent.get(row.mint);
+        if (kept) kept.push(row);
+        else recent.set(row.mint, [row]);
+      }
+    } catch (error) {
+      log.error('error loading recent history', { error });
+    }
+  }
+
+  function velocity(rows: SnapshotRow[], now: number, current: number, pick: (row: SnapshotRow) => number) {
+    // Oldest row inside the window is the baseline
+    const baseline = rows.find((row) => row.t >= now - velocityWindow);
+    if (!baseline || now - baseline.t < MIN_VELOCITY_SPAN) {
+      return undefined;
+    }
+    return (current - pick(baseline)) / ((now - baseline.t) / HOUR);
+  }
+
+  // Adds per-hour holder and market-cap velocity from earlier scans
+  async function withVelocity<T extends EnrichedToken>(tokens: T[], now: number = Date.now()): Promise<T[]> {
+    await warm(now);
+
+    return tokens.map((token) => {
+      const rows = recent.get(token.mint) || [];
+      return {
+        ...token,
+        holderVelocity: token.holdersError ? undefined : velocity(rows, now, token.holders, (row) => row.holders),
+        marketCapVelocity: velocity(rows, now, token.marketCap, (row) => row.marketCap),
+      };
+    });
+  }
+
+  async function record(tokens: EnrichedToken[], ranked: TokenData[], now: number = Date.now()) {
+    const ranks = new Map(ranked.map((token) => [token.mint, token.rank]));
+
+    // A failed holder lookup would read as a drop to 0 holders
+    const rows: SnapshotRow[] = tokens.filter((token) => !token.holdersError).map((token) => ({
+      t: now,
+      mint: token.mint,
+      symbol: token.symbol,
+      holders: token.holders,
+      marketCap: token.marketCap,
+      priceUsd: token.priceUsd,
+      volume24h: token.volume24h,
+      rank: ranks.get(token.mint) ?? null,
+    }));
+
+    for (const row of rows) {
+      const kept = (recent.get(row.mint) || []).filter((r) => r.t >= now - velocityWindow * 2);
+      kept.push(row);
+      recent.set(row.mint, kept);
+    }
+
+    // Nothing to update until the index is first used
+    const index = peaks && (await peaks.catch(() => null));
+    if (index) {
+      for (const row of rows) updatePeak(index, row);
+    }
+
+    await store.append(rows);
+  }
+
+  function updatePeak(index: Map<string, number>, row: SnapshotRow) {
+    if (row.marketCap <= (index.get(row.mint) ?? 0)) return;
+    if (!index.has(row.mint) && index.size >= MAX_PEAKS) {
+      index.delete(index.keys().next().value as string);
+    }
+    index.set(row.mint, row.marketCap);
+  }
+
+  function peakIndex(): Promise<Map<string, number>> {
+    if (!peaks) {
+      const now = Date.now();
+      peaks = (async () => {
+        const index = new Map<string, number>();
+        for await (const row of store.scan(null, now - PEAK_LOOKBACK, now)) {
+          updatePeak(index, row);
+        }
+        return index;
+      })();
+      // Retried on the next call rather than cached
+      peaks.catch(() => {
+        peaks = null;
+      });
+    }
+    return peaks;
+  }
+
+  // Clamped to MAX_RANGE
+  async function series(mint: string, from: number, to: number, points: number): Promise<HistoryPoint[]> {
+    from = Math.max(from, to - MAX_RANGE);
+    const rows = await store.query(mint, from, to);
+    return downsample(rows, from, to, points);
+  }
+
+  // Raw rows, oldest first; every mint when `mint` is null. Holds one day in
+  // memory at a time. Clamped to MAX_RANGE.
+  function stream(mint: string | null, from: number, to: number): AsyncIterable<SnapshotRow> {
+    return store.scan(mint, Math.max(from, to - MAX_RANGE), to);
+  }
+
+  // Highest market cap recorded for each of `mints` that has one
+  async function peakMarketCaps(mints: string[]): Promise<Map<string, number>> {
+    const index = await peakIndex();
+    const found = new Map<string, number>();
+
+    for (const mint of mints) {
+      const peak = index.get(mint);
+      if (peak !== undefined) found.set(mint, peak);
+    }
+
+    return found;
+  }
+
+  return {
+    withVelocity,
+    record,
+    series,
+    stream,
+    peakMarketCaps,
+  };
+}
+
+export type History = ReturnType<typeof createHistory>;
+
+export const tokenHistory = singleton('tokenHistory', () => createHistory(getSnapshotStore()));
@@ -0,0 +1,115 @@
+import { HolderBalance, HolderConcentration } from '@/lib/types';
+import { ChainProvider, TokenAccount } from '@/lib/providers';
+import { POOL_AUTHORITIES, POOL_PROGRAMS } from '@/lib/solana';
+
+// Holder analysis
+//
+// Works from every token account for the mint. Balances are summed per owner
+// wallet, and accounts held by the bonding curve or an AMM pool are set aside
+// so they don't read as a whale. Shares are of the supply outside those
+// accounts, so a token still on the curve isn't read as widely spread.
+
+// Pool accounts are always among the biggest, so only these owners are checked
+const POOL_CHECK_LIMIT = 20;
+const LARGEST_LIMIT = 20;
+
+// 0 when every holder has the same balance, approaching 1 as one holder owns it all
+export function giniCoefficient(balances: number[]): number {
+  const sorted = balances.filter((amount) => amount > 0).sort((a, b) => a - b);
+  const n = sorted.length;
+  const total = sorted.reduce((sum, amount) => sum + amount, 0);
+  if (n < 2 || total === 0) return 0;
+
+  const weighted = sorted.reduce((sum, amount, i) => sum + (i + 1) * amount, 0);
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+}
+
+// `poolOwners` maps owner wallets that are pool accounts to a label
+export function analyzeHolders(
+  accounts: TokenAccount[],
+  supply: number,
+  deployer: string,
+  poolOwners: Record<string, string> = {}
+): HolderConcentration {
+  const byOwner = new Map<string, number>();
+  for (const account of accounts) {
+    if (account.amount > 0) {
+      byOwner.set(account.owner, (byOwner.get(account.owner) || 0) + account.amount);
+    }
+  }
+
+  let pooled = 0;
+  byOwner.forEach((amount, owner) => {
+    if (poolOwners[owner]) pooled += amount;
+  });
+  const circulating = Math.max(0, supply - pooled);
+
+  const percentOf = (total: number) => (amount: number) => (total > 0 ? (amount / total) * 100 : 0);
+  const share = percentOf(circulating);
+  const balances = Array.from(byOwner, ([address, amount]) => ({ address, amount }))
+    .sort((a, b) => b.amount - a.amount);
+
+  const holders: HolderBalance[] = balances
+    .filter((balance) => !poolOwners[balance.address])
+    .map((balance) => ({ ...balance, share: share(balance.amount) }));
+  const topShare = (n: number) => holders.slice(0, n).reduce((sum, holder) => sum + holder.share, 0);
+  const deployerBalance = byOwner.get(deployer) || 0;
+
+  return {
+    supply,
+    circulating,
+    holders: holders.length,
+    top10Share: topShare(10),
+    top20Share: topShare(20),
+    gini: giniCoefficient(holders.map((holder) => holder.amount)),
+    deployerBalance,
+    deployerShare: share(deployerBalance),
+    largest: holders.slice(0, LARGEST_LIMIT),
+    // Of the whole supply, since that's what they are left out of
+    excluded: balances
+      .filter((balance) => poolOwners[balance.address])
+      .map((balance) => ({
+        ...balance,
+        share: percentOf(supply)(balance.amount),
+        label: poolOwners[balance.address],
+      })),
+  };
+}
+
+export async function fetchConcentration(
+  chain: ChainProvider,
+  tokenMint: string,
+  deployer: string
+): Promise<HolderConcentration> {
+  const [supply, accounts] = await Promise.all([
+    chain.fetchTokenSupply(tokenMint),
+    chain.fetchTokenAccounts(tokenMint),
+  ]);
+
+  const poolOwners: Record<string, string> = {};
+  for (const account of accounts) {
+    if (POOL_AUTHORITIES[account.owner]) {
+      poolOwners[account.owner] = POOL_AUTHORITIES[account.owner];
+    }
+  }
+
+  // The bonding curve and PumpSwap pools are accounts owned by their program;
+  // look up who owns the biggest owner wallets to find them
+  const candidates = Array.from(new Set(
+    accounts
+      .filter((account) => account.amount > 0 && account.owner !== deployer && !poolOwners[account.owner])
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, POOL_CHECK_LIMIT)
+      .map((account) => account.owner)
+  ));
+  const programs = await chain.fetchAccountOwners(candidates);
+
+  for (const owner of candidates) {
+    const program = programs[owner];
+    if (program && POOL_PROGRAMS[program]) {
+      poolOwners[owner] = POOL_PROGRAMS[program];
+    }
+  }
+
+  return analyzeHolders(accounts, supply, deployer, poolOwners);
+}
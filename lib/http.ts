@@ -0,0 +1,214 @@
+// Upstream HTTP client
+//
+// All live providers go through `upstreamFetch`, which applies a token-bucket
+// rate limit per upstream host, a per-request timeout, and retries with
+// exponential backoff on 429/5xx responses and network errors. Every attempt
+// is counted and timed per upstream for /api/metrics, and the outcome of each
+// request feeds the upstream status reported by /api/health. Data-source
+// traffic can be recorded to a session file and replayed (see traffic.ts).
+
+import { singleton } from '@/lib/singleton';
+import { log } from '@/lib/log';
+import { createCounter, createHistogram } from '@/lib/metrics';
+import { getTrafficRecorder, getTrafficReplay, isRecordedUpstream } from '@/lib/traffic';
+
+export interface HostLimit {
+  ratePerSecond: number;
+  burst: number;
+}
+
+export interface UpstreamFetchOptions {
+  timeoutMs?: number;
+  retries?: number;
+  // Name used in metrics and health, e.g. 'rpc'; defaults to the host
+  upstream?: string;
+}
+
+export interface UpstreamStatus {
+  upstream: string;
+  // Down after UPSTREAM_DOWN_AFTER failed requests in a row
+  status: 'up' | 'down';
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  lastError?: string;
+}
+
+const DEFAULT_TIMEOUT = 10 * 1000; // 10 seconds
+const DEFAULT_RETRIES = 3;
+const BACKOFF_BASE = 500;
+const BACKOFF_MAX = 8 * 1000;
+
+const DEFAULT_HOST_LIMIT: HostLimit = { ratePerSecond: 10, burst: 10 };
+
+// Failed requests (after retries) in a row before an upstream counts as down
+const UPSTREAM_DOWN_AFTER = 3;
+
+const requestsTotal = createCounter(
+  'deployer_hunter_upstream_requests_total',
+  'Upstream HTTP attempts, retries included, by upstream and status code ("error" for network errors and timeouts)'
+);
+const retriesTotal = createCounter(
+  'deployer_hunter_upstream_retries_total',
+  'Upstream attempts that were retried'
+);
+const failuresTotal = createCounter(
+  'deployer_hunter_upstream_failures_total',
+  'Upstream requests that failed after all retries'
+);
+const requestDuration = createHistogram(
+  'deployer_hunter_upstream_request_duration_seconds',
+  'Upstream HTTP attempt latency'
+);
+
+const statuses = singleton('http.statuses', () => new Map<string, UpstreamStatus>());
+
+// Public endpoints we know the limits of; anything else uses the default
+const hostLimits = singleton<Record<string, HostLimit>>('http.hostLimits', () => ({
+  'api.dexscreener.com': { ratePerSecond: 4, burst: 5 },
+  'api.mainnet-beta.solana.com': { ratePerSecond: 3, burst: 5 },
+}));
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  limit: HostLimit;
+}
+
+const buckets = singleton('http.buckets', () => new Map<string, Bucket>());
+
+export function configureHostLimit(host: string, limit: HostLimit) {
+  hostLimits[host] = limit;
+  buckets.delete(host);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Takes a token from the host's bucket, waiting for one to refill if needed.
+// Tokens may go negative: each caller reserves its slot up front, so waiting
+// callers are served in order.
+async function acquire(host: string) {
+  let bucket = buckets.get(host);
+  const now = Date.now();
+
+  if (!bucket) {
+    const limit = hostLimits[host] || DEFAULT_HOST_LIMIT;
+    bucket = { tokens: limit.burst, updatedAt: now, limit };
+    buckets.set(host, bucket);
+  }
+
+  const elapsed = (now - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(bucket.limit.burst, bucket.tokens + elapsed * bucket.limit.ratePerSecond);
+  bucket.updatedAt = now;
+  bucket.tokens -= 1;
+
+  if (bucket.tokens < 0) {
+    await sleep((-bucket.tokens / bucket.limit.ratePerSecond) * 1000);
+  }
+}
+
+function recordOutcome(upstream: string, error?: string) {
+  let status = statuses.get(upstream);
+  if (!status) {
+    status = { upstream, status: 'up', requests: 0, failures: 0, consecutiveFailures: 0 };
+    statuses.set(upstream, status);
+  }
+
+  status.requests += 1;
+  if (error === undefined) {
+    status.consecutiveFailures = 0;
+    status.lastSuccessAt = Date.now();
+  } else {
+    status.failures += 1;
+    status.consecutiveFailures += 1;
+    status.lastFailureAt = Date.now();
+    status.lastError = error;
+    failuresTotal.inc({ upstream });
+  }
+  status.status = status.consecutiveFailures >= UPSTREAM_DOWN_AFTER ? 'down' : 'up';
+}
+
+// Every upstream contacted since the server started
+export function getUpstreamStatuses(): UpstreamStatus[] {
+  return Array.from(statuses.values(), (status) => ({ ...status }));
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function backoffDelay(attempt: number, response?: Response): number {
+  const retryAfter = Number(response?.headers.get('retry-after'));
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, BACKOFF_MAX);
+  }
+
+  const exponential = Math.min(BACKOFF_BASE * 2 ** attempt, BACKOFF_MAX);
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+export async function upstreamFetch(
+  url: string,
+  init: RequestInit = {},
+  options: UpstreamFetchOptions = {}
+): Promise<Response> {
+  const host = new URL(url).host;
+  const upstream = options.upstream ?? host;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  const replay = isRecordedUpstream(upstream) ? getTrafficReplay() : null;
+  if (replay) {
+    try {
+      const response = await replay.respond(upstream, url, init);
+      recordOutcome(upstream, response.ok ? undefined : `HTTP ${response.status}`);
+      return response;
+    } catch (error) {
+      recordOutcome(upstream, error instanceof Error ? error.message : 'Error');
+      throw error;
+    }
+  }
+  const recorder = isRecordedUpstream(upstream) ? getTrafficRecorder() : null;
+
+  for (let attempt = 0; ; attempt++) {
+    await acquire(host);
+    const startedAt = Date.now();
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      requestsTotal.inc({ upstream, status: String(response.status) });
+      requestDuration.observe({ upstream }, (Date.now() - startedAt) / 1000);
+
+      if (!isRetryableStatus(response.status) || attempt >= retries) {
+        recordOutcome(upstream, response.ok ? undefined : `HTTP ${response.status}`);
+        await recorder?.record(upstream, url, init, response);
+        return response;
+      }
+
+      log.warn('upstream retry', { upstream, status: response.status, attempt: attempt + 1, retries });
+      retriesTotal.inc({ upstream });
+      await sleep(backoffDelay(attempt, response));
+
+    } catch (error) {
+      requestsTotal.inc({ upstream, status: 'error' });
+      requestDuration.observe({ upstream }, (Date.now() - startedAt) / 1000);
+
+      const reason = error instanceof Error ? error.name : 'Error';
+      if (attempt >= retries) {
+        recordOutcome(upstream, error instanceof Error ? error.message : reason);
+        await recorder?.record(upstream, url, init, error);
+        throw error;
+      }
+
+      log.warn('upstream retry', { upstream, reason, attempt: attempt + 1, retries });
+      retriesTotal.inc({ upstream });
+      await sleep(backoffDelay(attempt));
+    }
+  }
+}
@@ -0,0 +1,262 @@
+import path from 'path';
+import { NextResponse } from 'next/server';
+import { DeployerCluster, DeployerListEntry, DeployerListKind } from '@/lib/types';
+import { DATA_DIR, readJson, writeJson } from '@/lib/store';
+import { isValidAddress } from '@/lib/solana';
+import { ValidationError } from '@/lib/schema';
+import { shortAddress } from '@/lib/format';
+import { singleton } from '@/lib/singleton';
+import { log } from '@/lib/log';
+
+// Deployer blocklist and allowlist
+//
+// Tokens from a blocklisted deployer, or from any wallet in the same cluster,
+// fail every criteria with the reason attached, and are never ranked even as
+// a fallback. Allowlisted deployers are never blocked through their cluster,
+// and allowlisted addresses (e.g. an exchange hot wallet) never link wallets
+// into clusters. An address is on at most one list. Kept in one JSON file
+// under DATA_DIR; changes apply from the next scan.
+
+export const LIST_KINDS: DeployerListKind[] = ['block', 'allow'];
+
+export interface DeployerListsStore {
+  load(): Promise<DeployerListEntry[]>;
+  save(entries: DeployerListEntry[]): Promise<void>;
+}
+
+export interface ImportResult {
+  added: number;
+  updated: number;
+  // Lines that couldn't be imported, 1-based
+  skipped: { line: number; error: string }[];
+}
+
+const MAX_ENTRIES = 10000;
+const MAX_REASON = 200;
+
+// Carries the HTTP status the API answers with
+export class DeployerListError extends Error {
+  constructor(message: string, readonly status: 400 | 404) {
+    super(message);
+    this.name = 'DeployerListError';
+  }
+}
+
+export function parseListKind(value: string | null): DeployerListKind {
+  if (!LIST_KINDS.includes(value as DeployerListKind)) {
+    throw new DeployerListError(`list must be one of: ${LIST_KINDS.join(', ')}`, 400);
+  }
+  return value as DeployerListKind;
+}
+
+function checkEntry(address: string, reason?: string) {
+  if (!isValidAddress(address)) {
+    throw new DeployerListError(`${address} is not a valid address`, 400);
+  }
+  if (reason && reason.length > MAX_REASON) {
+    throw new DeployerListError(`Reasons are limited to ${MAX_REASON} characters`, 400);
+  }
+}
+
+// One address per line, optionally followed by a comma and a reason; blank
+// lines and lines starting with # are skipped
+export function parseListFile(text: string): { line: number; address: string; reason?: string }[] {
+  return text
+    .split(/\r?\n/)
+    .map((raw, index) => ({ raw: raw.trim(), line: index + 1 }))
+    .filter(({ raw }) => raw && !raw.startsWith('#'))
+    .map(({ raw, line }) => {
+      const comma = raw.indexOf(',');
+      const address = (comma < 0 ? raw : raw.slice(0, comma)).trim();
+      const reason = comma < 0 ? undefined : raw.slice(comma + 1).trim() || undefined;
+      return { line, address, reason };
+    });
+}
+
+// The cluster members `address` is linked to by funding or transfers,
+// directly or through other members, itself included. A shared name and
+// symbol alone isn't enough to act on, e.g. to carry a blocklist entry.
+function linkedByFunds(cluster: DeployerCluster, address: string): string[] {
+  const linked = new Set([address]);
+  const queue = [address];
+
+  while (queue.length > 0) {
+    const member = queue.shift()!;
+    for (const link of cluster.links) {
+      if (link.reason === 'metadata') continue;
+      const other = link.from === member ? link.to : link.to === member ? link.from : null;
+      if (other && !linked.has(other)) {
+        linked.add(other);
+        queue.push(other);
+      }
+    }
+  }
+
+  return Array.from(linked);
+}
+
+// The reason `deployer`'s tokens are excluded, or undefined when they aren't
+export function blockReason(
+  deployer: string,
+  cluster: DeployerCluster | undefined,
+  entries: Map<string, DeployerListEntry>
+): string | undefined {
+  const own = entries.get(deployer);
+  if (own?.list === 'allow') return undefined;
+
+  const because = (entry: DeployerListEntry) => (entry.reason ? `: ${entry.reason}` : '');
+  if (own?.list === 'block') {
+    return `deployer blocklisted${because(own)}`;
+  }
+
+  const linked = cluster ? linkedByFunds(cluster, deployer) : [];
+  const blocked = linked.map((member) => entries.get(member)).find((entry) => entry?.list === 'block');
+  return blocked ? `cluster member ${shortAddress(blocked.address)} blocklisted${because(blocked)}` : undefined;
+}
+
+// Addresses that never link wallets into clusters
+export function allowedAddresses(entries: DeployerListEntry[]): Set<string> {
+  return new Set(entries.filter((entry) => entry.list === 'allow').map((entry) => entry.address));
+}
+
+export function createFileDeployerListsStore(file: string): DeployerListsStore {
+  return {
+    load: () => readJson<DeployerListEntry[]>(file, []),
+    save: (entries) => writeJson(file, entries),
+  };
+}
+
+export function createDeployerLists(store: DeployerListsStore, now: () => number = Date.now) {
+  // Loaded once, then kept in step with every save
+  let loading: Promise<DeployerListEntry[]> | null = null;
+
+  function load(): Promise<DeployerListEntry[]> {
+    if (!loading) {
+      loading = store.load().catch((error) => {
+        loading = null;
+        throw error;
+      });
+    }
+    return loading;
+  }
+
+  // Runs read-modify-write cycles one at a time
+  let queue: Promise<unknown> = Promise.resolve();
+  function serial<T>(task: () => Promise<T>): Promise<T> {
+    const run = queue.then(task);
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async function save(entries: DeployerListEntry[]) {
+    if (entries.length > MAX_ENTRIES) {
+      throw new DeployerListError(`The lists are limited to ${MAX_ENTRIES} entries`, 400);
+    }
+    await store.save(entries);
+    loading = Promise.resolve(entries);
+  }
+
+  // Adds or replaces entries; an address already on the other list moves
+  function merge(entries: DeployerListEntry[], incoming: DeployerListEntry[]): DeployerListEntry[] {
+    const byAddress = new Map(entries.map((entry) => [entry.address, entry]));
+    incoming.forEach((entry) => byAddress.set(entry.address, entry));
+    return Array.from(byAddress.values());
+  }
+
+  async function list(kind?: DeployerListKind): Promise<DeployerListEntry[]> {
+    const entries = await load();
+    return kind ? entries.filter((entry) => entry.list === kind) : entries;
+  }
+
+  function add(address: string, kind: DeployerListKind, reason?: string): Promise<DeployerListEntry> {
+    return serial(async () => {
+      checkEntry(address, reason);
+
+      const entry: DeployerListEntry = { address, list: kind, reason: reason || undefined, addedAt: now(), source: 'api' };
+      await save(merge(await load(), [entry]));
+      log.info('deployer list updated', { address, list: kind });
+      return entry;
+    });
+  }
+
+  function remove(address: string): Promise<void> {
+    return serial(async () => {
+      const entries = await load();
+      if (!entries.some((entry) => entry.address === address)) {
+        throw new DeployerListError(`${address} is not on either list`, 404);
+      }
+      await save(entries.filter((entry) => entry.address !== address));
+      log.info('deployer list updated', { address, list: null });
+    });
+  }
+
+  // Imports a list file (see parseListFile) into `kind`; bad lines are
+  // reported and skipped rather than failing the import
+  function importFile(text: string, kind: DeployerListKind): Promise<ImportResult> {
+    return serial(async () => {
+      const entries = await load();
+      const existing = new Set(entries.map((entry) => entry.address));
+      const result: ImportResult = { added: 0, updated: 0, skipped: [] };
+      const incoming: DeployerListEntry[] = [];
+
+      for (const { line, address, reason } of parseListFile(text)) {
+        try {
+          checkEntry(address, reason);
+        } catch (error) {
+          result.skipped.push({ line, error: error instanceof Error ? error.message : 'Invalid entry' });
+          continue;
+        }
+
+        incoming.push({ address, list: kind, reason, addedAt: now(), source: 'import' });
+        if (existing.has(address)) {
+          result.updated++;
+        } else {
+          result.added++;
+          existing.add(address);
+        }
+      }
+
+      await save(merge(entries, incoming));
+      log.info('deployer list imported', { list: kind, added: result.added, updated: result.updated, skipped: result.skipped.length });
+      return result;
+    });
+  }
+
+  return {
+    list,
+    add,
+    remove,
+    importFile,
+  };
+}
+
+export type DeployerLists = ReturnType<typeof createDeployerLists>;
+
+export const deployerLists = singleton('deployerLists', () =>
+  createDeployerLists(createFileDeployerListsStore(path.join(DATA_DIR, 'deployer-lists.json')))
+);
+
+const ERROR_LABELS: Record<number, string> = {
+  400: 'Invalid list entry',
+  404: 'Not listed',
+};
+
+// The API's answer to a failed list call; body validation errors are 400s too.
+// Matched by name, as route bundles each have their own copy of the class.
+export function deployerListErrorResponse(error: unknown): NextResponse {
+  const status = error instanceof Error && error.name === 'DeployerListError'
+    ? (error as DeployerListError).status
+    : error instanceof ValidationError ? 400 : 500;
+  if (status === 500) {
+    log.error('deployer lists API error', { error });
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: ERROR_LABELS[status] || 'Failed to update deployer lists',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status }
+  );
+}
@@ -0,0 +1,76 @@
+// Structured logging
+//
+// One JSON object per line, so log shippers can index and alert on fields
+// instead of grepping free text. Fields bound with `withLogContext` (the scan
+// ID, for one) are added to every line logged inside it, including lines from
+// upstream requests made along the way. LOG_FORMAT=pretty prints a readable
+// line per entry for local development; LOG_LEVEL sets the minimum level.
+// Warnings and errors go to stderr, the rest to stdout unless
+// LOG_OUTPUT=stderr (the CLI's default, which keeps stdout for results).
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { singleton } from '@/lib/singleton';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const context = singleton('log.context', () => new AsyncLocalStorage<LogFields>());
+
+function minLevel(): number {
+  return LEVELS[process.env.LOG_LEVEL as LogLevel] ?? LEVELS.info;
+}
+
+// Errors don't survive JSON.stringify on their own
+function normalize(fields: LogFields): LogFields {
+  const output: LogFields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    output[key] = value instanceof Error ? { name: value.name, message: value.message } : value;
+  }
+  return output;
+}
+
+function format(entry: LogFields): string {
+  if (process.env.LOG_FORMAT !== 'pretty') {
+    return JSON.stringify(entry);
+  }
+
+  const { time, level, msg, ...fields } = entry;
+  const details = Object.entries(fields)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(' ');
+  return `${time} ${String(level).toUpperCase().padEnd(5)} ${msg}${details ? ` ${details}` : ''}`;
+}
+
+function write(level: LogLevel, msg: string, fields: LogFields = {}) {
+  if (LEVELS[level] < minLevel()) return;
+
+  const line = format({
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...context.getStore(),
+    ...normalize(fields),
+  });
+
+  if (level === 'error' || level === 'warn' || process.env.LOG_OUTPUT === 'stderr') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export const log = {
+  debug: (msg: string, fields?: LogFields) => write('debug', msg, fields),
+  info: (msg: string, fields?: LogFields) => write('info', msg, fields),
+  warn: (msg: string, fields?: LogFields) => write('warn', msg, fields),
+  error: (msg: string, fields?: LogFields) => write('error', msg, fields),
+};
+
+// Runs `task` with `fields` added to every line it logs, nested contexts included
+export function withLogContext<T>(fields: LogFields, task: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, task);
+}
@@ -0,0 +1,157 @@
+import { DeployerProfile, HolderConcentration, TokenData, TokenDetail } from '@/lib/types';
+import { DeployerIndex, parseCreation } from '@/lib/deployers';
+import { History } from '@/lib/history';
+import { EnrichedToken, enrichTokenWithHolders } from '@/lib/enrich';
+import { fetchConcentration } from '@/lib/holders';
+import { ChainProvider, FeedToken, Providers } from '@/lib/providers';
+import { fetchEarliestSignatures } from '@/lib/signatures';
+import { ScanContext } from '@/lib/scan';
+import { log } from '@/lib/log';
+
+// On-demand token lookup
+//
+// Builds the full detail view for any mint, including ones the backend feed
+// never returned: metadata comes from DexScreener and the creator from the
+// mint's first transaction.
+
+export async function findCreation(
+  chain: ChainProvider,
+  tokenMint: string
+): Promise<{ creator: string; createdAt: number } | null> {
+  const [oldest] = await fetchEarliestSignatures(chain, tokenMint, 1);
+  if (!oldest) {
+    return null;
+  }
+
+  const tx = await chain.fetchTransaction(oldest.signature);
+  const creation = parseCreation(tx);
+  if (!creation || creation.mint !== tokenMint) {
+    return null;
+  }
+
+  const blockTime = tx?.blockTime ?? oldest.blockTime;
+  return { creator: creation.creator, createdAt: blockTime ? blockTime * 1000 : 0 };
+}
+
+export async function resolveFeedToken(tokenMint: string, providers: Providers): Promise<FeedToken> {
+  const [pairs, creation] = await Promise.all([
+    providers.market.fetchPairs(tokenMint).catch((error) => {
+      log.warn('error fetching pairs', { mint: tokenMint, error });
+      return [];
+    }),
+    findCreation(providers.chain, tokenMint).catch((error) => {
+      log.warn('error finding creation', { mint: tokenMint, error });
+      return null;
+    }),
+  ]);
+
+  const baseToken = pairs.find((pair) => pair?.baseToken?.address === tokenMint)?.baseToken;
+
+  return {
+    mint: tokenMint,
+    name: baseToken?.name || 'Unknown',
+    symbol: baseToken?.symbol || tokenMint.substring(0, 6),
+    creator: creation?.creator,
+    createdAt: creation?.createdAt || pairs[0]?.pairCreatedAt || 0,
+  };
+}
+
+export interface LookupSnapshot {
+  tokens: TokenData[];
+  candidates: EnrichedToken[];
+  lastUpdated: number;
+}
+
+// The last scan's data for the mint, unless `fresh`. Anything else is
+// enriched on demand, which costs dozens of upstream requests.
+export function scannedToken(tokenMint: string, snapshot: LookupSnapshot, fresh: boolean = false): EnrichedToken | undefined {
+  return fresh ? undefined : snapshot.candidates.find((candidate) => candidate.mint === tokenMint);
+}
+
+// Uses the last scan's data for the mint when it has it, unless `fresh`
+export async function getTokenDetail(
+  tokenMint: string,
+  context: ScanContext,
+  snapshot: LookupSnapshot,
+  fresh: boolean = false
+): Promise<TokenDetail> {
+  const { providers, deployers, risk } = context;
+
+  let token = scannedToken(tokenMint, snapshot, fresh);
+  let scannedAt = snapshot.lastUpdated;
+  // Scans keep the holder fields but not the list, so it's fetched again
+  // unless the token was just enriched
+  let concentration: HolderConcentration | null | undefined;
+
+  if (!token) {
+    const resolved = await resolveFeedToken(tokenMint, providers);
+
+    if (resolved.creator) {
+      deployers.recordLaunch(resolved.creator, {
+        mint: resolved.mint,
+        name: resolved.name,
+        symbol: resolved.symbol,
+        createdAt: resolved.createdAt,
+        source: 'rpc',
+      });
+    }
+
+    ({ token, concentration } = await enrichTokenWithHolders(resolved, providers, deployers, risk));
+    scannedAt = Date.now();
+  }
+
+  const [deployer, holders] = await Promise.all([
+    deployers.getStats(token.deployer),
+    concentration !== undefined
+      ? concentration
+      : fetchConcentration(providers.chain, tokenMint, token.deployer).catch((error) => {
+        log.warn('error fetching concentration', { mint: tokenMint, error });
+        return null;
+      }),
+  ]);
+
+  const rank = snapshot.tokens.find((ranked) => ranked.mint === tokenMint)?.rank ?? 0;
+
+  return {
+    token: { ...token, rank },
+    deployer,
+    launches: deployers.getLaunches(token.deployer),
+    concentration: holders,
+    scannedAt,
+  };
+}
+
+// Every known launch with its outcome. Peak market cap is the highest of what
+// the snapshot store recorded and what DexScreener reports now, so it is only
+// as complete as our own history for tokens that peaked before we saw them.
+export async function getDeployerProfile(
+  address: string,
+  deployers: DeployerIndex,
+  history?: History
+): Promise<DeployerProfile> {
+  const stats = await deployers.getStats(address);
+  const launches = deployers.getLaunches(address);
+
+  const peaks = history
+    ? await history.peakMarketCaps(launches.map((launch) => launch.mint)).catch((error) => {
+        log.warn('error reading peak market caps', { deployer: address, error });
+        return new Map<string, number>();
+      })
+    : new Map<string, number>();
+
+  return {
+    stats,
+    launches: launches.map((launch) => {
+      const peakMarketCap = Math.max(peaks.get(launch.mint) ?? 0, launch.marketCap ?? 0);
+      const graduatedAfter = launch.graduatedAt && launch.createdAt
+        ? launch.graduatedAt - launch.createdAt
+        : undefined;
+
+      return {
+        ...launch,
+        peakMarketCap: peakMarketCap || undefined,
+        timeToGraduation: graduatedAfter !== undefined && graduatedAfter >= 0 ? graduatedAfter : undefined,
+      };
+    }),
+  };
+}
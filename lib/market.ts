@@ -0,0 +1,129 @@
+import { MarketCapSource } from '@/lib/types';
+import { DexPair, MarketDataProvider } from '@/lib/providers';
+import { hasMigratedPair } from '@/lib/dexscreener';
+import { WSOL_MINT } from '@/lib/solana';
+import { singleton } from '@/lib/singleton';
+import { log } from '@/lib/log';
+
+// Market data
+//
+// Summarises a token's DexScreener pairs. Price, price change and market cap
+// come from the canonical pair (the deepest by liquidity); volume and buy/sell
+// counts are summed across every pair, since trading is split between them
+// once a token migrates. Liquidity is never used as a stand-in for market cap.
+
+export interface MarketData {
+  marketCap: number;
+  marketCapSource: MarketCapSource;
+  priceUsd?: number;
+  // Canonical pair only
+  liquidityUsd?: number;
+  pairAddress?: string;
+  dexId?: string;
+  pairCount: number;
+  // Listed on an AMM, i.e. graduated from the bonding curve
+  migrated: boolean;
+  // Set when DexScreener couldn't be reached or returned something unusable
+  error?: string;
+  volume5m?: number;
+  volume1h?: number;
+  volume24h?: number;
+  priceChange5m?: number;
+  priceChange1h?: number;
+  priceChange24h?: number;
+  buys5m?: number;
+  sells5m?: number;
+  buys1h?: number;
+  sells1h?: number;
+  buys24h?: number;
+  sells24h?: number;
+}
+
+const EMPTY: MarketData = { marketCap: 0, marketCapSource: 'none', pairCount: 0, migrated: false };
+
+const SOL_PRICE_TTL = 60 * 1000; // 1 minute
+
+// Undefined when no pair reports the value
+function sum(pairs: DexPair[], pick: (pair: DexPair) => number | undefined): number | undefined {
+  const values = pairs.map(pick).filter((value): value is number => value !== undefined);
+  return values.length > 0 ? values.reduce((total, value) => total + value, 0) : undefined;
+}
+
+// Pairs that trade this token as the base token, deepest first
+export function rankPairs(pairs: DexPair[], tokenMint: string): DexPair[] {
+  const own = pairs.filter((pair) => pair.baseToken.address === tokenMint);
+  return (own.length > 0 ? own : pairs)
+    .slice()
+    .sort((a, b) => (b.liquidity?.usd ?? 0) - (a.liquidity?.usd ?? 0));
+}
+
+// Circulating market cap when listed, otherwise fully diluted
+export function pairMarketCap(pair?: DexPair): { marketCap: number; source: MarketCapSource } {
+  if (pair?.marketCap) return { marketCap: pair.marketCap, source: 'marketCap' };
+  if (pair?.fdv) return { marketCap: pair.fdv, source: 'fdv' };
+  return { marketCap: 0, source: 'none' };
+}
+
+export function summarizePairs(pairs: DexPair[], tokenMint: string): MarketData {
+  const ranked = rankPairs(pairs, tokenMint);
+  const canonical = ranked[0];
+  if (!canonical) return EMPTY;
+
+  // Fall back to the next deepest pair that reports a market cap
+  const withMarketCap = ranked.find((pair) => pairMarketCap(pair).source !== 'none');
+  const { marketCap, source } = pairMarketCap(withMarketCap);
+
+  return {
+    marketCap,
+    marketCapSource: source,
+    priceUsd: canonical.priceUsd,
+    liquidityUsd: canonical.liquidity?.usd,
+    pairAddress: canonical.pairAddress,
+    dexId: canonical.dexId,
+    pairCount: ranked.length,
+    migrated: hasMigratedPair(ranked),
+    volume5m: sum(ranked, (pair) => pair.volume?.m5),
+    volume1h: sum(ranked, (pair) => pair.volume?.h1),
+    volume24h: sum(ranked, (pair) => pair.volume?.h24),
+    priceChange5m: canonical.priceChange?.m5,
+    priceChange1h: canonical.priceChange?.h1,
+    priceChange24h: canonical.priceChange?.h24,
+    buys5m: sum(ranked, (pair) => pair.txns?.m5?.buys),
+    sells5m: sum(ranked, (pair) => pair.txns?.m5?.sells),
+    buys1h: sum(ranked, (pair) => pair.txns?.h1?.buys),
+    sells1h: sum(ranked, (pair) => pair.txns?.h1?.sells),
+    buys24h: sum(ranked, (pair) => pair.txns?.h24?.buys),
+    sells24h: sum(ranked, (pair) => pair.txns?.h24?.sells),
+  };
+}
+
+export async function fetchMarketData(market: MarketDataProvider, tokenMint: string): Promise<MarketData> {
+  try {
+    return summarizePairs(await market.fetchPairs(tokenMint), tokenMint);
+  } catch (error) {
+    log.warn('error fetching market data', { mint: tokenMint, error });
+    return { ...EMPTY, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+// SOL/USD from the deepest wrapped-SOL pair, cached briefly since every
+// bonding-curve token needs it
+export async function fetchSolPrice(market: MarketDataProvider): Promise<number | undefined> {
+  const cache = singleton('market.solPrice', () => ({ price: undefined as number | undefined, fetchedAt: 0 }));
+  if (cache.price !== undefined && Date.now() - cache.fetchedAt < SOL_PRICE_TTL) {
+    return cache.price;
+  }
+
+  try {
+    const { priceUsd } = summarizePairs(await market.fetchPairs(WSOL_MINT), WSOL_MINT);
+    if (priceUsd) {
+      cache.price = priceUsd;
+      cache.fetchedAt = Date.now();
+    }
+  } catch (error) {
+    log.warn('error fetching SOL price', { error });
+  }
+
+  // A stale price beats none
+  return cache.price;
+}
@@ -0,0 +1,137 @@
+// Metrics
+//
+// A small Prometheus registry: counters, gauges and histograms with labels,
+// rendered in the text exposition format by /api/metrics. Metrics are
+// declared next to the code that records them; declaring the same name twice
+// (e.g. from two route bundles) returns the existing metric.
+
+import { singleton } from '@/lib/singleton';
+
+export type Labels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface Series {
+  labels: Labels;
+  value: number;
+  // Histograms only: per-bucket counts (not cumulative) and the sum
+  buckets?: number[];
+  sum?: number;
+}
+
+interface Family {
+  name: string;
+  help: string;
+  type: MetricType;
+  bounds: number[];
+  series: Map<string, Series>;
+}
+
+export const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const registry = singleton('metrics.registry', () => new Map<string, Family>());
+
+function family(name: string, help: string, type: MetricType, bounds: number[] = []): Family {
+  let existing = registry.get(name);
+  if (!existing) {
+    existing = { name, help, type, bounds, series: new Map() };
+    registry.set(name, existing);
+  }
+  return existing;
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map((key) => `${key}=${labels[key]}`).join(',');
+}
+
+function series(target: Family, labels: Labels): Series {
+  const key = labelKey(labels);
+  let existing = target.series.get(key);
+  if (!existing) {
+    existing = { labels, value: 0 };
+    if (target.type === 'histogram') {
+      existing.buckets = target.bounds.map(() => 0);
+      existing.sum = 0;
+    }
+    target.series.set(key, existing);
+  }
+  return existing;
+}
+
+export function createCounter(name: string, help: string) {
+  const target = family(name, help, 'counter');
+  return {
+    inc(labels: Labels = {}, amount = 1) {
+      series(target, labels).value += amount;
+    },
+  };
+}
+
+export function createGauge(name: string, help: string) {
+  const target = family(name, help, 'gauge');
+  return {
+    set(labels: Labels, value: number) {
+      series(target, labels).value = value;
+    },
+  };
+}
+
+export function createHistogram(name: string, help: string, bounds: number[] = DURATION_BUCKETS) {
+  const target = family(name, help, 'histogram', bounds);
+  return {
+    observe(labels: Labels, value: number) {
+      const entry = series(target, labels);
+      entry.value += 1;
+      entry.sum! += value;
+      const index = target.bounds.findIndex((bound) => value <= bound);
+      if (index >= 0) entry.buckets![index] += 1;
+    },
+  };
+}
+
+export type Counter = ReturnType<typeof createCounter>;
+export type Gauge = ReturnType<typeof createGauge>;
+export type Histogram = ReturnType<typeof createHistogram>;
+
+function escape(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escape(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+// Prometheus text format, version 0.0.4
+export function renderMetrics(): string {
+  const lines: string[] = [];
+
+  for (const metric of registry.values()) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+    for (const entry of metric.series.values()) {
+      if (metric.type !== 'histogram') {
+        lines.push(`${metric.name}${formatLabels(entry.labels)} ${formatValue(entry.value)}`);
+        continue;
+      }
+
+      let cumulative = 0;
+      metric.bounds.forEach((bound, index) => {
+        cumulative += entry.buckets![index];
+        lines.push(`${metric.name}_bucket${formatLabels({ ...entry.labels, le: String(bound) })} ${cumulative}`);
+      });
+      lines.push(`${metric.name}_bucket${formatLabels({ ...entry.labels, le: '+Inf' })} ${entry.value}`);
+      lines.push(`${metric.name}_sum${formatLabels(entry.labels)} ${entry.sum}`);
+      lines.push(`${metric.name}_count${formatLabels(entry.labels)} ${entry.value}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
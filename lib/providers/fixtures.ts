@@ -0,0 +1,142 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import {
+  ChainProvider,
+  FeedPage,
+  MarketDataProvider,
+  MintInfo,
+  ParsedTransaction,
+  SignatureInfo,
+  TokenAccount,
+  TokenFeedProvider,
+} from '@/lib/providers/types';
+import { parseFeedPage, parsePairs } from '@/lib/providers/schemas';
+import { SYSTEM_PROGRAM_ID } from '@/lib/solana';
+
+// Fixture-backed providers
+//
+// Serve recorded upstream data from a directory on disk so the scan and the
+// UI can run with no network:
+//
+//   <dir>/feed.json    { "tokens": [...], "count": n, "totalStored": n }
+//   <dir>/market.json  { "<mint>": [ ...DexScreener pairs ] }
+//   <dir>/chain.json   { "tokenAccounts": { "<mint>": [{ "address", "owner", "amount" }] },
+//                        "accountOwners": { "<address>": "<program id>" },
+//                        "supply": { "<mint>": n },
+//                        "mints": { "<mint>": { "program", "decimals", "mintAuthority", "freezeAuthority" } },
+//                        "accounts": { "<address>": "<base64 account data>" },
+//                        "signatures": { "<address>": [...] },
+//                        "transactions": { "<signature>": {...} } }
+
+interface ChainFixture {
+  tokenAccounts?: Record<string, TokenAccount[]>;
+  accountOwners?: Record<string, string>;
+  supply?: Record<string, number>;
+  mints?: Record<string, MintInfo>;
+  accounts?: Record<string, string>;
+  signatures?: Record<string, SignatureInfo[]>;
+  transactions?: Record<string, ParsedTransaction>;
+}
+
+async function readFixture<T>(dir: string, file: string): Promise<T> {
+  const contents = await readFile(path.join(dir, file), 'utf8');
+  return JSON.parse(contents) as T;
+}
+
+export function createFixtureFeed(dir: string): TokenFeedProvider {
+  return {
+    name: 'fixture',
+    async fetchTokens(limit) {
+      const page: FeedPage = parseFeedPage(await readFixture<unknown>(dir, 'feed.json'));
+      const tokens = page.tokens.slice(0, limit);
+
+      return {
+        ...page,
+        tokens,
+        count: tokens.length,
+      };
+    },
+  };
+}
+
+export function createFixtureMarket(dir: string): MarketDataProvider {
+  return {
+    name: 'fixture',
+    async fetchPairs(tokenMint) {
+      const market = await readFixture<Record<string, unknown>>(dir, 'market.json');
+      return parsePairs(market[tokenMint], tokenMint);
+    },
+  };
+}
+
+export function createFixtureChain(dir: string): ChainProvider {
+  return {
+    name: 'fixture',
+    async fetchTokenAccounts(tokenMint) {
+      const chain = await readFixture<ChainFixture>(dir, 'chain.json');
+      const accounts = chain.tokenAccounts?.[tokenMint];
+
+      if (accounts === undefined) {
+        throw new Error(`No recorded token accounts for ${tokenMint}`);
+      }
+
+      return accounts;
+    },
+    async fetchAccountOwners(addresses) {
+      const chain = await readFixture<ChainFixture>(dir, 'chain.json');
+      // Unrecorded addresses are treated as plain system-owned wallets
+      return Object.fromEntries(
+        addresses.map((address) => [address, chain.accountOwners?.[address] ?? SYSTEM_PROGRAM_ID])
+      );
+    },
+    async fetchTokenSupply(tokenMint) {
+      const chain = await readFixture<ChainFixture>(dir, 'chain.json');
+      const supply = chain.supply?.[tokenMint];
+
+      if (supply === undefined) {
+        throw new Error(`No recorded supply for ${tokenMint}`);
+      }
+
+      return supply;
+    },
+    async fetchMintInfo(tokenMint) {
+      const chain = await readFixture<ChainFixture>(dir, 'chain.json');
+      const info = chain.mints?.[tokenMint];
+
+      if (info === undefined) {
+        throw new Error(`No recorded mint info for ${tokenMint}`);
+      }
+
+      return info;
+    },
+    async fetchAccountData(address) {
+      const chain = await readFixture<ChainFixture>(dir, 'chain.json');
+      // Unrecorded accounts don't exist
+      return chain.accounts?.[address] ?? null;
+    },
+    async fetchSignatures(address, options) {
+      const chain = await readFixture<ChainFixture>(dir, 'chain.json');
+      let signatures = chain.signatures?.[address] || [];
+
+      // Signatures are recorded newest first, like getSignaturesForAddress
+      const indexOf = (signature?: string) =>
+        signature ? signatures.findIndex((s) => s.signature === signature) : -1;
+
+      const beforeIndex = indexOf(options.before);
+      if (beforeIndex >= 0) {
+        signatures = signatures.slice(beforeIndex + 1);
+      }
+
+      const untilIndex = indexOf(options.until);
+      if (untilIndex >= 0) {
+        signatures = signatures.slice(0, untilIndex);
+      }
+
+      return signatures.slice(0, options.limit);
+    },
+    async fetchTransaction(signature) {
+      const chain = await readFixture<ChainFixture>(dir, 'chain.json');
+      return chain.transactions?.[signature] ?? null;
+    },
+  };
+}
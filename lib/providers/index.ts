@@ -0,0 +1,58 @@
+import path from 'path';
+import { ChainProvider, MarketDataProvider, Providers, TokenFeedProvider } from '@/lib/providers/types';
+import { createBackendFeed, createDexScreenerMarket, createRpcChain } from '@/lib/providers/live';
+import { createFixtureChain, createFixtureFeed, createFixtureMarket } from '@/lib/providers/fixtures';
+import { DEFAULT_SOLANA_RPC_URL } from '@/lib/solana';
+import { singleton } from '@/lib/singleton';
+
+export * from '@/lib/providers/types';
+
+type Env = Record<string, string | undefined>;
+
+// Your Railway backend URL
+const DEFAULT_BACKEND_URL = 'https://your-backend.railway.app';
+const DEFAULT_FIXTURES_DIR = 'fixtures/default';
+
+function fixturesDir(env: Env): string {
+  return path.resolve(process.cwd(), env.FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+}
+
+// Register alternate implementations here; they are selected by name from env
+const feedProviders: Record<string, (env: Env) => TokenFeedProvider> = {
+  live: (env) => createBackendFeed(env.BACKEND_URL || DEFAULT_BACKEND_URL),
+  fixture: (env) => createFixtureFeed(fixturesDir(env)),
+};
+
+const marketProviders: Record<string, (env: Env) => MarketDataProvider> = {
+  live: () => createDexScreenerMarket(),
+  fixture: (env) => createFixtureMarket(fixturesDir(env)),
+};
+
+const chainProviders: Record<string, (env: Env) => ChainProvider> = {
+  live: (env) => createRpcChain(env.SOLANA_RPC_URL || DEFAULT_SOLANA_RPC_URL),
+  fixture: (env) => createFixtureChain(fixturesDir(env)),
+};
+
+function select<T>(registry: Record<string, (env: Env) => T>, kind: string, env: Env): T {
+  const factory = registry[kind];
+  if (!factory) {
+    throw new Error(`Unknown provider "${kind}" (expected one of: ${Object.keys(registry).join(', ')})`);
+  }
+  return factory(env);
+}
+
+// DATA_PROVIDER picks the default for every source; FEED_PROVIDER,
+// MARKET_PROVIDER and CHAIN_PROVIDER override it per source.
+export function createProviders(env: Env = process.env): Providers {
+  const fallback = env.DATA_PROVIDER || 'live';
+
+  return {
+    feed: select(feedProviders, env.FEED_PROVIDER || fallback, env),
+    market: select(marketProviders, env.MARKET_PROVIDER || fallback, env),
+    chain: select(chainProviders, env.CHAIN_PROVIDER || fallback, env),
+  };
+}
+
+export function getProviders(): Providers {
+  return singleton('providers', () => createProviders());
+}
@@ -0,0 +1,154 @@
+import { ChainProvider, MarketDataProvider, MintInfo, ParsedTransaction, TokenFeedProvider } from '@/lib/providers/types';
+import {
+  createRpcCall,
+  decodeOwnerAndAmount,
+  TOKEN_ACCOUNT_OWNER_OFFSET,
+  TOKEN_ACCOUNT_SIZE,
+  TOKEN_PROGRAM_ID,
+  TOKEN_PROGRAMS,
+} from '@/lib/solana';
+import {
+  AccountDataSchema,
+  MintAccountSchema,
+  MultipleAccountsSchema,
+  ParsedMintSchema,
+  ProgramAccountsSchema,
+  SignaturesSchema,
+  TokenSupplySchema,
+  parseFeedPage,
+  parsePairs,
+} from '@/lib/providers/schemas';
+import { DEXSCREENER_API_URL } from '@/lib/dexscreener';
+import { upstreamFetch } from '@/lib/http';
+
+export function createBackendFeed(backendUrl: string): TokenFeedProvider {
+  return {
+    name: 'backend',
+    async fetchTokens(limit) {
+      const response = await upstreamFetch(`${backendUrl}/api/tokens?limit=${limit}`, {
+        headers: {
+          'Accept': 'application/json',
+        },
+        cache: 'no-store',
+      }, { upstream: 'backend' });
+
+      if (!response.ok) {
+        throw new Error(`Backend API error: ${response.status} ${response.statusText}`);
+      }
+
+      return parseFeedPage(await response.json());
+    },
+  };
+}
+
+export function createDexScreenerMarket(apiUrl: string = DEXSCREENER_API_URL): MarketDataProvider {
+  return {
+    name: 'dexscreener',
+    async fetchPairs(tokenMint) {
+      const response = await upstreamFetch(`${apiUrl}/latest/dex/tokens/${tokenMint}`, {
+        headers: {
+          'Accept': 'application/json',
+        },
+        cache: 'no-store',
+      }, { upstream: 'dexscreener' });
+
+      if (!response.ok) {
+        throw new Error(`DexScreener error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return parsePairs(data?.pairs, tokenMint);
+    },
+  };
+}
+
+// getMultipleAccounts limit per request
+const MAX_MULTIPLE_ACCOUNTS = 100;
+
+export function createRpcChain(rpcUrl: string): ChainProvider {
+  const rpc = createRpcCall(rpcUrl);
+
+  async function getMint(tokenMint: string): Promise<MintInfo> {
+    const { value } = MintAccountSchema(await rpc('getAccountInfo', [tokenMint, { encoding: 'jsonParsed' }]));
+
+    if (!value || !TOKEN_PROGRAMS.includes(value.owner)) {
+      throw new Error(`${tokenMint} is not a token mint`);
+    }
+
+    const parsed = ParsedMintSchema((value.data as { parsed?: unknown })?.parsed, 'value.data.parsed');
+    if (parsed.type !== 'mint') {
+      throw new Error(`${tokenMint} is not a token mint`);
+    }
+
+    return { program: value.owner, ...parsed.info };
+  }
+
+  return {
+    name: 'rpc',
+    async fetchTokenAccounts(tokenMint) {
+      const mint = await getMint(tokenMint);
+
+      // Legacy token accounts are a fixed size. Token-2022 accounts grow with
+      // extensions, so they're matched on the mint alone; mint and multisig
+      // accounts never start with a mint address.
+      const filters: object[] = [{ memcmp: { offset: 0, bytes: tokenMint } }];
+      if (mint.program === TOKEN_PROGRAM_ID) {
+        filters.push({ dataSize: TOKEN_ACCOUNT_SIZE });
+      }
+
+      // Only the owner and amount (40 bytes) are fetched per account, which
+      // keeps responses for tokens with many holders within RPC limits
+      const accounts = ProgramAccountsSchema(await rpc('getProgramAccounts', [
+        mint.program,
+        {
+          encoding: 'base64',
+          dataSlice: { offset: TOKEN_ACCOUNT_OWNER_OFFSET, length: 40 },
+          filters,
+        },
+      ]));
+
+      return accounts.map((account) => ({
+        address: account.pubkey,
+        ...decodeOwnerAndAmount(account.account.data[0], mint.decimals),
+      }));
+    },
+    async fetchAccountOwners(addresses) {
+      const owners: Record<string, string | null> = {};
+
+      for (let i = 0; i < addresses.length; i += MAX_MULTIPLE_ACCOUNTS) {
+        const batch = addresses.slice(i, i + MAX_MULTIPLE_ACCOUNTS);
+        // Only the owner is needed, so skip the account data
+        const result = MultipleAccountsSchema(await rpc('getMultipleAccounts', [
+          batch,
+          { encoding: 'base64', dataSlice: { offset: 0, length: 0 } },
+        ]));
+
+        batch.forEach((address, index) => {
+          owners[address] = result.value[index]?.owner ?? null;
+        });
+      }
+
+      return owners;
+    },
+    async fetchTokenSupply(tokenMint) {
+      const { value } = TokenSupplySchema(await rpc('getTokenSupply', [tokenMint]));
+      return Number(value.amount) / 10 ** value.decimals;
+    },
+    async fetchMintInfo(tokenMint) {
+      return getMint(tokenMint);
+    },
+    async fetchAccountData(address) {
+      const { value } = AccountDataSchema(await rpc('getAccountInfo', [address, { encoding: 'base64' }]));
+      return value ? value.data[0] : null;
+    },
+    async fetchSignatures(address, options) {
+      return SignaturesSchema(await rpc('getSignaturesForAddress', [address, options]));
+    },
+    async fetchTransaction(signature) {
+      return rpc<ParsedTransaction | null>('getTransaction', [
+        signature,
+        { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 },
+      ]);
+    },
+  };
+}
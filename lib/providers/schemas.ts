@@ -0,0 +1,159 @@
+import {
+  Infer,
+  Schema,
+  array,
+  nullable,
+  number,
+  numeric,
+  object,
+  optional,
+  parseEach,
+  string,
+  tuple,
+  unknown,
+} from '@/lib/schema';
+import { log } from '@/lib/log';
+
+// Upstream payload schemas
+//
+// What the backend feed, DexScreener and the Solana RPC are expected to
+// return. Live and fixture providers both validate through these, so
+// recorded data is held to the same shape as live responses.
+
+// Backend feed
+
+export const FeedTokenSchema = object({
+  mint: string,
+  name: string,
+  symbol: string,
+  creator: optional(string),
+  createdAt: number,
+});
+
+export const FeedResponseSchema = object({
+  tokens: array(unknown),
+  count: optional(number),
+  totalStored: optional(number),
+});
+
+// Feed entries that failed validation
+export interface InvalidFeedToken {
+  mint?: string;
+  error: string;
+}
+
+// Invalid tokens are set aside rather than failing the whole page
+export function parseFeedPage(data: unknown) {
+  const page = FeedResponseSchema(data);
+  const { valid, invalid } = parseEach(page.tokens, FeedTokenSchema, 'tokens');
+
+  return {
+    tokens: valid,
+    count: page.count,
+    totalStored: page.totalStored,
+    invalid: invalid.map(({ value, error }): InvalidFeedToken => {
+      const mint = (value as { mint?: unknown } | null)?.mint;
+      return { mint: typeof mint === 'string' ? mint : undefined, error: error.message };
+    }),
+  };
+}
+
+// DexScreener
+
+function windows<T>(item: Schema<T>) {
+  return optional(object({
+    m5: optional(item),
+    h1: optional(item),
+    h6: optional(item),
+    h24: optional(item),
+  }));
+}
+
+const DexTokenSchema = object({
+  address: string,
+  name: optional(string),
+  symbol: optional(string),
+});
+
+export const DexPairSchema = object({
+  chainId: optional(string),
+  dexId: string,
+  pairAddress: optional(string),
+  baseToken: DexTokenSchema,
+  quoteToken: optional(DexTokenSchema),
+  priceUsd: optional(numeric),
+  priceNative: optional(numeric),
+  fdv: optional(number),
+  marketCap: optional(number),
+  liquidity: optional(object({ usd: optional(number) })),
+  volume: windows(number),
+  priceChange: windows(number),
+  txns: windows(object({ buys: number, sells: number })),
+  pairCreatedAt: optional(number),
+});
+
+export type DexPair = Infer<typeof DexPairSchema>;
+
+// Malformed pairs are dropped with a warning; only a payload with nothing
+// usable is an error
+export function parsePairs(data: unknown, tokenMint: string): DexPair[] {
+  const pairs = nullable(array(unknown))(data, 'pairs') || [];
+  const { valid, invalid } = parseEach(pairs, DexPairSchema, 'pairs');
+
+  if (invalid.length > 0) {
+    if (valid.length === 0) {
+      throw invalid[0].error;
+    }
+    log.warn('malformed DexScreener pairs dropped', {
+      mint: tokenMint,
+      count: invalid.length,
+      error: invalid[0].error.message,
+    });
+  }
+
+  return valid;
+}
+
+// Solana RPC results
+
+const AccountDataTupleSchema = tuple<[string, string]>(string, string);
+
+export const ProgramAccountsSchema = array(object({
+  pubkey: string,
+  account: object({ data: AccountDataTupleSchema }),
+}));
+
+export const MultipleAccountsSchema = object({
+  value: array(nullable(object({ owner: string }))),
+});
+
+export const TokenSupplySchema = object({
+  value: object({ amount: string, decimals: number }),
+});
+
+export const MintAccountSchema = object({
+  value: nullable(object({
+    owner: string,
+    data: unknown,
+  })),
+});
+
+export const ParsedMintSchema = object({
+  type: string,
+  info: object({
+    decimals: number,
+    mintAuthority: nullable(string),
+    freezeAuthority: nullable(string),
+  }),
+});
+
+export const AccountDataSchema = object({
+  value: nullable(object({ data: AccountDataTupleSchema })),
+});
+
+export const SignaturesSchema = array(object({
+  signature: string,
+  slot: optional(number),
+  blockTime: nullable(number),
+  err: unknown,
+}));
@@ -0,0 +1,133 @@
+import { DexPair, InvalidFeedToken } from '@/lib/providers/schemas';
+
+// Data-source provider interfaces
+//
+// The scan only talks to upstreams through these, so the live HTTP
+// implementations can be swapped for fixtures or alternate RPCs/price sources.
+// Implementations validate what they return (see schemas.ts).
+
+export type { DexPair, InvalidFeedToken };
+
+export interface FeedToken {
+  mint: string;
+  name: string;
+  symbol: string;
+  creator?: string;
+  createdAt: number;
+}
+
+export interface FeedPage {
+  tokens: FeedToken[];
+  count?: number;
+  totalStored?: number;
+  // Entries left out because they failed validation
+  invalid?: InvalidFeedToken[];
+}
+
+export interface TokenAccount {
+  address: string;
+  // Wallet (or program-derived address) that owns the token account
+  owner: string;
+  amount: number;
+}
+
+export interface MintInfo {
+  // Token program that owns the mint: SPL Token or Token-2022
+  program: string;
+  decimals: number;
+  // null once revoked
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+}
+
+export interface SignatureInfo {
+  signature: string;
+  slot?: number;
+  blockTime?: number | null;
+  err?: unknown;
+}
+
+// A jsonParsed instruction. Only the system and SPL Token programs'
+// instructions come with `parsed`; the rest keep their raw accounts.
+export interface ParsedInstruction {
+  program?: string;
+  programId?: string;
+  accounts?: string[];
+  parsed?: {
+    type?: string;
+    info?: {
+      mint?: string;
+      source?: string;
+      destination?: string;
+      [field: string]: unknown;
+    };
+  };
+}
+
+export interface ParsedTokenBalance {
+  mint?: string;
+  owner?: string;
+  uiTokenAmount?: { uiAmount?: number | null; uiAmountString?: string };
+}
+
+// The parts of a jsonParsed getTransaction result that the parsers read.
+// It isn't validated, so any field may be missing.
+export interface ParsedTransaction {
+  slot?: number;
+  blockTime?: number | null;
+  transaction?: {
+    signatures?: string[];
+    message?: {
+      // Objects with jsonParsed, plain addresses otherwise
+      accountKeys?: (string | { pubkey: string })[];
+      instructions?: ParsedInstruction[];
+    };
+  };
+  meta?: {
+    err?: unknown;
+    logMessages?: string[];
+    innerInstructions?: { instructions?: ParsedInstruction[] }[];
+    preTokenBalances?: ParsedTokenBalance[];
+    postTokenBalances?: ParsedTokenBalance[];
+  } | null;
+}
+
+// Source of newly launched tokens (the Railway backend)
+export interface TokenFeedProvider {
+  name: string;
+  fetchTokens(limit: number): Promise<FeedPage>;
+}
+
+// Source of DEX pair data (DexScreener)
+export interface MarketDataProvider {
+  name: string;
+  fetchPairs(tokenMint: string): Promise<DexPair[]>;
+}
+
+// Source of on-chain data (Solana RPC)
+export interface ChainProvider {
+  name: string;
+  // Every token account for the mint under whichever token program owns it,
+  // amounts in UI units
+  fetchTokenAccounts(tokenMint: string): Promise<TokenAccount[]>;
+  // Program that owns each account; null for accounts that don't exist
+  fetchAccountOwners(addresses: string[]): Promise<Record<string, string | null>>;
+  fetchTokenSupply(tokenMint: string): Promise<number>;
+  fetchMintInfo(tokenMint: string): Promise<MintInfo>;
+  // Raw account data, base64; null when the account doesn't exist
+  fetchAccountData(address: string): Promise<string | null>;
+  // Newest first, like getSignaturesForAddress
+  fetchSignatures(
+    address: string,
+    options: { limit: number; until?: string; before?: string }
+  ): Promise<SignatureInfo[]>;
+  // Parsed defensively by its callers rather than validated; null when the
+  // RPC doesn't have it
+  fetchTransaction(signature: string): Promise<ParsedTransaction | null>;
+}
+
+export interface Providers {
+  feed: TokenFeedProvider;
+  market: MarketDataProvider;
+  chain: ChainProvider;
+}
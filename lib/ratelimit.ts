@@ -0,0 +1,74 @@
+// Request rate limiting
+//
+// Token buckets keyed by caller (an API key or an IP address). Unlike the
+// upstream limiter in http.ts, which waits for a slot, this one answers
+// straight away so the API can turn the caller away with a 429.
+
+import { singleton } from '@/lib/singleton';
+
+export interface RateLimit {
+  requestsPerMinute: number;
+  burst: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the next request would be allowed; 0 when allowed
+  retryAfter: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Buckets idle this long are full again and can be dropped
+const IDLE_AFTER = 10 * 60 * 1000; // 10 minutes
+const SWEEP_INTERVAL = 60 * 1000;
+
+const state = singleton('ratelimit', () => ({
+  buckets: new Map<string, Bucket>(),
+  sweptAt: Date.now(),
+}));
+
+function sweep(now: number) {
+  if (now - state.sweptAt < SWEEP_INTERVAL) return;
+  state.sweptAt = now;
+
+  state.buckets.forEach((bucket, key) => {
+    if (now - bucket.updatedAt > IDLE_AFTER) {
+      state.buckets.delete(key);
+    }
+  });
+}
+
+// Takes one request from `key`'s bucket if there is one to take
+export function takeToken(key: string, limit: RateLimit): RateLimitResult {
+  const now = Date.now();
+  sweep(now);
+
+  const ratePerMs = limit.requestsPerMinute / (60 * 1000);
+  const bucket = state.buckets.get(key) || { tokens: limit.burst, updatedAt: now };
+  bucket.tokens = Math.min(limit.burst, bucket.tokens + (now - bucket.updatedAt) * ratePerMs);
+  bucket.updatedAt = now;
+  state.buckets.set(key, bucket);
+
+  if (bucket.tokens < 1) {
+    return {
+      allowed: false,
+      limit: limit.requestsPerMinute,
+      remaining: 0,
+      retryAfter: Math.max(1, Math.ceil((1 - bucket.tokens) / ratePerMs / 1000)),
+    };
+  }
+
+  bucket.tokens -= 1;
+  return {
+    allowed: true,
+    limit: limit.requestsPerMinute,
+    remaining: Math.floor(bucket.tokens),
+    retryAfter: 0,
+  };
+}
@@ -0,0 +1,376 @@
+import { HolderConcentration, RiskFlag, RugRecord } from '@/lib/types';
+import { ChainProvider, MintInfo, ParsedTokenBalance, ParsedTransaction, getProviders } from '@/lib/providers';
+import { fetchEarliestSignatures } from '@/lib/signatures';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { formatDuration, shortAddress } from '@/lib/format';
+import { singleton } from '@/lib/singleton';
+
+// Rug-risk checks
+//
+// Scores every mint from a list of explainable flags. The on-chain facts the
+// checks need (mint authorities, the launch's first transactions, who funded
+// the deployer) are fetched through the chain provider and cached; the checks
+// themselves are pure functions over those facts. If any of those lookups
+// fails the assessment fails too, rather than scoring the token as safe on
+// partial facts.
+
+// How many of the mint's first transactions are inspected
+const EARLY_TX_LIMIT = 30;
+// Deployer sales within this long after launch count as selling early
+const SELL_WINDOW = 30 * 60 * 1000; // 30 minutes
+// Other wallets buying in the creation slot before it reads as a bundle
+const BUNDLE_MIN_WALLETS = 3;
+// Wallets buying within this many slots after creation count as snipers
+const SNIPE_SLOTS = 3;
+const SNIPE_MIN_WALLETS = 5;
+// How many of the deployer's first transactions are searched for its funding
+const FUNDING_TX_LIMIT = 3;
+// Facts for tokens still inside the sell window are re-fetched this often
+const YOUNG_TTL = 5 * 60 * 1000; // 5 minutes
+const MAX_CACHED_MINTS = 2000;
+const MAX_CACHED_DEPLOYERS = 5000;
+const MAX_RUGS = 5000;
+// pump.fun mints a fixed supply
+const PUMP_FUN_SUPPLY = 1_000_000_000;
+
+const SEVERITY_POINTS: Record<RiskFlag['severity'], number> = {
+  high: 40,
+  medium: 20,
+  low: 10,
+};
+
+export interface RiskAssessment {
+  score: number;
+  flags: RiskFlag[];
+}
+
+// One of a mint's early transactions, reduced to who traded what
+export interface LaunchTrade {
+  signature: string;
+  slot: number;
+  time: number;
+  // Fee payer
+  signer: string;
+  // Change in token balance per owner wallet
+  deltas: Record<string, number>;
+}
+
+export interface RiskFacts {
+  mintInfo: MintInfo;
+  // Oldest first, so the creation transaction comes first
+  trades: LaunchTrade[];
+}
+
+export interface RiskToken {
+  mint: string;
+  symbol: string;
+  deployer: string;
+  createdAt: number;
+}
+
+export interface RiskAnalyzerSources {
+  chain: ChainProvider;
+  now?: () => number;
+}
+
+function signerOf(tx: ParsedTransaction | null): string | undefined {
+  const key = tx?.transaction?.message?.accountKeys?.[0];
+  return typeof key === 'string' ? key : key?.pubkey;
+}
+
+export function parseTrade(tx: ParsedTransaction | null, tokenMint: string): LaunchTrade | null {
+  const signer = signerOf(tx);
+  if (!tx || tx.meta?.err || !signer) {
+    return null;
+  }
+
+  const deltas: Record<string, number> = {};
+  const apply = (balances: ParsedTokenBalance[] | undefined, sign: number) => {
+    for (const balance of balances || []) {
+      if (balance?.mint !== tokenMint || !balance.owner) continue;
+      const amount = balance.uiTokenAmount?.uiAmount ?? Number(balance.uiTokenAmount?.uiAmountString || 0);
+      deltas[balance.owner] = (deltas[balance.owner] || 0) + sign * amount;
+    }
+  };
+  apply(tx.meta?.preTokenBalances, -1);
+  apply(tx.meta?.postTokenBalances, 1);
+
+  return {
+    signature: tx.transaction?.signatures?.[0] ?? '',
+    slot: tx.slot ?? 0,
+    time: (tx.blockTime ?? 0) * 1000,
+    signer,
+    deltas,
+  };
+}
+
+// The wallet that sent `address` SOL in one of the given transactions
+export function parseFunder(txs: (ParsedTransaction | null)[], address: string): string | null {
+  for (const tx of txs) {
+    if (!tx || tx.meta?.err) continue;
+
+    const instructions = [
+      ...(tx.transaction?.message?.instructions || []),
+      ...(tx.meta?.innerInstructions || []).flatMap((inner) => inner.instructions || []),
+    ];
+    const transfer = instructions.find((ix) =>
+      ix?.program === 'system' &&
+      ix.parsed?.type === 'transfer' &&
+      ix.parsed.info?.destination === address
+    );
+
+    if (transfer?.parsed?.info?.source) {
+      return transfer.parsed.info.source;
+    }
+  }
+
+  return null;
+}
+
+export function checkAuthorities(mintInfo: MintInfo): RiskFlag[] {
+  const flags: RiskFlag[] = [];
+
+  if (mintInfo.mintAuthority) {
+    flags.push({
+      check: 'mint-authority',
+      severity: 'high',
+      label: 'MINT AUTH',
+      detail: `Mint authority is still set (${shortAddress(mintInfo.mintAuthority)}), so more supply can be minted`,
+    });
+  }
+
+  if (mintInfo.freezeAuthority) {
+    flags.push({
+      check: 'freeze-authority',
+      severity: 'high',
+      label: 'FREEZE AUTH',
+      detail: `Freeze authority is still set (${shortAddress(mintInfo.freezeAuthority)}), so holder accounts can be frozen`,
+    });
+  }
+
+  return flags;
+}
+
+// `currentBalance` is the deployer's balance now, when known, to catch
+// sales after the inspected transactions
+export function checkDeployerSales(
+  trades: LaunchTrade[],
+  deployer: string,
+  currentBalance?: number
+): RiskFlag[] {
+  if (trades.length === 0) return [];
+
+  const launchedAt = trades[0].time;
+  let bought = 0;
+  let soldEarly = 0;
+  let soldAt = 0;
+
+  for (const trade of trades) {
+    const delta = trade.deltas[deployer] || 0;
+    if (delta > 0) {
+      bought += delta;
+    } else if (delta < 0 && trade.time - launchedAt <= SELL_WINDOW) {
+      soldEarly -= delta;
+      soldAt = trade.time;
+    }
+  }
+
+  if (soldEarly > 0) {
+    const share = bought > 0 ? Math.min(100, (soldEarly / bought) * 100) : 100;
+    return [{
+      check: 'deployer-sold',
+      severity: share >= 50 ? 'high' : 'medium',
+      label: 'DEV SOLD',
+      detail: `Deployer sold ${share.toFixed(0)}% of their tokens within ${formatDuration(soldAt - launchedAt)} of launch`,
+    }];
+  }
+
+  if (bought > 0 && currentBalance !== undefined && currentBalance < bought / 2) {
+    const share = ((bought - currentBalance) / bought) * 100;
+    return [{
+      check: 'deployer-sold',
+      severity: 'medium',
+      label: 'DEV SOLD',
+      detail: `Deployer has sold ${share.toFixed(0)}% of their launch buy`,
+    }];
+  }
+
+  return [];
+}
+
+export function checkLaunchBuyers(trades: LaunchTrade[], deployer: string, supply: number): RiskFlag[] {
+  if (trades.length === 0) return [];
+
+  const creationSlot = trades[0].slot;
+  const bundled = new Map<string, number>();
+  const sniped = new Map<string, number>();
+
+  for (const trade of trades) {
+    const bought = trade.deltas[trade.signer] || 0;
+    if (trade.signer === deployer || bought <= 0) continue;
+
+    if (trade.slot === creationSlot) {
+      bundled.set(trade.signer, (bundled.get(trade.signer) || 0) + bought);
+    } else if (trade.slot - creationSlot <= SNIPE_SLOTS && !bundled.has(trade.signer)) {
+      sniped.set(trade.signer, (sniped.get(trade.signer) || 0) + bought);
+    }
+  }
+
+  const share = (buys: Map<string, number>) =>
+    (Array.from(buys.values()).reduce((sum, amount) => sum + amount, 0) / supply) * 100;
+  const flags: RiskFlag[] = [];
+
+  if (bundled.size >= BUNDLE_MIN_WALLETS) {
+    flags.push({
+      check: 'bundled-launch',
+      severity: 'high',
+      label: 'BUNDLED',
+      detail: `${bundled.size} wallets bought in the creation slot, taking ${share(bundled).toFixed(1)}% of supply`,
+    });
+  }
+
+  if (sniped.size >= SNIPE_MIN_WALLETS) {
+    flags.push({
+      check: 'sniped-launch',
+      severity: 'medium',
+      label: 'SNIPED',
+      detail: `${sniped.size} wallets bought within ${SNIPE_SLOTS} slots of creation, taking ${share(sniped).toFixed(1)}% of supply`,
+    });
+  }
+
+  return flags;
+}
+
+// `rugs` are earlier rugged launches by the deployer itself or by deployers
+// with the same funder
+export function checkFunding(deployer: string, funder: string | null, rugs: RugRecord[]): RiskFlag[] {
+  if (rugs.length === 0) return [];
+
+  const symbols = (records: RugRecord[]) => records.map((rug) => rug.symbol).join(', ');
+  const own = rugs.filter((rug) => rug.deployer === deployer);
+  const others = rugs.filter((rug) => rug.deployer !== deployer);
+  const details = [
+    own.length > 0 ? `Deployer previously rugged ${symbols(own)}` : '',
+    others.length > 0 && funder ? `Funded by ${shortAddress(funder)}, which also funded the deployers of ${symbols(others)}` : '',
+  ];
+
+  return [{
+    check: 'rug-funder',
+    severity: 'high',
+    label: 'RUG FUNDER',
+    detail: details.filter(Boolean).join('; '),
+  }];
+}
+
+export function scoreFlags(flags: RiskFlag[]): number {
+  return Math.min(100, flags.reduce((sum, flag) => sum + SEVERITY_POINTS[flag.severity], 0));
+}
+
+// Drops the oldest entry once `map` holds `max`
+function setBounded<K, V>(map: Map<K, V>, key: K, value: V, max: number) {
+  if (!map.has(key) && map.size >= max) {
+    map.delete(map.keys().next().value as K);
+  }
+  map.set(key, value);
+}
+
+export function createRiskAnalyzer(sources: RiskAnalyzerSources) {
+  const now = sources.now || Date.now;
+  const facts = new Map<string, { facts: RiskFacts; expiresAt: number }>();
+  const funders = new Map<string, string | null>();
+  // Launches whose deployer dumped early
+  const rugs = new Map<string, RugRecord>();
+
+  async function fetchTrades(tokenMint: string): Promise<LaunchTrade[]> {
+    const signatures = await fetchEarliestSignatures(sources.chain, tokenMint, EARLY_TX_LIMIT);
+    const trades = await mapWithConcurrency(signatures.filter((s) => !s.err), 4, async (signature) =>
+      parseTrade(await sources.chain.fetchTransaction(signature.signature), tokenMint)
+    );
+    return trades.filter((trade): trade is LaunchTrade => trade !== null);
+  }
+
+  async function getFacts(token: RiskToken): Promise<RiskFacts> {
+    const cached = facts.get(token.mint);
+    if (cached && cached.expiresAt > now()) {
+      return cached.facts;
+    }
+
+    // Failures aren't cached, so the next scan tries again
+    const [mintInfo, trades] = await Promise.all([
+      sources.chain.fetchMintInfo(token.mint),
+      fetchTrades(token.mint),
+    ]);
+
+    const result = { mintInfo, trades };
+    // Authorities can still be revoked and the deployer can still sell early,
+    // so only facts for tokens past the sell window are kept for good
+    const settled = !mintInfo.mintAuthority && !mintInfo.freezeAuthority && now() - token.createdAt > SELL_WINDOW;
+
+    setBounded(facts, token.mint, { facts: result, expiresAt: settled ? Infinity : now() + YOUNG_TTL }, MAX_CACHED_MINTS);
+
+    return result;
+  }
+
+  async function getFunder(deployer: string): Promise<string | null> {
+    if (funders.has(deployer)) {
+      return funders.get(deployer) ?? null;
+    }
+
+    const signatures = await fetchEarliestSignatures(sources.chain, deployer, FUNDING_TX_LIMIT);
+    const txs = await Promise.all(signatures.map((signature) => sources.chain.fetchTransaction(signature.signature)));
+    const funder = parseFunder(txs, deployer);
+
+    setBounded(funders, deployer, funder, MAX_CACHED_DEPLOYERS);
+    return funder;
+  }
+
+  // Rugs launched before `token` by its deployer or any deployer with the same funder
+  function previousRugs(funder: string | null, token: RiskToken): RugRecord[] {
+    return Array.from(rugs.values()).filter((rug) =>
+      rug.mint !== token.mint &&
+      rug.createdAt < token.createdAt &&
+      (rug.deployer === token.deployer || (funder !== null && funders.get(rug.deployer) === funder))
+    );
+  }
+
+  async function assess(token: RiskToken, holders?: HolderConcentration | null): Promise<RiskAssessment> {
+    const known = token.deployer && token.deployer !== 'unknown';
+
+    const [{ mintInfo, trades }, funder] = await Promise.all([
+      getFacts(token),
+      known ? getFunder(token.deployer) : Promise.resolve(null),
+    ]);
+
+    const flags: RiskFlag[] = [...checkAuthorities(mintInfo)];
+
+    if (known) {
+      const sales = checkDeployerSales(trades, token.deployer, holders?.deployerBalance);
+      flags.push(...sales, ...checkLaunchBuyers(trades, token.deployer, holders?.supply || PUMP_FUN_SUPPLY));
+
+      if (sales.some((flag) => flag.severity === 'high')) {
+        setBounded(rugs, token.mint, { mint: token.mint, symbol: token.symbol, deployer: token.deployer, createdAt: token.createdAt }, MAX_RUGS);
+      }
+
+      flags.push(...checkFunding(token.deployer, funder, previousRugs(funder, token)));
+    }
+
+    return { score: scoreFlags(flags), flags };
+  }
+
+  // Rugged launches by any of `deployers`, oldest first
+  function rugsBy(deployers: string[]): RugRecord[] {
+    const wanted = new Set(deployers);
+    return Array.from(rugs.values())
+      .filter((rug) => wanted.has(rug.deployer))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  return {
+    assess,
+    rugsBy,
+  };
+}
+
+export type RiskAnalyzer = ReturnType<typeof createRiskAnalyzer>;
+
+export const riskAnalyzer = singleton('riskAnalyzer', () => createRiskAnalyzer(getProviders()));
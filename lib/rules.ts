@@ -0,0 +1,318 @@
+import { TokenData } from '@/lib/types';
+import { EnrichedToken } from '@/lib/enrich';
+
+// Filter and ranking rule engine
+//
+// Criteria are a list of filter predicates over token fields, a ranking
+// (a single field or a weighted composite score) and a top-N. Named presets
+// cover the common setups; anything else can be built from query parameters.
+
+export type FilterOp = 'gte' | 'lte';
+
+export interface FilterRule {
+  field: string;
+  op: FilterOp;
+  value: number;
+}
+
+export interface RankingRule {
+  // Rank by a single field...
+  field?: string;
+  // ...or by a weighted sum of min-max normalised fields
+  weights?: Record<string, number>;
+  direction: 'desc' | 'asc';
+}
+
+export interface Criteria {
+  preset?: string;
+  filters: FilterRule[];
+  ranking: RankingRule;
+  topN: number;
+  // Rank every token when none pass the filters, instead of returning nothing
+  fallbackToAll?: boolean;
+}
+
+export interface RankResult {
+  tokens: TokenData[];
+  passed: number;
+  fallback: boolean;
+  rejected: { mint: string; symbol: string; reasons: string[] }[];
+}
+
+interface FieldDef {
+  label: string;
+  get: (token: EnrichedToken, now: number) => number | undefined;
+  format: (value: number) => string;
+}
+
+const formatUsd = (value: number) =>
+  value >= 1000 ? `$${(value / 1000).toFixed(value % 1000 === 0 ? 0 : 1)}K` : `$${value}`;
+const formatCount = (value: number) => `${value}`;
+const formatPercent = (value: number) => `${value}%`;
+
+// Fields rules can refer to. Add new TokenData fields here to make them filterable.
+export const FIELDS: Record<string, FieldDef> = {
+  marketCap: { label: 'MARKET CAP', get: (t) => t.marketCap, format: formatUsd },
+  // A failed lookup is unavailable rather than 0, so filters report why
+  holders: { label: 'HOLDERS', get: (t) => (t.holdersError ? undefined : t.holders), format: formatCount },
+  bondingRate: { label: 'DEPLOYER BONDING RATE', get: (t) => t.bondingRate, format: formatPercent },
+  age: {
+    label: 'AGE',
+    get: (t, now) => (t.createdAt ? (now - t.createdAt) / 60000 : undefined),
+    format: (value) => `${value} MIN`,
+  },
+  bondingCurveProgress: { label: 'CURVE PROGRESS', get: (t) => t.bondingCurveProgress, format: formatPercent },
+  liquidityUsd: { label: 'LIQUIDITY', get: (t) => t.liquidityUsd, format: formatUsd },
+  volume5m: { label: '5M VOLUME', get: (t) => t.volume5m, format: formatUsd },
+  volume1h: { label: '1H VOLUME', get: (t) => t.volume1h, format: formatUsd },
+  volume24h: { label: '24H VOLUME', get: (t) => t.volume24h, format: formatUsd },
+  priceChange5m: { label: '5M CHANGE', get: (t) => t.priceChange5m, format: formatPercent },
+  priceChange1h: { label: '1H CHANGE', get: (t) => t.priceChange1h, format: formatPercent },
+  priceChange24h: { label: '24H CHANGE', get: (t) => t.priceChange24h, format: formatPercent },
+  buys1h: { label: '1H BUYS', get: (t) => t.buys1h, format: formatCount },
+  sells1h: { label: '1H SELLS', get: (t) => t.sells1h, format: formatCount },
+  buys24h: { label: '24H BUYS', get: (t) => t.buys24h, format: formatCount },
+  sells24h: { label: '24H SELLS', get: (t) => t.sells24h, format: formatCount },
+  holderVelocity: { label: 'HOLDERS/HR', get: (t) => t.holderVelocity, format: formatCount },
+  marketCapVelocity: { label: 'MARKET CAP/HR', get: (t) => t.marketCapVelocity, format: formatUsd },
+  top10Share: { label: 'TOP 10 HOLDER SHARE', get: (t) => t.top10Share, format: formatPercent },
+  top20Share: { label: 'TOP 20 HOLDER SHARE', get: (t) => t.top20Share, format: formatPercent },
+  gini: { label: 'HOLDER GINI', get: (t) => t.gini, format: formatCount },
+  deployerShare: { label: 'DEPLOYER HOLDING', get: (t) => t.deployerShare, format: formatPercent },
+  riskScore: { label: 'RISK SCORE', get: (t) => t.riskScore, format: formatCount },
+  clusterSize: { label: 'CLUSTER WALLETS', get: (t) => t.cluster?.size, format: formatCount },
+  clusterBondingRate: { label: 'CLUSTER BONDING RATE', get: (t) => t.cluster?.bondingRate, format: formatPercent },
+  clusterRugs: { label: 'CLUSTER RUGS', get: (t) => t.cluster?.rugs, format: formatCount },
+};
+
+export const PRESETS: Record<string, Criteria> = {
+  // What the scanner has always done
+  default: {
+    filters: [
+      { field: 'marketCap', op: 'gte', value: 15000 },
+      { field: 'holders', op: 'gte', value: 160 },
+    ],
+    ranking: { field: 'holders', direction: 'desc' },
+    topN: 5,
+    fallbackToAll: true,
+  },
+  // The criteria described in the README
+  'proven-deployers': {
+    filters: [
+      { field: 'holders', op: 'gte', value: 15 },
+      { field: 'marketCap', op: 'gte', value: 6000 },
+      { field: 'bondingRate', op: 'gte', value: 50 },
+      { field: 'age', op: 'lte', value: 60 },
+    ],
+    ranking: { field: 'bondingRate', direction: 'desc' },
+    topN: 10,
+  },
+  fresh: {
+    filters: [
+      { field: 'age', op: 'lte', value: 30 },
+      { field: 'holders', op: 'gte', value: 50 },
+    ],
+    ranking: { weights: { holders: 0.5, marketCap: 0.3, bondingRate: 0.2 }, direction: 'desc' },
+    topN: 10,
+  },
+};
+
+export const DEFAULT_PRESET = process.env.ACTIVE_PRESET || 'default';
+
+export function getPreset(name: string): Criteria {
+  const preset = PRESETS[name];
+  if (!preset) {
+    throw new Error(`Unknown preset "${name}" (expected one of: ${Object.keys(PRESETS).join(', ')})`);
+  }
+  return { ...preset, preset: name };
+}
+
+export function getActiveCriteria(): Criteria {
+  return getPreset(DEFAULT_PRESET);
+}
+
+function checkField(field: string) {
+  if (!FIELDS[field]) {
+    throw new Error(`Unknown field "${field}" (expected one of: ${Object.keys(FIELDS).join(', ')})`);
+  }
+}
+
+// Builds criteria from query parameters:
+//   preset=<name>                      start from a preset (defaults to the active one)
+//   min<Field>=n / max<Field>=n        add a filter, e.g. minHolders=160, maxAge=60
+//   sort=<field>                       rank by a single field
+//   weights=holders:0.5,marketCap:0.5  rank by a weighted composite score
+//   order=asc|desc, top=<n>
+// Returns null when no criteria parameters are present.
+export function parseCriteria(params: URLSearchParams): Criteria | null {
+  const keys = Array.from(params.keys());
+  const isCriteriaKey = (key: string) =>
+    ['preset', 'sort', 'weights', 'order', 'top'].includes(key) || /^(min|max)[A-Z]/.test(key);
+
+  if (!keys.some(isCriteriaKey)) {
+    return null;
+  }
+
+  const base = getPreset(params.get('preset') || DEFAULT_PRESET);
+  let filters = [...base.filters];
+  let ranking = { ...base.ranking };
+
+  for (const key of keys) {
+    const match = key.match(/^(min|max)([A-Z]\w*)$/);
+    if (!match) continue;
+
+    const field = match[2][0].toLowerCase() + match[2].slice(1);
+    const op: FilterOp = match[1] === 'min' ? 'gte' : 'lte';
+    const value = Number(params.get(key));
+    checkField(field);
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid value for ${key}`);
+    }
+
+    // An ad-hoc threshold replaces the preset's threshold on the same field
+    filters = filters.filter((rule) => !(rule.field === field && rule.op === op));
+    filters.push({ field, op, value });
+  }
+
+  const sort = params.get('sort');
+  if (sort) {
+    checkField(sort);
+    ranking = { field: sort, direction: ranking.direction };
+  }
+
+  const weights = params.get('weights');
+  if (weights) {
+    const parsed: Record<string, number> = {};
+    for (const pair of weights.split(',')) {
+      const [field, weight] = pair.split(':');
+      checkField(field);
+      parsed[field] = Number(weight) || 0;
+    }
+    ranking = { weights: parsed, direction: ranking.direction };
+  }
+
+  const order = params.get('order');
+  if (order === 'asc' || order === 'desc') {
+    ranking.direction = order;
+  }
+
+  const top = Number(params.get('top'));
+  const customised = keys.some((key) => key !== 'preset' && isCriteriaKey(key));
+
+  return {
+    preset: customised ? undefined : base.preset,
+    filters,
+    ranking,
+    topN: top > 0 ? Math.min(Math.floor(top), 100) : base.topN,
+    fallbackToAll: base.fallbackToAll,
+  };
+}
+
+// Returns the reasons a token fails the filters (empty when it passes)
+export function rejectionReasons(token: EnrichedToken, filters: FilterRule[], now: number = Date.now()): string[] {
+  const reasons: string[] = [];
+
+  for (const rule of filters) {
+    const def = FIELDS[rule.field];
+    const value = def?.get(token, now);
+
+    if (value === undefined || Number.isNaN(value)) {
+      reasons.push(`${rule.field} unavailable`);
+    } else if (rule.op === 'gte' ? value < rule.value : value > rule.value) {
+      reasons.push(`${rule.field} ${Math.round(value * 100) / 100} ${rule.op === 'gte' ? '<' : '>'} ${rule.value}`);
+    }
+  }
+
+  return reasons;
+}
+
+function scoreTokens(tokens: EnrichedToken[], ranking: RankingRule, now: number): number[] {
+  if (ranking.field) {
+    const def = FIELDS[ranking.field];
+    return tokens.map((token) => def.get(token, now) ?? 0);
+  }
+
+  const weights = ranking.weights || {};
+  const scores = new Array(tokens.length).fill(0);
+
+  for (const [field, weight] of Object.entries(weights)) {
+    const values = tokens.map((token) => FIELDS[field].get(token, now) ?? 0);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const range = max - min || 1;
+
+    values.forEach((value, i) => {
+      scores[i] += weight * ((value - min) / range);
+    });
+  }
+
+  return scores;
+}
+
+// Returns the reasons a token fails the criteria: its filters, and the
+// deployer blocklist
+export function criteriaRejections(token: EnrichedToken, criteria: Criteria, now: number = Date.now()): string[] {
+  const reasons = rejectionReasons(token, criteria.filters, now);
+  return token.blockedReason ? [token.blockedReason, ...reasons] : reasons;
+}
+
+export function applyCriteria(tokens: EnrichedToken[], criteria: Criteria, now: number = Date.now()): RankResult {
+  const passing: EnrichedToken[] = [];
+  const rejected: RankResult['rejected'] = [];
+
+  for (const token of tokens) {
+    const reasons = criteriaRejections(token, criteria, now);
+    if (reasons.length === 0) {
+      passing.push(token);
+    } else {
+      rejected.push({ mint: token.mint, symbol: token.symbol, reasons });
+    }
+  }
+
+  const fallback = passing.length === 0 && !!criteria.fallbackToAll;
+  const candidates = fallback ? tokens.filter((token) => !token.blockedReason) : passing;
+  const scores = scoreTokens(candidates, criteria.ranking, now);
+  const sign = criteria.ranking.direction === 'asc' ? 1 : -1;
+
+  const ranked = candidates
+    .map((token, i) => ({ token, score: scores[i] }))
+    .sort((a, b) => sign * (a.score - b.score))
+    .slice(0, criteria.topN)
+    .map(({ token, score }, index) => ({
+      ...token,
+      rank: index + 1,
+      score: criteria.ranking.weights ? Math.round(score * 1000) / 1000 : undefined,
+    }));
+
+  return {
+    tokens: ranked,
+    passed: passing.length,
+    fallback,
+    rejected,
+  };
+}
+
+// Human-readable criteria for the UI footer, e.g. ["160+ HOLDERS", "RANKED BY HOLDERS"]
+export function describeCriteria(criteria: Criteria): string[] {
+  const lines = criteria.filters.map((rule) => {
+    const def = FIELDS[rule.field];
+    const value = def.format(rule.value);
+    return rule.op === 'gte' ? `${value}+ ${def.label}` : `${def.label} ≤ ${value}`;
+  });
+
+  const { ranking } = criteria;
+  if (ranking.field) {
+    lines.push(`RANKED BY ${FIELDS[ranking.field].label}${ranking.direction === 'asc' ? ' (ASC)' : ''}`);
+  } else {
+    const parts = Object.entries(ranking.weights || {}).map(([field, weight]) => `${FIELDS[field].label} ×${weight}`);
+    lines.push(`RANKED BY SCORE (${parts.join(' + ')})`);
+  }
+
+  lines.push(`TOP ${criteria.topN}`);
+  return lines;
+}
+
+// Short title for the ranking, e.g. "BY HOLDERS"
+export function describeRanking(ranking: RankingRule): string {
+  return ranking.field ? `BY ${FIELDS[ranking.field].label}` : 'BY SCORE';
+}
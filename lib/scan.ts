@@ -0,0 +1,280 @@
+import { SourceWarning, TokenData } from '@/lib/types';
+import { DeployerIndex } from '@/lib/deployers';
+import { FeedToken, Providers } from '@/lib/providers';
+import { EnrichedToken, enrichTokens, sourceWarnings } from '@/lib/enrich';
+import { Criteria, applyCriteria, describeCriteria, getActiveCriteria } from '@/lib/rules';
+import { History } from '@/lib/history';
+import { ScanArchive } from '@/lib/archive';
+import { RiskAnalyzer } from '@/lib/risk';
+import { Watchlist } from '@/lib/watchlist';
+import { ClusterIndex, summarizeCluster } from '@/lib/clusters';
+import { DeployerLists, allowedAddresses, blockReason } from '@/lib/lists';
+import { resolveFeedToken } from '@/lib/lookup';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { scanTime } from '@/lib/traffic';
+import { singleton } from '@/lib/singleton';
+import { log } from '@/lib/log';
+import { createCounter, createGauge } from '@/lib/metrics';
+
+export interface ScanContext {
+  providers: Providers;
+  deployers: DeployerIndex;
+  // When set, each scan is persisted and velocity fields are filled in
+  history?: History;
+  // When set, every token gets a rug-risk score and flags
+  risk?: RiskAnalyzer;
+  // When set, watched mints are enriched even when the feed doesn't return them
+  watchlist?: Watchlist;
+  // When set, every token gets its deployer's cluster
+  clusters?: ClusterIndex;
+  // When set, blocklisted deployers' tokens are excluded
+  lists?: DeployerLists;
+  // When set, a sample of scans is kept whole for backtesting
+  archive?: ScanArchive;
+}
+
+export interface ScanResult {
+  // Every enriched token, before filtering
+  candidates: EnrichedToken[];
+  // The ranked selection under `criteria`
+  ranked: TokenData[];
+  // No token passed the filters and `ranked` holds every token instead
+  // (`fallbackToAll`), so it isn't a real top N
+  fallback: boolean;
+  criteria: Criteria;
+  // Feed entries that failed validation and sources that failed per token
+  warnings: SourceWarning[];
+  // Every watched mint, whether or not the feed returned it
+  watched: EnrichedToken[];
+  // The time the scan ran at; the recorded one when replaying
+  scannedAt: number;
+}
+
+type ScanStage = 'fetched' | 'invalid' | 'enriched' | 'passed' | 'ranked';
+
+const tokensTotal = createCounter(
+  'deployer_hunter_scan_tokens_total',
+  'Tokens seen across all scans, by stage: fetched from the feed, invalid, enriched, passed the filters, ranked'
+);
+const lastScanTokens = createGauge(
+  'deployer_hunter_last_scan_tokens',
+  'Tokens in the most recent scan, by stage'
+);
+
+const WATCH_CONCURRENCY = 4;
+
+// Watched mints outside the feed, resolved once: the creator never changes
+// and finding it costs two RPC calls
+const resolvedWatched = singleton('scan.resolvedWatched', () => new Map<string, FeedToken>());
+
+function recordStages(counts: Record<ScanStage, number>) {
+  for (const [stage, count] of Object.entries(counts)) {
+    tokensTotal.inc({ stage }, count);
+    lastScanTokens.set({ stage }, count);
+  }
+}
+
+// Adds each token's deployer cluster and, from the deployer lists, why it is
+// blocked. Lists that can't be read block nothing for this scan.
+async function withDeployerChecks(context: ScanContext, tokens: EnrichedToken[]): Promise<EnrichedToken[]> {
+  const { clusters, lists } = context;
+  if (!clusters && !lists) return tokens;
+
+  const entries = lists
+    ? await lists.list().catch((error) => {
+        log.error('error loading deployer lists', { error });
+        return [];
+      })
+    : [];
+  const byAddress = new Map(entries.map((entry) => [entry.address, entry]));
+
+  if (clusters) {
+    await clusters.observe(tokens);
+  }
+  const built = clusters?.build(allowedAddresses(entries));
+
+  return tokens.map((token) => {
+    const cluster = built?.get(token.deployer);
+    return {
+      ...token,
+      cluster: cluster && summarizeCluster(cluster),
+      blockedReason: blockReason(token.deployer, cluster, byAddress),
+    };
+  });
+}
+
+// A watchlist that can't be read skips watched mints for this scan
+async function loadWatchedMints(watchlist?: Watchlist): Promise<Set<string>> {
+  if (!watchlist) return new Set();
+
+  try {
+    return new Set((await watchlist.list('mint')).map((entry) => entry.address));
+  } catch (error) {
+    log.error('error loading watchlist', { error });
+    return new Set();
+  }
+}
+
+// Enriches the watched mints the feed didn't return, the same way as the
+// token detail lookup
+async function enrichWatchedMints(
+  context: ScanContext,
+  mints: Set<string>,
+  feedTokens: EnrichedToken[]
+): Promise<EnrichedToken[]> {
+  const { providers, deployers, risk } = context;
+
+  const inFeed = new Set(feedTokens.map((token) => token.mint));
+  const missing = Array.from(mints).filter((mint) => !inFeed.has(mint));
+  if (missing.length === 0) return [];
+
+  log.info('enriching watched mints', { count: missing.length });
+
+  const resolved = await mapWithConcurrency(missing, WATCH_CONCURRENCY, async (mint) => {
+    const cached = resolvedWatched.get(mint);
+    if (cached) return cached;
+
+    const token = await resolveFeedToken(mint, providers);
+    if (token.creator) {
+      resolvedWatched.set(mint, token);
+      deployers.recordLaunch(token.creator, {
+        mint: token.mint,
+        name: token.name,
+        symbol: token.symbol,
+        createdAt: token.createdAt,
+        source: 'rpc',
+      });
+    }
+    return token;
+  });
+
+  return enrichTokens(resolved, providers, deployers, risk);
+}
+
+// One full scan: fetch the feed, enrich every token, then filter and rank
+// with the given criteria (the active preset by default).
+// Throws if the feed itself cannot be fetched so callers can keep their
+// previous results.
+export async function runScan(
+  context: ScanContext,
+  criteria: Criteria = getActiveCriteria()
+): Promise<ScanResult> {
+  const { providers, deployers, history, risk } = context;
+  const scannedAt = await scanTime();
+  log.info('fetching feed', { feed: providers.feed.name });
+
+  const data = await providers.feed.fetchTokens(50);
+  log.info('feed received', { feed: providers.feed.name, count: data.count, totalStored: data.totalStored });
+
+  const backendTokens = data.tokens || [];
+  const feedWarnings: SourceWarning[] = (data.invalid || []).map((entry) => ({
+    source: 'feed',
+    mint: entry.mint,
+    error: entry.error,
+  }));
+
+  if (feedWarnings.length > 0) {
+    log.warn('invalid feed tokens skipped', { count: feedWarnings.length });
+  }
+
+  if (backendTokens.length === 0) {
+    log.warn('feed returned no tokens', { feed: providers.feed.name });
+    recordStages({ fetched: 0, invalid: feedWarnings.length, enriched: 0, passed: 0, ranked: 0 });
+    return { candidates: [], ranked: [], fallback: false, criteria, warnings: feedWarnings, watched: [], scannedAt };
+  }
+
+  // Record every launch in the feed so deployer history covers the full page
+  for (const token of backendTokens) {
+    if (token.creator && token.mint) {
+      deployers.recordLaunch(token.creator, {
+        mint: token.mint,
+        name: token.name,
+        symbol: token.symbol,
+        createdAt: token.createdAt,
+        source: 'backend',
+      });
+    }
+  }
+
+  log.info('enriching tokens', { count: backendTokens.length });
+  const startTime = Date.now();
+
+  let enrichedTokens = await enrichTokens(backendTokens, providers, deployers, risk);
+
+  log.info('tokens enriched', { count: enrichedTokens.length, durationMs: Date.now() - startTime });
+
+  enrichedTokens = await withDeployerChecks(context, enrichedTokens);
+
+  // Kept out of the candidates, so they are never ranked or alerted on
+  const watchedMints = await loadWatchedMints(context.watchlist);
+  let watchedExtra = await enrichWatchedMints(context, watchedMints, enrichedTokens);
+
+  if (history) {
+    const withVelocity = await history.withVelocity([...enrichedTokens, ...watchedExtra], scannedAt);
+    enrichedTokens = withVelocity.slice(0, enrichedTokens.length);
+    watchedExtra = withVelocity.slice(enrichedTokens.length);
+  }
+
+  const result = applyCriteria(enrichedTokens, criteria, scannedAt);
+  const rejections = new Map(result.rejected.map((r) => [r.mint, r]));
+
+  for (const token of enrichedTokens) {
+    const rejection = rejections.get(token.mint);
+    log.debug(rejection ? 'token filtered out' : 'token passed', {
+      mint: token.mint,
+      symbol: token.symbol,
+      holders: token.holders,
+      marketCap: Math.round(token.marketCap),
+      reasons: rejection?.reasons,
+    });
+  }
+
+  log.info('tokens filtered', { passed: result.passed, criteria: describeCriteria(criteria) });
+
+  if (result.fallback) {
+    log.warn('no tokens meet the criteria, ranking all tokens', { topN: criteria.topN });
+  }
+
+  log.info('tokens ranked', {
+    top: result.tokens.map((token) => ({
+      rank: token.rank,
+      symbol: token.symbol,
+      holders: token.holders,
+      marketCap: Math.round(token.marketCap),
+    })),
+  });
+
+  recordStages({
+    fetched: backendTokens.length,
+    invalid: feedWarnings.length,
+    enriched: enrichedTokens.length,
+    passed: result.passed,
+    ranked: result.tokens.length,
+  });
+
+  if (history) {
+    try {
+      await history.record([...enrichedTokens, ...watchedExtra], result.tokens, scannedAt);
+    } catch (error) {
+      log.error('error persisting snapshot', { error });
+    }
+  }
+
+  if (context.archive) {
+    try {
+      await context.archive.record(enrichedTokens, scannedAt);
+    } catch (error) {
+      log.error('error archiving scan', { error });
+    }
+  }
+
+  return {
+    candidates: enrichedTokens,
+    ranked: result.tokens,
+    fallback: result.fallback,
+    criteria,
+    warnings: [...feedWarnings, ...sourceWarnings(enrichedTokens)],
+    watched: [...enrichedTokens.filter((token) => watchedMints.has(token.mint)), ...watchedExtra],
+    scannedAt,
+  };
+}
@@ -0,0 +1,230 @@
+import { randomUUID } from 'crypto';
+import { SourceWarning, TokenData } from '@/lib/types';
+import { EnrichedToken } from '@/lib/enrich';
+import { Criteria, getActiveCriteria } from '@/lib/rules';
+import { deployerIndex } from '@/lib/deployers';
+import { getProviders } from '@/lib/providers';
+import { tokenHistory } from '@/lib/history';
+import { riskAnalyzer } from '@/lib/risk';
+import { watchlist } from '@/lib/watchlist';
+import { clusterIndex } from '@/lib/clusters';
+import { deployerLists } from '@/lib/lists';
+import { scanArchive } from '@/lib/archive';
+import { ScanContext, runScan } from '@/lib/scan';
+import { getAlerter } from '@/lib/alerts';
+import { singleton } from '@/lib/singleton';
+import { log, withLogContext } from '@/lib/log';
+import { createCounter, createGauge, createHistogram } from '@/lib/metrics';
+
+// Background scanner
+//
+// Runs the scan on a timer, independently of requests, with at most one
+// refresh in flight. Readers always get the last good snapshot immediately;
+// a failed refresh keeps the previous tokens and records the error.
+// Subscribers are told whenever a refresh starts or finishes. Each refresh
+// gets a scan ID that is attached to every log line it produces.
+
+export const SCAN_INTERVAL = Number(process.env.SCAN_INTERVAL_MS) || 60 * 1000; // 1 minute
+
+// A snapshot older than this many intervals is reported as stale
+const STALE_AFTER_INTERVALS = 2;
+
+const scansTotal = createCounter('deployer_hunter_scans_total', 'Completed scans by result (success or failure)');
+const scanDuration = createHistogram(
+  'deployer_hunter_scan_duration_seconds',
+  'Scan duration, feed fetch to ranking',
+  [1, 2.5, 5, 10, 20, 30, 60, 120, 300]
+);
+const lastSuccess = createGauge(
+  'deployer_hunter_last_successful_scan_timestamp_seconds',
+  'Unix time of the last successful scan'
+);
+
+export interface ScanSnapshot {
+  tokens: TokenData[];
+  candidates: EnrichedToken[];
+  criteria: Criteria;
+  warnings: SourceWarning[];
+  // Watched mints, including ones outside the feed
+  watched: EnrichedToken[];
+  // ID of the most recent refresh, as logged
+  lastScanId?: string;
+  // The time the last scan ranked its tokens at, for re-ranking them the same way
+  scannedAt: number;
+  lastUpdated: number;
+  nextUpdate: number;
+  scanning: boolean;
+  stale: boolean;
+  lastError?: string;
+  lastErrorAt?: number;
+}
+
+interface ScannerState {
+  tokens: TokenData[];
+  candidates: EnrichedToken[];
+  criteria: Criteria;
+  warnings: SourceWarning[];
+  watched: EnrichedToken[];
+  lastScanId?: string;
+  scannedAt: number;
+  lastUpdated: number;
+  lastAttempt: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  inFlight: Promise<void> | null;
+  timer: ReturnType<typeof setInterval> | null;
+}
+
+export type SnapshotListener = (snapshot: ScanSnapshot) => void;
+
+const state = singleton<ScannerState>('scanner', () => ({
+  tokens: [],
+  candidates: [],
+  criteria: getActiveCriteria(),
+  warnings: [],
+  watched: [],
+  scannedAt: 0,
+  lastUpdated: 0,
+  lastAttempt: 0,
+  inFlight: null,
+  timer: null,
+}));
+
+const listeners = singleton('scanner.listeners', () => new Set<SnapshotListener>());
+
+function notify() {
+  const snapshot = currentSnapshot();
+  listeners.forEach((listener) => {
+    try {
+      listener(snapshot);
+    } catch (error) {
+      log.error('snapshot listener failed', { error });
+    }
+  });
+}
+
+// Calls `listener` after every refresh starts or finishes; returns an unsubscribe function
+export function subscribe(listener: SnapshotListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function scan() {
+  const scanId = randomUUID().slice(0, 8);
+  state.lastScanId = scanId;
+  return withLogContext({ scanId }, runRefresh);
+}
+
+// What every scan runs against; the CLI (scripts/scan.ts) uses it too
+export function scanContext(): ScanContext {
+  return {
+    providers: getProviders(),
+    deployers: deployerIndex,
+    history: tokenHistory,
+    risk: riskAnalyzer,
+    watchlist,
+    clusters: clusterIndex,
+    lists: deployerLists,
+    archive: scanArchive,
+  };
+}
+
+async function runRefresh() {
+  log.info('scan started');
+  const startTime = Date.now();
+  state.lastAttempt = startTime;
+
+  try {
+    const result = await runScan(scanContext());
+    state.tokens = result.ranked;
+    state.candidates = result.candidates;
+    state.criteria = result.criteria;
+    state.warnings = result.warnings;
+    state.watched = result.watched;
+    state.scannedAt = result.scannedAt;
+    state.lastUpdated = Date.now();
+    state.lastError = undefined;
+    state.lastErrorAt = undefined;
+
+    const durationMs = state.lastUpdated - startTime;
+    scansTotal.inc({ result: 'success' });
+    scanDuration.observe({}, durationMs / 1000);
+    lastSuccess.set({}, state.lastUpdated / 1000);
+    log.info('scan finished', { tokens: state.tokens.length, warnings: state.warnings.length, durationMs });
+
+    // Delivery can be slow; don't hold up the next refresh for it
+    getAlerter().handleScan(result).catch((error) => {
+      log.error('alerting failed', { error });
+    });
+
+  } catch (error) {
+    state.lastError = error instanceof Error ? error.message : 'Unknown error';
+    state.lastErrorAt = Date.now();
+    scansTotal.inc({ result: 'failure' });
+    scanDuration.observe({}, (state.lastErrorAt - startTime) / 1000);
+    log.error('scan failed, keeping previous snapshot', { error: state.lastError });
+  }
+}
+
+// Starts a refresh unless one is already running, in which case the
+// running one is returned
+export function refresh(): Promise<void> {
+  if (!state.inFlight) {
+    state.inFlight = scan().finally(() => {
+      state.inFlight = null;
+      notify();
+    });
+    notify();
+  }
+  return state.inFlight;
+}
+
+export function startScanner() {
+  if (state.timer) return;
+
+  log.info('scanner started', { intervalMs: SCAN_INTERVAL });
+  state.timer = setInterval(() => {
+    refresh();
+  }, SCAN_INTERVAL);
+
+  refresh();
+}
+
+export function stopScanner() {
+  if (state.timer) {
+    clearInterval(state.timer);
+    state.timer = null;
+  }
+}
+
+function currentSnapshot(): ScanSnapshot {
+  const now = Date.now();
+
+  return {
+    tokens: state.tokens,
+    candidates: state.candidates,
+    criteria: state.criteria,
+    warnings: state.warnings,
+    watched: state.watched,
+    lastScanId: state.lastScanId,
+    scannedAt: state.scannedAt,
+    lastUpdated: state.lastUpdated,
+    nextUpdate: (state.lastUpdated || now) + SCAN_INTERVAL,
+    scanning: state.inFlight !== null,
+    stale: state.lastUpdated === 0 || now - state.lastUpdated > SCAN_INTERVAL * STALE_AFTER_INTERVALS,
+    lastError: state.lastError,
+    lastErrorAt: state.lastErrorAt,
+  };
+}
+
+export function getSnapshot(): ScanSnapshot {
+  // Where timers don't survive between requests (serverless), the next
+  // reader kicks off the refresh instead; it still doesn't wait for it.
+  if (Date.now() - state.lastAttempt > SCAN_INTERVAL) {
+    refresh();
+  }
+
+  return currentSnapshot();
+}
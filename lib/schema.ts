@@ -0,0 +1,126 @@
+// Runtime validation
+//
+// Small schema combinators for checking upstream payloads where they enter
+// the app. A schema turns `unknown` into a typed value or throws a
+// ValidationError naming the path that failed, so a malformed response
+// surfaces as an error instead of a silent 0.
+
+export class ValidationError extends Error {
+  constructor(readonly path: string, readonly expected: string, readonly received: unknown) {
+    super(`${path || 'value'}: expected ${expected}, got ${describe(received)}`);
+    this.name = 'ValidationError';
+  }
+}
+
+export type Schema<T> = (value: unknown, path?: string) => T;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  return typeof value;
+}
+
+export const string: Schema<string> = (value, path = '') => {
+  if (typeof value !== 'string') throw new ValidationError(path, 'string', value);
+  return value;
+};
+
+export const number: Schema<number> = (value, path = '') => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new ValidationError(path, 'number', value);
+  return value;
+};
+
+// A number, or a string holding one (DexScreener sends prices as strings)
+export const numeric: Schema<number> = (value, path = '') => {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) throw new ValidationError(path, 'numeric', value);
+  return parsed;
+};
+
+export const boolean: Schema<boolean> = (value, path = '') => {
+  if (typeof value !== 'boolean') throw new ValidationError(path, 'boolean', value);
+  return value;
+};
+
+// Accepts anything; for payloads parsed further downstream
+export const unknown: Schema<unknown> = (value) => value;
+
+// null and undefined both read as undefined
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path = '') => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path = '') => (value === null || value === undefined ? null : schema(value, path));
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path = '') => {
+    if (!Array.isArray(value)) throw new ValidationError(path, 'array', value);
+    return value.map((element, index) => item(element, `${path}[${index}]`));
+  };
+}
+
+// A fixed-length array, e.g. RPC account data as [base64, encoding]
+export function tuple<T extends unknown[]>(...items: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+  return (value, path = '') => {
+    if (!Array.isArray(value) || value.length < items.length) {
+      throw new ValidationError(path, `array of ${items.length}`, value);
+    }
+    return items.map((item, index) => item(value[index], `${path}[${index}]`)) as T;
+  };
+}
+
+// Unknown keys are dropped
+export function object<T extends Record<string, unknown>>(
+  shape: { [K in keyof T]: Schema<T[K]> }
+): Schema<T> {
+  return (value, path = '') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError(path, 'object', value);
+    }
+
+    const input = value as Record<string, unknown>;
+    const output: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+      const parsed = shape[key](input[key], path ? `${path}.${key}` : key);
+      if (parsed !== undefined) output[key] = parsed;
+    }
+    return output as T;
+  };
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return (value, path = '') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError(path, 'object', value);
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, element]) => [key, item(element, path ? `${path}.${key}` : key)])
+    );
+  };
+}
+
+// Validates each element separately, so one bad entry doesn't reject the batch
+export function parseEach<T>(
+  values: unknown[],
+  item: Schema<T>,
+  path: string = ''
+): { valid: T[]; invalid: { index: number; value: unknown; error: ValidationError }[] } {
+  const valid: T[] = [];
+  const invalid: { index: number; value: unknown; error: ValidationError }[] = [];
+
+  values.forEach((value, index) => {
+    try {
+      valid.push(item(value, `${path}[${index}]`));
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      invalid.push({ index, value, error });
+    }
+  });
+
+  return { valid, invalid };
+}
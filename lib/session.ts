@@ -0,0 +1,28 @@
+// Dashboard session (browser side)
+//
+// The pages call the API with the session cookie from POST /api/session
+// rather than an API key. `apiFetch` gets a session first and renews it once
+// if the server no longer accepts it.
+
+let pending: Promise<void> | null = null;
+
+export function ensureSession(renew = false): Promise<void> {
+  if (!pending || renew) {
+    pending = fetch('/api/session', { method: 'POST' })
+      .then(() => undefined)
+      .catch((error) => {
+        pending = null;
+        throw error;
+      });
+  }
+  return pending;
+}
+
+export async function apiFetch(url: string, init?: RequestInit): Promise<Response> {
+  await ensureSession();
+  const response = await fetch(url, init);
+  if (response.status !== 401) return response;
+
+  await ensureSession(true);
+  return fetch(url, init);
+}
@@ -0,0 +1,34 @@
+import { ChainProvider, SignatureInfo } from '@/lib/providers';
+
+// Signature history helpers
+
+const SIGNATURE_PAGE = 1000;
+// Bounds how far back we page for busy addresses (5 x 1000 signatures)
+const MAX_SIGNATURE_PAGES = 5;
+
+// The `count` oldest signatures for an address, oldest first. Pages back from
+// the newest, so addresses with more history than the page bound return the
+// oldest signatures within that bound.
+export async function fetchEarliestSignatures(
+  chain: ChainProvider,
+  address: string,
+  count: number
+): Promise<SignatureInfo[]> {
+  let before: string | undefined;
+  let earliest: SignatureInfo[] = [];
+
+  for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+    const signatures = await chain.fetchSignatures(
+      address,
+      before ? { limit: SIGNATURE_PAGE, before } : { limit: SIGNATURE_PAGE }
+    );
+    if (signatures.length === 0) break;
+
+    // Keep enough of the previous page to fill `count` if this one is short
+    earliest = [...earliest, ...signatures].slice(-count);
+    before = signatures[signatures.length - 1].signature;
+    if (signatures.length < SIGNATURE_PAGE) break;
+  }
+
+  return earliest.reverse();
+}
@@ -0,0 +1,19 @@
+// Process-wide singletons
+//
+// Next.js bundles each route (and instrumentation.ts) separately, so plain
+// module-level state would be duplicated per route. Anything that must be
+// shared across routes (the scanner, caches, rate limiters) is kept on
+// globalThis instead.
+
+declare global {
+  var __singletons: Map<string, unknown> | undefined;
+}
+
+const registry = (globalThis.__singletons ??= new Map<string, unknown>());
+
+export function singleton<T>(key: string, create: () => T): T {
+  if (!registry.has(key)) {
+    registry.set(key, create());
+  }
+  return registry.get(key) as T;
+}
@@ -0,0 +1,207 @@
+// Solana JSON-RPC helpers
+
+import { createHash } from 'crypto';
+import { upstreamFetch } from '@/lib/http';
+
+export const DEFAULT_SOLANA_RPC_URL = 'https://api.mainnet-beta.solana.com';
+
+export const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+
+// SPL Token program
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+// Token-2022 (Token Extensions) program
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+export const TOKEN_PROGRAMS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+
+// Token account layout: mint (32 bytes), owner (32), amount (u64 LE), ...
+// Legacy accounts are always this size; Token-2022 accounts with extensions
+// are longer
+export const TOKEN_ACCOUNT_SIZE = 165;
+export const TOKEN_ACCOUNT_OWNER_OFFSET = 32;
+export const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+
+// Wrapped SOL, the quote token SOL prices are looked up by
+export const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export const LAMPORTS_PER_SOL = 1e9;
+
+// pump.fun bonding curve program
+export const PUMP_FUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+
+// Programs whose accounts hold tokens on behalf of a pool rather than a
+// holder: the bonding curve before graduation and the PumpSwap pool it
+// migrates to. Their token accounts are owned by the curve or pool account,
+// which is owned by the program.
+export const POOL_PROGRAMS: Record<string, string> = {
+  [PUMP_FUN_PROGRAM_ID]: 'pump.fun bonding curve',
+  pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA: 'PumpSwap pool',
+};
+
+// Raydium keeps every pool's tokens in vaults owned by one authority PDA per
+// program. The PDA holds no account, so it has no program owner to look up
+// and is matched by address instead.
+export const POOL_AUTHORITIES: Record<string, string> = {
+  // Raydium AMM v4 (675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8)
+  '5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1': 'Raydium AMM pool',
+  // Raydium CPMM (CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C)
+  GpMZbSM2GgvTKHJirzeGfMFoaZ8UR2X7F4v8vHTvxFbL: 'Raydium CPMM pool',
+};
+
+// getProgramAccounts on a popular mint can take a while on public RPCs
+const RPC_TIMEOUT = 30 * 1000;
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export function encodeBase58(bytes: Uint8Array): string {
+  let value = 0n;
+  for (const byte of Array.from(bytes)) {
+    value = value * 256n + BigInt(byte);
+  }
+
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+
+  // Leading zero bytes are written as '1'
+  for (const byte of Array.from(bytes)) {
+    if (byte !== 0) break;
+    encoded = '1' + encoded;
+  }
+
+  return encoded;
+}
+
+export function decodeBase58(value: string): Uint8Array {
+  let number = 0n;
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) {
+      throw new Error(`Invalid base58 character "${char}"`);
+    }
+    number = number * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (number > 0n) {
+    bytes.unshift(Number(number % 256n));
+    number /= 256n;
+  }
+
+  const leadingZeros = value.length - value.replace(/^1+/, '').length;
+  return Uint8Array.from([...new Array(leadingZeros).fill(0), ...bytes]);
+}
+
+// Whether `value` is a base58-encoded 32-byte address
+export function isValidAddress(value: string): boolean {
+  try {
+    return decodeBase58(value).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+// Ed25519 field prime and curve constant, for the on-curve check below
+const ED25519_P = 2n ** 255n - 19n;
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  base %= modulus;
+  while (exponent > 0n) {
+    if (exponent & 1n) result = (result * base) % modulus;
+    base = (base * base) % modulus;
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+const mod = (value: bigint) => ((value % ED25519_P) + ED25519_P) % ED25519_P;
+const ED25519_D = mod(-121665n * modPow(121666n, ED25519_P - 2n, ED25519_P));
+
+// Whether 32 bytes decompress to a point on the ed25519 curve, i.e. could be
+// a public key. Program-derived addresses must not be.
+function isOnCurve(bytes: Uint8Array): boolean {
+  let y = 0n;
+  for (let i = 31; i >= 0; i--) {
+    y = (y << 8n) + BigInt(bytes[i]);
+  }
+  y &= (1n << 255n) - 1n;
+  if (y >= ED25519_P) return false;
+
+  // x^2 = (y^2 - 1) / (d y^2 + 1) must have a square root
+  const y2 = mod(y * y);
+  const x2 = mod((y2 - 1n) * modPow(mod(ED25519_D * y2 + 1n), ED25519_P - 2n, ED25519_P));
+  return x2 === 0n || modPow(x2, (ED25519_P - 1n) / 2n, ED25519_P) === 1n;
+}
+
+// Same as PublicKey.findProgramAddressSync in @solana/web3.js
+export function findProgramAddress(seeds: Uint8Array[], programId: string): [string, number] {
+  const program = decodeBase58(programId);
+  if (seeds.some((seed) => seed.length > 32)) {
+    throw new Error('Program address seeds are limited to 32 bytes');
+  }
+
+  for (let bump = 255; bump >= 0; bump--) {
+    const hash = createHash('sha256');
+    for (const seed of seeds) hash.update(seed);
+    hash.update(Uint8Array.of(bump));
+    hash.update(program);
+    hash.update('ProgramDerivedAddress');
+
+    const address = hash.digest();
+    if (!isOnCurve(address)) {
+      return [encodeBase58(address), bump];
+    }
+  }
+
+  throw new Error(`No program address found for ${programId}`);
+}
+
+// Decodes owner and amount from token account data fetched with
+// dataSlice { offset: TOKEN_ACCOUNT_OWNER_OFFSET, length: 40 }
+export function decodeOwnerAndAmount(base64: string, decimals: number): { owner: string; amount: number } {
+  const data = Buffer.from(base64, 'base64');
+  if (data.length < 40) {
+    throw new Error(`Token account slice is ${data.length} bytes, expected 40`);
+  }
+
+  return {
+    owner: encodeBase58(data.subarray(0, 32)),
+    amount: Number(data.readBigUInt64LE(32)) / 10 ** decimals,
+  };
+}
+
+export type RpcCall = <T = any>(method: string, params: unknown[]) => Promise<T>;
+
+export function createRpcCall(url: string): RpcCall {
+  return async (method, params) => {
+    const response = await upstreamFetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method,
+        params,
+      }),
+      cache: 'no-store',
+    }, { timeoutMs: RPC_TIMEOUT, upstream: 'rpc' });
+
+    if (!response.ok) {
+      throw new Error(`RPC ${method} failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (data.error) {
+      throw new Error(`RPC ${method} error: ${data.error.message}`);
+    }
+
+    return data.result;
+  };
+}
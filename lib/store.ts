@@ -0,0 +1,123 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { singleton } from '@/lib/singleton';
+
+// Snapshot store
+//
+// Persists every enrichment result from every scan so token metrics survive
+// restarts and can be charted over time. Rows are appended to one NDJSON
+// file per UTC day under DATA_DIR, so a query only reads the days it spans.
+
+export interface SnapshotRow {
+  t: number;
+  mint: string;
+  symbol: string;
+  holders: number;
+  marketCap: number;
+  priceUsd?: number;
+  volume24h?: number;
+  // Position in the ranked selection, or null when the token wasn't selected
+  rank: number | null;
+}
+
+export interface SnapshotStore {
+  append(rows: SnapshotRow[]): Promise<void>;
+  query(mint: string | null, from: number, to: number): Promise<SnapshotRow[]>;
+  // Like `query`, but only holds one day in memory at a time
+  scan(mint: string | null, from: number, to: number): AsyncIterable<SnapshotRow>;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const DATA_DIR = path.resolve(process.cwd(), process.env.DATA_DIR || '.data');
+
+// One NDJSON file per UTC day, e.g. 2025-01-31.ndjson
+export function dayFile(dir: string, t: number): string {
+  return path.join(dir, `${new Date(t).toISOString().slice(0, 10)}.ndjson`);
+}
+
+export async function readNdjson<T>(file: string): Promise<T[]> {
+  let contents: string;
+  try {
+    contents = await readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const rows: T[] = [];
+  for (const line of contents.split('\n')) {
+    if (!line) continue;
+    try {
+      rows.push(JSON.parse(line));
+    } catch {
+      // A partially written last line after a crash; skip it
+    }
+  }
+  return rows;
+}
+
+export function createFileStore(dir: string): SnapshotStore {
+  return {
+    async append(rows) {
+      if (rows.length === 0) return;
+      await mkdir(dir, { recursive: true });
+
+      // A scan can straddle midnight, so group by day
+      const byFile = new Map<string, string[]>();
+      for (const row of rows) {
+        const file = dayFile(dir, row.t);
+        const line = JSON.stringify(row);
+        const lines = byFile.get(file);
+        if (lines) lines.push(line);
+        else byFile.set(file, [line]);
+      }
+
+      for (const [file, lines] of Array.from(byFile)) {
+        await appendFile(file, lines.join('\n') + '\n');
+      }
+    },
+
+    async query(mint, from, to) {
+      const rows: SnapshotRow[] = [];
+      for await (const row of scan(mint, from, to)) {
+        rows.push(row);
+      }
+      return rows;
+    },
+
+    scan,
+  };
+
+  // Oldest first; a day's rows never sort before the previous day's
+  async function* scan(mint: string | null, from: number, to: number): AsyncGenerator<SnapshotRow> {
+    for (let day = Math.floor(from / DAY) * DAY; day <= to; day += DAY) {
+      const rows = (await readNdjson<SnapshotRow>(dayFile(dir, day)))
+        .filter((row) => row.t >= from && row.t <= to && (mint === null || row.mint === mint))
+        .sort((a, b) => a.t - b.t);
+      yield* rows;
+    }
+  }
+}
+
+// Whole-file JSON state (alerts, watchlist); `fallback` when the file doesn't exist yet
+export async function readJson<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+// Write to a temp file and rename, so a crash never leaves half a file
+export async function writeJson(file: string, value: unknown) {
+  await mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.tmp`;
+  await writeFile(temp, JSON.stringify(value, null, 2));
+  await rename(temp, file);
+}
+
+export function getSnapshotStore(): SnapshotStore {
+  return singleton('snapshotStore', () => createFileStore(path.join(DATA_DIR, 'snapshots')));
+}
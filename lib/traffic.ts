@@ -0,0 +1,235 @@
+import { appendFile, mkdir } from 'fs/promises';
+import path from 'path';
+import { readNdjson } from '@/lib/store';
+import { singleton } from '@/lib/singleton';
+import { log } from '@/lib/log';
+
+// Upstream traffic recording and replay
+//
+// With UPSTREAM_RECORD=<file>, every request the data sources make (the
+// backend feed, DexScreener and the Solana RPC) is appended to an NDJSON
+// session file with the response it got, after retries. With
+// UPSTREAM_REPLAY=<file>, `upstreamFetch` answers those requests from the
+// session instead of the network, so a scan that went wrong can be reproduced
+// exactly, and offline. Replay wins when both are set.
+//
+// Requests are matched on upstream, method and either the request body (RPC
+// calls) or the path and query. Hosts aren't recorded and key-like query
+// parameters are redacted, so a session can be attached to a bug report
+// without leaking an RPC URL. A request made more than once is answered in
+// recorded order, then with its last response; one that was never recorded
+// fails like a network error.
+//
+// A session starts with the time its first scan ran. Replay scans at that
+// time, advancing in real time from there, so token ages, age filters and
+// velocities come out as they were recorded.
+
+export interface RecordedExchange {
+  t: number;
+  upstream: string;
+  method: string;
+  // Request body, or the path and query when there is none
+  request: string;
+  status?: number;
+  statusText?: string;
+  contentType?: string;
+  body?: string;
+  // Network error or timeout, after every retry
+  error?: string;
+}
+
+// First line of a session file
+interface SessionStart {
+  startedAt: number;
+}
+
+type SessionLine = RecordedExchange | SessionStart;
+
+// The data sources; alert webhooks always go out live
+const RECORDED_UPSTREAMS = ['backend', 'dexscreener', 'rpc'];
+
+const SECRET_PARAM = /key|token|secret|auth/i;
+
+export function isRecordedUpstream(upstream: string): boolean {
+  return RECORDED_UPSTREAMS.includes(upstream);
+}
+
+export function describeRequest(url: string, init: RequestInit): string {
+  if (typeof init.body === 'string') return init.body;
+
+  const { pathname, searchParams } = new URL(url);
+  searchParams.forEach((_, name) => {
+    if (SECRET_PARAM.test(name)) searchParams.set(name, 'redacted');
+  });
+  const query = searchParams.toString();
+  return query ? `${pathname}?${query}` : pathname;
+}
+
+const exchangeKey = (upstream: string, method: string, request: string) => `${upstream} ${method} ${request}`;
+
+export function createTrafficRecorder(file: string) {
+  // Appends are chained so concurrent large responses can't interleave
+  let pending: Promise<void> = Promise.resolve();
+  let startedAt: number | null = null;
+
+  function append(line: SessionLine): Promise<void> {
+    pending = pending
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(path.dirname(file), { recursive: true });
+        await appendFile(file, JSON.stringify(line) + '\n');
+      });
+    return pending;
+  }
+
+  // Saves the session's clock; only the first call counts
+  async function start(now: number) {
+    if (startedAt !== null) return;
+    startedAt = now;
+
+    try {
+      await append({ startedAt });
+    } catch (error) {
+      log.error('error recording upstream traffic', { file, error });
+    }
+  }
+
+  // A request's final response, or the error it failed with after every
+  // retry. Recording failures are logged rather than failing the request.
+  async function record(upstream: string, url: string, init: RequestInit, outcome: Response | unknown) {
+    try {
+      const exchange: RecordedExchange = {
+        t: Date.now(),
+        upstream,
+        method: init.method || 'GET',
+        request: describeRequest(url, init),
+      };
+
+      if (outcome instanceof Response) {
+        exchange.status = outcome.status;
+        exchange.statusText = outcome.statusText;
+        exchange.contentType = outcome.headers.get('content-type') ?? undefined;
+        exchange.body = await outcome.clone().text();
+      } else {
+        exchange.error = outcome instanceof Error ? outcome.message : String(outcome);
+      }
+
+      await append(exchange);
+    } catch (error) {
+      log.error('error recording upstream traffic', { file, upstream, error });
+    }
+  }
+
+  return {
+    start,
+    record,
+  };
+}
+
+export type TrafficRecorder = ReturnType<typeof createTrafficRecorder>;
+
+interface Session {
+  startedAt: number;
+  byKey: Map<string, RecordedExchange[]>;
+}
+
+export function createTrafficReplay(file: string) {
+  let session: Promise<Session> | null = null;
+  // Responses already served per request
+  const served = new Map<string, number>();
+  // Real time of the first `now` call
+  let clockStartedAt: number | null = null;
+
+  function load() {
+    if (!session) {
+      session = readNdjson<SessionLine>(file).then((lines) => {
+        const exchanges = lines.filter((line): line is RecordedExchange => 'upstream' in line);
+        if (exchanges.length === 0) {
+          throw new Error(`No recorded traffic in ${file}`);
+        }
+
+        // Sessions recorded before the start line was added begin at their
+        // first exchange
+        const start = lines.find((line): line is SessionStart => 'startedAt' in line);
+
+        const byKey = new Map<string, RecordedExchange[]>();
+        for (const exchange of exchanges) {
+          const key = exchangeKey(exchange.upstream, exchange.method, exchange.request);
+          const recorded = byKey.get(key);
+          if (recorded) recorded.push(exchange);
+          else byKey.set(key, [exchange]);
+        }
+        return { startedAt: start?.startedAt ?? exchanges[0].t, byKey };
+      });
+      // Let a missing file be retried rather than cached
+      session.catch(() => {
+        session = null;
+      });
+    }
+    return session;
+  }
+
+  return {
+    // The recorded session's start, advancing in real time from the first call
+    async now(): Promise<number> {
+      const { startedAt } = await load();
+      clockStartedAt ??= Date.now();
+      return startedAt + (Date.now() - clockStartedAt);
+    },
+
+    async respond(upstream: string, url: string, init: RequestInit): Promise<Response> {
+      const method = init.method || 'GET';
+      const request = describeRequest(url, init);
+      const key = exchangeKey(upstream, method, request);
+
+      const exchanges = (await load()).byKey.get(key);
+      if (!exchanges) {
+        throw new Error(`No recorded ${upstream} response for ${method} ${request.slice(0, 200)}`);
+      }
+
+      const index = served.get(key) ?? 0;
+      served.set(key, index + 1);
+      const exchange = exchanges[Math.min(index, exchanges.length - 1)];
+
+      if (exchange.error !== undefined) {
+        throw new Error(exchange.error);
+      }
+
+      // These statuses can't carry a body
+      const status = exchange.status ?? 200;
+      const body = status === 204 || status === 304 ? null : exchange.body ?? '';
+      return new Response(body, {
+        status,
+        statusText: exchange.statusText,
+        headers: exchange.contentType ? { 'content-type': exchange.contentType } : undefined,
+      });
+    },
+  };
+}
+
+export type TrafficReplay = ReturnType<typeof createTrafficReplay>;
+
+export function getTrafficRecorder(): TrafficRecorder | null {
+  return singleton('traffic.recorder', () => {
+    const file = process.env.UPSTREAM_RECORD;
+    return file && !process.env.UPSTREAM_REPLAY ? createTrafficRecorder(path.resolve(process.cwd(), file)) : null;
+  });
+}
+
+export function getTrafficReplay(): TrafficReplay | null {
+  return singleton('traffic.replay', () => {
+    const file = process.env.UPSTREAM_REPLAY;
+    return file ? createTrafficReplay(path.resolve(process.cwd(), file)) : null;
+  });
+}
+
+// The time a scan runs at: the recorded session's clock when replaying,
+// otherwise now, which starts the session's clock when recording
+export async function scanTime(): Promise<number> {
+  const replay = getTrafficReplay();
+  if (replay) return replay.now();
+
+  const now = Date.now();
+  await getTrafficRecorder()?.start(now);
+  return now;
+}
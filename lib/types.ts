@@ -5,13 +5,98 @@ export interface TokenData {
   symbol: string;
   uri: string;
   marketCap: number;
+  // Where marketCap came from
+  marketCapSource?: MarketCapSource;
+  // From the pump.fun bonding curve, when it could be read
+  marketCapSol?: number;
+  // Progress along the bonding curve, 0 to 100; 100 once graduated
+  bondingCurveProgress?: number;
+  isGraduated?: boolean;
   deployer: string;
+  // 0 when the holder lookup failed; see holdersError
   holders: number;
+  // Set when holders couldn't be counted, as opposed to there being none
+  holdersError?: string;
   createdAt: number;
   bondingRate: number;
   priceUsd?: number;
+  // Liquidity of the canonical (deepest) pair
+  liquidityUsd?: number;
+  dexId?: string;
+  // Volume and buy/sell counts summed across pairs; price change of the canonical pair
+  volume5m?: number;
+  volume1h?: number;
   volume24h?: number;
+  priceChange5m?: number;
+  priceChange1h?: number;
   priceChange24h?: number;
+  buys5m?: number;
+  sells5m?: number;
+  buys1h?: number;
+  sells1h?: number;
+  buys24h?: number;
+  sells24h?: number;
+  score?: number;
+  // Change per hour over the velocity window
+  holderVelocity?: number;
+  marketCapVelocity?: number;
+  // Holder distribution, pool accounts excluded; percentages of supply
+  top10Share?: number;
+  top20Share?: number;
+  gini?: number;
+  deployerBalance?: number;
+  deployerShare?: number;
+  // 0 (no flags) to 100
+  riskScore?: number;
+  riskFlags?: RiskFlag[];
+  // Where each field came from and whether its source answered
+  provenance?: FieldProvenance;
+  // Set in /api/tokens when the deployer is on the watchlist
+  watchedDeployer?: boolean;
+  // The deployer's cluster, totalled over every member
+  cluster?: ClusterSummary;
+  // Why the blocklist excludes the token, when it does
+  blockedReason?: string;
+}
+
+export type DataSource = 'feed' | 'dexscreener' | 'bondingCurve' | 'rpc' | 'deployerIndex' | 'risk';
+
+export interface FieldStatus {
+  source: DataSource;
+  // 'missing' when the source answered without a value, 'error' when it failed
+  status: 'ok' | 'missing' | 'error';
+  error?: string;
+}
+
+export type FieldProvenance = Partial<Record<keyof TokenData, FieldStatus>>;
+
+// A source that failed for a token (or, without a mint, for the whole scan)
+export interface SourceWarning {
+  source: DataSource;
+  mint?: string;
+  symbol?: string;
+  error: string;
+}
+
+// DexScreener field, or 'bondingCurve' when derived from the pump.fun curve;
+// 'none' when neither is available
+export type MarketCapSource = 'marketCap' | 'fdv' | 'bondingCurve' | 'none';
+
+export type RiskCheck =
+  | 'mint-authority'
+  | 'freeze-authority'
+  | 'deployer-sold'
+  | 'bundled-launch'
+  | 'sniped-launch'
+  | 'rug-funder';
+
+export interface RiskFlag {
+  check: RiskCheck;
+  severity: 'high' | 'medium' | 'low';
+  // Short badge text
+  label: string;
+  // Human-readable explanation
+  detail: string;
 }
 
 export interface DeployerStats {
@@ -19,4 +104,213 @@ export interface DeployerStats {
   totalTokens: number;
   bondedTokens: number;
   bondingRate: number;
+  // Set when the creator has more history than was scanned, so older launches may be missing
+  partial?: boolean;
+  // Set when the deployer's history couldn't be scanned, so the stats may be incomplete
+  error?: string;
+}
+
+export interface DeployerLaunch {
+  mint: string;
+  name?: string;
+  symbol?: string;
+  createdAt: number;
+  source: 'backend' | 'rpc';
+  graduated: boolean;
+  graduatedAt?: number;
+  // Latest market cap seen on DexScreener
+  marketCap?: number;
+}
+
+export interface DeployerLaunchSummary extends DeployerLaunch {
+  peakMarketCap?: number;
+  // Milliseconds from launch to migration
+  timeToGraduation?: number;
+}
+
+export interface DeployerProfile {
+  stats: DeployerStats;
+  launches: DeployerLaunchSummary[];
+}
+
+export interface TokensDiff {
+  added: TokenData[];
+  removed: string[];
+  moved: { mint: string; from: number; to: number }[];
+  // Tokens with any changed data; `deltas` holds the change in each numeric metric
+  changed: { mint: string; token: TokenData; deltas: Record<string, number> }[];
+}
+
+export interface CriteriaSummary {
+  preset?: string;
+  topN: number;
+  rankingLabel: string;
+  description: string[];
+}
+
+export interface HistoryPoint {
+  t: number;
+  holders: number;
+  marketCap: number;
+  priceUsd?: number;
+  volume24h?: number;
+  rank: number | null;
+}
+
+export interface HolderBalance {
+  // Owner wallet, not the token account
+  address: string;
+  amount: number;
+  // Percent of supply
+  share: number;
+}
+
+export interface HolderConcentration {
+  supply: number;
+  // Supply outside the pool accounts; holder shares are percentages of it
+  circulating: number;
+  // Wallets with a non-zero balance, pool accounts excluded
+  holders: number;
+  // Percent of circulating supply held by the largest 10 / 20 holders
+  top10Share: number;
+  top20Share: number;
+  // 0 (evenly spread) to 1 (one holder owns everything)
+  gini: number;
+  deployerBalance: number;
+  deployerShare: number;
+  largest: HolderBalance[];
+  // Bonding curve and AMM pool accounts left out of the figures above
+  excluded: (HolderBalance & { label: string })[];
+}
+
+// How two deployers in a cluster are connected; `via` is the shared funder,
+// the sending wallet, or the reused "name (symbol)"
+export interface ClusterLink {
+  from: string;
+  to: string;
+  reason: 'funder' | 'transfer' | 'metadata';
+  via: string;
+}
+
+export interface RugRecord {
+  mint: string;
+  symbol: string;
+  deployer: string;
+  createdAt: number;
+}
+
+export interface DeployerCluster {
+  // The lowest member address; changes if clusters merge
+  id: string;
+  members: string[];
+  links: ClusterLink[];
+  // Over every member's known launches
+  totalTokens: number;
+  bondedTokens: number;
+  bondingRate: number;
+  rugs: RugRecord[];
+}
+
+export interface ClusterSummary {
+  id: string;
+  size: number;
+  totalTokens: number;
+  bondedTokens: number;
+  bondingRate: number;
+  rugs: number;
+}
+
+export type DeployerListKind = 'block' | 'allow';
+
+export interface DeployerListEntry {
+  address: string;
+  list: DeployerListKind;
+  reason?: string;
+  addedAt: number;
+  source: 'api' | 'import';
+}
+
+export type WatchKind = 'deployer' | 'mint';
+
+export interface WatchEntry {
+  kind: WatchKind;
+  address: string;
+  notes?: string;
+  tags: string[];
+  addedAt: number;
+  updatedAt: number;
+}
+
+export interface WatchlistView {
+  entries: WatchEntry[];
+  // Last scan's data for each watched mint; rank is 0 outside the selection
+  mints: TokenData[];
+  // Tokens in the last scan's feed launched by watched deployers, newest first
+  launches: TokenData[];
+}
+
+export interface TokenDetail {
+  // rank is 0 when the token isn't in the current selection
+  token: TokenData;
+  deployer: DeployerStats;
+  launches: DeployerLaunch[];
+  concentration: HolderConcentration | null;
+  scannedAt: number;
+}
+
+export interface BacktestOptions {
+  from: number;
+  to: number;
+  // How long after selection outcomes are followed
+  horizon: number;
+  // A selection is a hit when its market cap peaks at this multiple of its
+  // market cap when selected
+  hitMultiple: number;
+}
+
+export interface BacktestSelection {
+  mint: string;
+  symbol: string;
+  deployer: string;
+  selectedAt: number;
+  rank: number;
+  marketCap: number;
+  holders: number;
+  graduated: boolean;
+  peakMarketCap: number;
+  // Peak market cap over the market cap at selection
+  peakMultiple?: number;
+  // Largest fall from a running peak, in percent
+  maxDrawdown: number;
+  // The last holder count recorded within the horizon
+  holdersAfter?: number;
+  holderChange?: number;
+  hit: boolean;
+  // False until the horizon has passed; outcomes may still change
+  complete: boolean;
+}
+
+export interface BacktestSummary {
+  selections: number;
+  // Selections whose horizon hasn't passed, left out of the rates below
+  pending: number;
+  graduated: number;
+  graduationRate?: number;
+  hits: number;
+  hitRate?: number;
+  averagePeakMultiple?: number;
+  medianMaxDrawdown?: number;
+  averageHolderChange?: number;
+}
+
+export interface BacktestRun {
+  label: string;
+  description: string[];
+  summary: BacktestSummary;
+  selections: BacktestSelection[];
+}
+
+export interface BacktestReport extends BacktestOptions {
+  scans: number;
+  runs: BacktestRun[];
 }
@@ -0,0 +1,77 @@
+import { CriteriaSummary, SourceWarning, TokenData, WatchEntry, WatchlistView } from '@/lib/types';
+import { ScanSnapshot } from '@/lib/scanner';
+import { Criteria, PRESETS, applyCriteria, describeCriteria, describeRanking } from '@/lib/rules';
+
+// Dashboard view
+//
+// What /api/tokens returns and /api/tokens/stream pushes: the ranked tokens
+// under the requested criteria plus scanner status, source warnings and the
+// watchlist with its latest data.
+
+export interface TokensView {
+  tokens: TokenData[];
+  lastUpdated: number;
+  nextUpdate: number;
+  scanning: boolean;
+  stale: boolean;
+  lastError?: string;
+  lastErrorAt?: number;
+  criteria: Criteria & CriteriaSummary;
+  presets: string[];
+  // Sources that failed in the last scan, per mint
+  warnings: SourceWarning[];
+  lastScanId?: string;
+  watchlist: WatchlistView;
+  message?: string;
+}
+
+// Watched mints and watched deployers' launches from the last scan, ranked
+// under the scan's own criteria
+export function buildWatchlistView(snapshot: ScanSnapshot, entries: WatchEntry[]): WatchlistView {
+  const ranks = new Map(snapshot.tokens.map((token) => [token.mint, token.rank]));
+  const watched = new Map(snapshot.watched.map((token) => [token.mint, token]));
+  const deployers = new Set(entries.filter((entry) => entry.kind === 'deployer').map((entry) => entry.address));
+
+  const mints = entries
+    .filter((entry) => entry.kind === 'mint' && watched.has(entry.address))
+    .map((entry) => watched.get(entry.address)!)
+    .map((token) => ({ ...token, rank: ranks.get(token.mint) ?? 0, watchedDeployer: deployers.has(token.deployer) }));
+
+  const launches = snapshot.candidates
+    .filter((token) => deployers.has(token.deployer))
+    .map((token) => ({ ...token, rank: ranks.get(token.mint) ?? 0, watchedDeployer: true }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  return { entries, mints, launches };
+}
+
+// `requested` re-ranks the last scan's candidates as of the scan, so ages
+// match the scan's own ranking; otherwise that ranking is used. Tokens from
+// watched deployers are flagged.
+export function buildTokensView(
+  snapshot: ScanSnapshot,
+  requested: Criteria | null,
+  watchEntries: WatchEntry[] = []
+): TokensView {
+  const { candidates, criteria: scanCriteria, watched, scannedAt, ...status } = snapshot;
+  const criteria = requested || scanCriteria;
+  const ranked = requested ? applyCriteria(candidates, requested, scannedAt).tokens : snapshot.tokens;
+
+  const deployers = new Set(watchEntries.filter((entry) => entry.kind === 'deployer').map((entry) => entry.address));
+  const tokens = ranked.map((token) => (deployers.has(token.deployer) ? { ...token, watchedDeployer: true } : token));
+
+  return {
+    ...status,
+    tokens,
+    criteria: {
+      ...criteria,
+      rankingLabel: describeRanking(criteria.ranking),
+      description: describeCriteria(criteria),
+    },
+    presets: Object.keys(PRESETS),
+    watchlist: buildWatchlistView(snapshot, watchEntries),
+    message: tokens.length === 0
+      ? (snapshot.lastUpdated === 0 ? 'First scan in progress' : 'No tokens available')
+      : undefined,
+  };
+}
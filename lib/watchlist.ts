@@ -0,0 +1,222 @@
+import path from 'path';
+import { NextResponse } from 'next/server';
+import { WatchEntry, WatchKind } from '@/lib/types';
+import { DATA_DIR, readJson, writeJson } from '@/lib/store';
+import { isValidAddress } from '@/lib/solana';
+import { Schema, ValidationError, array, object, optional, string } from '@/lib/schema';
+import { singleton } from '@/lib/singleton';
+import { log } from '@/lib/log';
+
+// Watchlist
+//
+// Deployer addresses and mints we follow whether or not they make the top N,
+// each with optional notes and tags, kept in one JSON file under DATA_DIR.
+// Watched mints are enriched on every scan even when the feed doesn't return
+// them; launches from watched deployers are flagged in /api/tokens.
+
+export const WATCH_KINDS: WatchKind[] = ['deployer', 'mint'];
+
+export type WatchInput = {
+  notes?: string;
+  tags?: string[];
+};
+
+export interface WatchlistStore {
+  load(): Promise<WatchEntry[]>;
+  save(entries: WatchEntry[]): Promise<void>;
+}
+
+// Each watched mint outside the feed costs a few upstream calls per scan
+const MAX_MINTS = Number(process.env.WATCHLIST_MAX_MINTS) || 50;
+const MAX_ENTRIES = 1000;
+const MAX_NOTES = 1000;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 32;
+
+// Carries the HTTP status the API answers with
+export class WatchlistError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 409) {
+    super(message);
+    this.name = 'WatchlistError';
+  }
+}
+
+export const watchInputSchema: Schema<WatchInput> = object<WatchInput>({
+  notes: optional(string),
+  tags: optional(array(string)),
+});
+
+export function parseKind(value: string | null): WatchKind {
+  if (!WATCH_KINDS.includes(value as WatchKind)) {
+    throw new WatchlistError(`kind must be one of: ${WATCH_KINDS.join(', ')}`, 400);
+  }
+  return value as WatchKind;
+}
+
+// Tags are trimmed, lowercased and deduplicated
+function normalizeInput(input: WatchInput): WatchInput {
+  if (input.notes !== undefined && input.notes.length > MAX_NOTES) {
+    throw new WatchlistError(`notes are limited to ${MAX_NOTES} characters`, 400);
+  }
+
+  if (input.tags === undefined) return input;
+
+  const tags = Array.from(new Set(input.tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+  if (tags.length > MAX_TAGS) {
+    throw new WatchlistError(`At most ${MAX_TAGS} tags per entry`, 400);
+  }
+  if (tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    throw new WatchlistError(`Tags are limited to ${MAX_TAG_LENGTH} characters`, 400);
+  }
+
+  return { ...input, tags };
+}
+
+export function createFileWatchlistStore(file: string): WatchlistStore {
+  return {
+    load: () => readJson<WatchEntry[]>(file, []),
+    save: (entries) => writeJson(file, entries),
+  };
+}
+
+export function createWatchlist(store: WatchlistStore, now: () => number = Date.now) {
+  // Loaded once, then kept in step with every save
+  let loading: Promise<WatchEntry[]> | null = null;
+
+  function load(): Promise<WatchEntry[]> {
+    if (!loading) {
+      loading = store.load().catch((error) => {
+        loading = null;
+        throw error;
+      });
+    }
+    return loading;
+  }
+
+  // Runs read-modify-write cycles one at a time
+  let queue: Promise<unknown> = Promise.resolve();
+  function serial<T>(task: () => Promise<T>): Promise<T> {
+    const run = queue.then(task);
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async function save(entries: WatchEntry[]) {
+    await store.save(entries);
+    loading = Promise.resolve(entries);
+  }
+
+  const matches = (kind: WatchKind, address: string) => (entry: WatchEntry) =>
+    entry.kind === kind && entry.address === address;
+
+  async function list(kind?: WatchKind): Promise<WatchEntry[]> {
+    const entries = await load();
+    return kind ? entries.filter((entry) => entry.kind === kind) : entries;
+  }
+
+  function add(kind: WatchKind, address: string, input: WatchInput = {}): Promise<WatchEntry> {
+    return serial(async () => {
+      if (!isValidAddress(address)) {
+        throw new WatchlistError(`${address} is not a valid address`, 400);
+      }
+      const { notes, tags = [] } = normalizeInput(input);
+
+      const entries = await load();
+      if (entries.some(matches(kind, address))) {
+        throw new WatchlistError(`${address} is already watched as a ${kind}`, 409);
+      }
+      if (entries.length >= MAX_ENTRIES) {
+        throw new WatchlistError(`The watchlist is limited to ${MAX_ENTRIES} entries`, 400);
+      }
+      if (kind === 'mint' && entries.filter((entry) => entry.kind === 'mint').length >= MAX_MINTS) {
+        throw new WatchlistError(`At most ${MAX_MINTS} mints can be watched (WATCHLIST_MAX_MINTS)`, 400);
+      }
+
+      const entry: WatchEntry = { kind, address, notes: notes || undefined, tags, addedAt: now(), updatedAt: now() };
+      await save([...entries, entry]);
+      return entry;
+    });
+  }
+
+  // Only the fields present in `input` change; an empty notes string clears them
+  function update(kind: WatchKind, address: string, input: WatchInput): Promise<WatchEntry> {
+    return serial(async () => {
+      const { notes, tags } = normalizeInput(input);
+
+      const entries = await load();
+      const existing = entries.find(matches(kind, address));
+      if (!existing) {
+        throw new WatchlistError(`${address} is not watched as a ${kind}`, 404);
+      }
+
+      const entry: WatchEntry = {
+        ...existing,
+        notes: notes === undefined ? existing.notes : notes || undefined,
+        tags: tags ?? existing.tags,
+        updatedAt: now(),
+      };
+      await save(entries.map((candidate) => (candidate === existing ? entry : candidate)));
+      return entry;
+    });
+  }
+
+  function remove(kind: WatchKind, address: string): Promise<void> {
+    return serial(async () => {
+      const entries = await load();
+      if (!entries.some(matches(kind, address))) {
+        throw new WatchlistError(`${address} is not watched as a ${kind}`, 404);
+      }
+      await save(entries.filter((entry) => !matches(kind, address)(entry)));
+    });
+  }
+
+  return {
+    list,
+    add,
+    update,
+    remove,
+  };
+}
+
+export type Watchlist = ReturnType<typeof createWatchlist>;
+
+const ERROR_LABELS: Record<number, string> = {
+  400: 'Invalid watchlist entry',
+  404: 'Not watched',
+  409: 'Already watched',
+};
+
+// The API's answer to a failed watchlist call; body validation errors are 400s too.
+// Matched by name: each route bundle has its own copy of the class, and the
+// shared watchlist may have been created by another one.
+export function watchlistErrorResponse(error: unknown): NextResponse {
+  const status = error instanceof Error && error.name === 'WatchlistError'
+    ? (error as WatchlistError).status
+    : error instanceof ValidationError ? 400 : 500;
+  if (status === 500) {
+    log.error('watchlist API error', { error });
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: ERROR_LABELS[status] || 'Failed to update watchlist',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status }
+  );
+}
+
+export const watchlist = singleton('watchlist', () =>
+  createWatchlist(createFileWatchlistStore(path.join(DATA_DIR, 'watchlist.json')))
+);
+
+// For views that should still answer, without the watchlist, when it can't be read
+export async function watchedEntries(): Promise<WatchEntry[]> {
+  try {
+    return await watchlist.list();
+  } catch (error) {
+    log.warn('error loading watchlist', { error });
+    return [];
+  }
+}
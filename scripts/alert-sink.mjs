@@ -0,0 +1,43 @@
+// Local HTTP sink for testing alert delivery
+//
+// Accepts any POST and prints its path and JSON body. Point the alert
+// channels at it:
+//
+//   ALERT_WEBHOOK_URL=http://localhost:9009/webhook
+//   ALERT_DISCORD_WEBHOOK_URL=http://localhost:9009/discord
+//   ALERT_TELEGRAM_API_URL=http://localhost:9009/telegram
+//
+// FAIL_FIRST=n answers the first n requests with a 500 to exercise retries.
+
+import http from 'http';
+
+const port = Number(process.env.PORT) || 9009;
+let failuresLeft = Number(process.env.FAIL_FIRST) || 0;
+
+const server = http.createServer((request, response) => {
+  let body = '';
+  request.on('data', (chunk) => {
+    body += chunk;
+  });
+  request.on('end', () => {
+    const failing = failuresLeft > 0;
+    if (failing) failuresLeft--;
+
+    let parsed = body;
+    try {
+      parsed = JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      // Not JSON; print as is
+    }
+
+    console.log(`${new Date().toISOString()} ${request.method} ${request.url} -> ${failing ? 500 : 200}`);
+    console.log(parsed);
+
+    response.writeHead(failing ? 500 : 200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ ok: !failing }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`📥 Alert sink listening on http://localhost:${port}`);
+});
@@ -0,0 +1,267 @@
+// Headless scanner
+//
+// Runs the dashboard's scan pipeline from a terminal or cron, without the web
+// app: same feed, enrichment, criteria, history and deployer lists. Results go
+// to stdout and logs to stderr, so the output can be piped.
+//
+//   npm run scan -- --preset proven-deployers --min-holders 100 --top 10
+//   npm run scan -- --format ndjson --interval 5m >> picks.ndjson
+//
+// Exits 1 when the feed can't be fetched, when every token failed enrichment,
+// or when a source the criteria need failed for every token; 2 with --strict
+// when any source failed for some tokens; and 64 on bad arguments. With
+// --interval it keeps scanning after a failure and reports it on stderr.
+
+import { loadEnvConfig } from '@next/env';
+import type { EnrichedToken } from '@/lib/enrich';
+import type { Criteria } from '@/lib/rules';
+import type { ScanResult } from '@/lib/scan';
+
+type OutputFormat = 'table' | 'json' | 'ndjson' | 'csv';
+
+const FORMATS: OutputFormat[] = ['table', 'json', 'ndjson', 'csv'];
+
+// Flags passed straight to parseCriteria, besides --min-*/--max-*
+const CRITERIA_FLAGS = ['preset', 'top', 'sort', 'order', 'weights'];
+
+const EXIT_UPSTREAM = 1;
+const EXIT_WARNINGS = 2;
+const EXIT_USAGE = 64;
+
+const USAGE = `Usage: npm run scan -- [options]
+
+Criteria (as /api/tokens takes them):
+  --preset <name>          start from a preset (default: ACTIVE_PRESET)
+  --min-<field> <n>        add a minimum, e.g. --min-holders 100 --min-market-cap 10000
+  --max-<field> <n>        add a maximum, e.g. --max-age 60 --max-top10-share 40
+  --sort <field>           rank by one field
+  --weights <f:w,...>      rank by a weighted score, e.g. holders:0.6,marketCap:0.4
+  --order asc|desc
+  --top <n>
+
+Output:
+  --format table|json|ndjson|csv   (default: table)
+  --interval <30s|5m|1h>   scan repeatedly instead of once
+  --strict                 exit 2 when any data source failed for some tokens
+  --verbose                log progress to stderr
+  --help
+`;
+
+interface CliOptions {
+  format: OutputFormat;
+  interval?: string;
+  strict: boolean;
+  verbose: boolean;
+  help: boolean;
+  criteria: URLSearchParams;
+}
+
+class UsageError extends Error {}
+
+const camelCase = (flag: string) => flag.replace(/-([a-z0-9])/g, (_, letter: string) => letter.toUpperCase());
+
+function parseOptions(argv: string[]): CliOptions {
+  const options: CliOptions = { format: 'table', strict: false, verbose: false, help: false, criteria: new URLSearchParams() };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      throw new UsageError(`Unexpected argument "${arg}"`);
+    }
+
+    const [flag, inline] = arg.slice(2).split(/=(.*)/s);
+    if (flag === 'strict' || flag === 'verbose' || flag === 'help') {
+      options[flag] = true;
+      continue;
+    }
+
+    const known = flag === 'format' || flag === 'interval' || CRITERIA_FLAGS.includes(flag) || /^(min|max)-/.test(flag);
+    if (!known) {
+      throw new UsageError(`Unknown option --${flag}`);
+    }
+
+    const value = inline ?? argv[++i];
+    if (value === undefined) {
+      throw new UsageError(`--${flag} needs a value`);
+    }
+
+    if (flag === 'format') {
+      if (!FORMATS.includes(value as OutputFormat)) {
+        throw new UsageError(`--format must be one of: ${FORMATS.join(', ')}`);
+      }
+      options.format = value as OutputFormat;
+    } else if (flag === 'interval') {
+      options.interval = value;
+    } else {
+      options.criteria.set(camelCase(flag), value);
+    }
+  }
+
+  return options;
+}
+
+// "30s" isn't a history window, but is a sensible scan interval
+function parseInterval(value: string, parseWindow: (value: string) => number | null): number | null {
+  const seconds = value.match(/^(\d+)s$/);
+  return seconds ? Number(seconds[1]) * 1000 : parseWindow(value);
+}
+
+// Why a scan that ran is still an upstream failure: nothing was enriched, or
+// a field the criteria filter or rank on failed for every token, so the
+// output is ranked on nothing. Null when it isn't one.
+function upstreamFailure(result: ScanResult): string | null {
+  const { candidates, criteria } = result;
+  if (candidates.length === 0) {
+    return result.warnings.length > 0 ? 'Every feed token was invalid' : null;
+  }
+
+  const nothingEnriched = (token: EnrichedToken) => {
+    const statuses = Object.values(token.provenance || {});
+    return statuses.length > 0 && statuses.every((status) => status?.status === 'error');
+  };
+  if (candidates.every(nothingEnriched)) {
+    return `Every data source failed for all ${candidates.length} tokens`;
+  }
+
+  const fields = new Set([
+    ...criteria.filters.map((filter) => filter.field),
+    ...(criteria.ranking.field ? [criteria.ranking.field] : Object.keys(criteria.ranking.weights || {})),
+  ]);
+  for (const field of Array.from(fields)) {
+    const failed = candidates.map((token) => token.provenance?.[field as keyof EnrichedToken]);
+    if (failed.every((status) => status?.status === 'error')) {
+      return `${failed[0]!.source} failed for all ${candidates.length} tokens, so none has ${field}`;
+    }
+  }
+
+  return null;
+}
+
+function exit(code: number): never {
+  // Let piped output drain before exiting
+  process.stdout.write('', () => process.exit(code));
+  return undefined as never;
+}
+
+async function main() {
+  let options: CliOptions;
+  try {
+    options = parseOptions(process.argv.slice(2));
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return exit(EXIT_USAGE);
+  }
+
+  if (options.help) {
+    process.stdout.write(USAGE);
+    return exit(0);
+  }
+
+  // The same .env files the web app reads, loaded before any module reads
+  // its settings; stdout is kept for results
+  loadEnvConfig(process.cwd(), false, { info: () => undefined, error: console.error });
+  process.env.LOG_OUTPUT = process.env.LOG_OUTPUT || 'stderr';
+  process.env.LOG_LEVEL = options.verbose ? 'info' : process.env.LOG_LEVEL || 'warn';
+
+  const { parseCriteria, getActiveCriteria, describeCriteria } = await import('@/lib/rules');
+  const { parseWindow } = await import('@/lib/history');
+  const { runScan } = await import('@/lib/scan');
+  const { scanContext } = await import('@/lib/scanner');
+  const { tokenTable, toCsv } = await import('@/lib/export');
+  const { formatTimeAgo, formatUsd } = await import('@/lib/format');
+
+  let criteria: Criteria;
+  let interval: number | null = null;
+  try {
+    criteria = parseCriteria(options.criteria) || getActiveCriteria();
+    if (options.interval !== undefined) {
+      interval = parseInterval(options.interval, parseWindow);
+      if (!interval) throw new UsageError('--interval must look like 30s, 5m or 1h');
+    }
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n`);
+    return exit(EXIT_USAGE);
+  }
+
+  const context = scanContext();
+  let scans = 0;
+
+  async function scanOnce(): Promise<number> {
+    let result;
+    try {
+      result = await runScan(context, criteria);
+    } catch (error) {
+      process.stderr.write(`Scan failed: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+      return EXIT_UPSTREAM;
+    }
+
+    // When nothing passes the filters, the best candidates are ranked anyway
+    const { scannedAt, fallback } = result;
+    const table = tokenTable(result.ranked);
+
+    if (options.format === 'json') {
+      process.stdout.write(
+        JSON.stringify({ scannedAt, fallback, criteria: describeCriteria(result.criteria), ...table, warnings: result.warnings }, null, 2) + '\n'
+      );
+    } else if (options.format === 'ndjson') {
+      process.stdout.write(table.rows.map((row) => JSON.stringify({ scannedAt, fallback, ...row }) + '\n').join(''));
+    } else if (options.format === 'csv') {
+      // One header for the whole run
+      const csv = toCsv(table);
+      process.stdout.write(scans === 0 ? csv : csv.slice(csv.indexOf('\r\n') + 2));
+    } else {
+      const rows = [
+        ['#', 'SYMBOL', 'HOLDERS', 'MARKET CAP', 'DEV BONDED', 'RISK', 'CREATED', 'MINT'],
+        ...result.ranked.map((token) => [
+          `${token.rank}`,
+          token.symbol,
+          token.holdersError ? '?' : `${token.holders}`,
+          formatUsd(token.marketCap),
+          `${token.bondingRate.toFixed(0)}%`,
+          token.riskScore === undefined ? '—' : `${token.riskScore}`,
+          formatTimeAgo(token.createdAt, scannedAt),
+          token.mint,
+        ]),
+      ];
+      const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+      const lines = rows.map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+
+      process.stdout.write(
+        [
+          `${new Date(scannedAt).toISOString()}  ${describeCriteria(result.criteria).join(' • ')}`,
+          ...(fallback ? ['FALLBACK: no token meets the criteria; the best candidates are ranked instead'] : []),
+          ...(result.ranked.length > 0 ? lines : ['No tokens meet the criteria']),
+          '',
+        ].join('\n') + (interval ? '\n' : '')
+      );
+    }
+    scans++;
+
+    // Each one is already logged as it happens
+    if (result.warnings.length > 0) {
+      const sources = Array.from(new Set(result.warnings.map((warning) => warning.source)));
+      process.stderr.write(`${result.warnings.length} source warnings (${sources.join(', ')})\n`);
+    }
+
+    const failure = upstreamFailure(result);
+    if (failure) {
+      process.stderr.write(`Scan failed: ${failure}\n`);
+      return EXIT_UPSTREAM;
+    }
+    return options.strict && result.warnings.length > 0 ? EXIT_WARNINGS : 0;
+  }
+
+  if (!interval) {
+    return exit(await scanOnce());
+  }
+
+  for (;;) {
+    await scanOnce();
+    await new Promise((resolve) => setTimeout(resolve, interval!));
+  }
+}
+
+main().catch((error) => {
+  process.stderr.write(`${error instanceof Error ? error.stack : error}\n`);
+  exit(EXIT_UPSTREAM);
+});
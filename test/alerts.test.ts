@@ -0,0 +1,136 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createAlerter } from '@/lib/alerts';
+import { createWebhookChannel } from '@/lib/alerts/channels';
+import { createFileAlertStore } from '@/lib/alerts/outbox';
+import { createDeployerIndex } from '@/lib/deployers';
+import { Providers } from '@/lib/providers';
+import { createFixtureChain, createFixtureFeed, createFixtureMarket } from '@/lib/providers/fixtures';
+import { Criteria, getPreset } from '@/lib/rules';
+import { runScan } from '@/lib/scan';
+
+const FIXTURES = path.resolve('fixtures/default');
+
+// Like scripts/alert-sink.mjs: keeps every JSON body it accepts and answers
+// the first `failFirst` requests with a 500
+function startSink() {
+  const received: Record<string, unknown>[] = [];
+  let failFirst = 0;
+
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      const failing = failFirst > 0;
+      if (failing) failFirst--;
+      else received.push(JSON.parse(body));
+
+      response.writeHead(failing ? 500 : 200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ ok: !failing }));
+    });
+  });
+
+  return new Promise<{ url: string; received: typeof received; fail: (count: number) => void; close: () => void }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook`,
+        received,
+        fail: (count) => (failFirst = count),
+        close: () => server.close(),
+      });
+    });
+  });
+}
+
+function scan(criteria: Criteria) {
+  const chain = createFixtureChain(FIXTURES);
+  const providers: Providers = { feed: createFixtureFeed(FIXTURES), market: createFixtureMarket(FIXTURES), chain };
+  return runScan({ providers, deployers: createDeployerIndex({ chain, market: providers.market }) }, criteria);
+}
+
+describe('alert delivery', () => {
+  let sink: Awaited<ReturnType<typeof startSink>>;
+  let dir: string;
+  let time: number;
+
+  before(async () => {
+    sink = await startSink();
+  });
+
+  after(() => {
+    sink.close();
+  });
+
+  async function setup() {
+    sink.received.length = 0;
+    dir = await mkdtemp(path.join(os.tmpdir(), 'alerts-'));
+    time = Date.now();
+    return createAlerter({
+      channels: [createWebhookChannel(sink.url)],
+      store: createFileAlertStore(dir),
+      thresholds: { holders: [], marketCap: [] },
+      cooldown: 0,
+      now: () => time,
+    });
+  }
+
+  it('posts an alert for every token that enters the top N', async () => {
+    const alerter = await setup();
+    const result = await scan(getPreset('default'));
+    assert.equal(result.fallback, false);
+    assert.ok(result.ranked.length > 0);
+
+    await alerter.handleScan(result);
+
+    const top = sink.received.filter((body) =>
+      (body.reasons as { trigger: string }[]).some((reason) => reason.trigger === 'entered-top')
+    );
+    assert.deepEqual(top.map((body) => body.mint).sort(), result.ranked.map((token) => token.mint).sort());
+    assert.ok(sink.received.every((body) => body.type === 'token-alert'));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('does not report a fallback ranking as the top N', async () => {
+    const alerter = await setup();
+    const criteria = getPreset('default');
+    const result = await scan({ ...criteria, filters: [...criteria.filters, { field: 'holders', op: 'gte', value: 1e9 }] });
+    assert.equal(result.fallback, true);
+    assert.ok(result.ranked.length > 0);
+
+    const alerts = await alerter.handleScan(result);
+
+    assert.deepEqual(alerts, []);
+    assert.deepEqual(sink.received, []);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('retries a failed delivery on a later scan', async () => {
+    const alerter = await setup();
+    const result = await scan(getPreset('default'));
+    const count = result.ranked.length;
+
+    sink.fail(1);
+    await alerter.handleScan(result);
+    assert.equal(sink.received.length, count - 1);
+
+    const [failed] = (await alerter.recent()).filter((delivery) => delivery.status === 'pending');
+    assert.equal(failed.attempts.length, 1);
+
+    // Past the first backoff; nothing new is detected
+    time += 30 * 1000;
+    await alerter.handleScan(result);
+
+    assert.equal(sink.received.length, count);
+    const retried = (await alerter.recent()).find((delivery) => delivery.id === failed.id)!;
+    assert.equal(retried.status, 'delivered');
+    assert.equal(retried.attempts.length, 2);
+    await rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { SESSION_COOKIE, authorize, authorizeLookup, clientIp, createSession } from '@/lib/auth';
+
+const request = (headers: Record<string, string> = {}) => new NextRequest('http://localhost/api/tokens', { headers });
+
+describe('clientIp', () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXIES;
+  });
+
+  it('takes the address the server recorded without trusted proxies', () => {
+    assert.equal(clientIp(request({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4', 'x-real-ip': '5.5.5.5' })), '1.2.3.4');
+    assert.equal(clientIp(request()), 'unknown');
+  });
+
+  it('takes the right-most hop that is not a trusted proxy', () => {
+    process.env.TRUSTED_PROXIES = '10.0.0.2, 10.0.0.3';
+    assert.equal(clientIp(request({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4, 10.0.0.3' })), '1.2.3.4');
+    assert.equal(clientIp(request({ 'x-forwarded-for': '1.2.3.4' })), '1.2.3.4');
+  });
+
+  it('falls back to X-Real-IP behind a trusted proxy', () => {
+    process.env.TRUSTED_PROXIES = '10.0.0.2';
+    assert.equal(clientIp(request({ 'x-real-ip': '1.2.3.4' })), '1.2.3.4');
+  });
+});
+
+describe('authorize', () => {
+  it('limits anonymous callers by address', () => {
+    const status = (address: string) => {
+      const access = authorize(request({ 'x-forwarded-for': address }));
+      return access.ok ? 200 : access.response.status;
+    };
+
+    const noisy = Array.from({ length: 12 }, () => status('198.51.100.1'));
+    assert.ok(noisy.includes(429));
+    assert.equal(status('198.51.100.2'), 200);
+  });
+
+  it('limits dashboard sessions per session', () => {
+    const [first, second] = [createSession(), createSession()];
+    const access = authorize(request({ cookie: `${SESSION_COOKIE}=${first.value}` }));
+    const other = authorize(request({ cookie: `${SESSION_COOKIE}=${second.value}` }));
+
+    assert.ok(access.ok && other.ok);
+    assert.equal(access.client.tier, 'session');
+    assert.notEqual(access.client.id, other.client.id);
+  });
+
+  it('gives dashboard sessions no write permissions', () => {
+    const access = authorize(request({ cookie: `${SESSION_COOKIE}=${createSession().value}` }), { permission: 'watchlist' });
+    assert.equal(access.ok ? 200 : access.response.status, 403);
+  });
+
+  it('rate limits anonymous callers that rotate X-Forwarded-For', () => {
+    const statuses = Array.from({ length: 120 }, (_, i) => {
+      const access = authorize(request({ 'x-forwarded-for': `203.0.113.${i}` }));
+      return access.ok ? 200 : access.response.status;
+    });
+
+    assert.ok(statuses.includes(429));
+  });
+
+  it('gives on-demand lookups a smaller limit than other requests', () => {
+    process.env.API_KEYS = 'lookup-key:standard';
+    try {
+      const statuses = Array.from({ length: 8 }, () => {
+        const access = authorize(request({ 'x-api-key': 'lookup-key' }));
+        assert.ok(access.ok);
+        const lookup = authorizeLookup(access.client);
+        return lookup.ok ? 200 : lookup.response.status;
+      });
+
+      assert.deepEqual(statuses, [200, 200, 200, 200, 200, 429, 429, 429]);
+    } finally {
+      delete process.env.API_KEYS;
+    }
+  });
+
+  it('lets only privileged keys send test alerts', () => {
+    process.env.API_KEYS = 'partner-key:standard,ops-key:privileged';
+    try {
+      const status = (headers: Record<string, string>) => {
+        const access = authorize(request(headers), { permission: 'alerts' });
+        return access.ok ? 200 : access.response.status;
+      };
+
+      assert.equal(status({}), 403);
+      assert.equal(status({ 'x-api-key': 'partner-key' }), 403);
+      assert.equal(status({ 'x-api-key': 'ops-key' }), 200);
+    } finally {
+      delete process.env.API_KEYS;
+    }
+  });
+});
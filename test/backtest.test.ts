@@ -0,0 +1,126 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createFileArchiveStore, createScanArchive } from '@/lib/archive';
+import { BacktestCandidate, createBacktester } from '@/lib/backtest';
+import { createDeployerIndex } from '@/lib/deployers';
+import { EnrichedToken } from '@/lib/enrich';
+import { createHistory } from '@/lib/history';
+import { createFixtureChain, createFixtureMarket } from '@/lib/providers/fixtures';
+import { getPreset } from '@/lib/rules';
+import { createFileStore } from '@/lib/store';
+import { BacktestSelection } from '@/lib/types';
+
+const FIXTURES = path.resolve('fixtures/default');
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+// Five minutes before midnight, so the scans and history span two day files
+const T0 = Date.UTC(2025, 0, 31, 23, 55);
+
+const token = (mint: string, fields: Partial<EnrichedToken> = {}): EnrichedToken => ({
+  mint,
+  name: mint,
+  symbol: mint.toUpperCase(),
+  uri: '',
+  marketCap: 20000,
+  deployer: `${mint}-deployer`,
+  holders: 200,
+  createdAt: T0 - 10 * MINUTE,
+  bondingRate: 0,
+  ...fields,
+});
+
+const row = (t: number, mint: string, marketCap: number, holders: number) =>
+  ({ t, mint, symbol: mint.toUpperCase(), holders, marketCap, rank: null });
+
+// The fields a backtest works out, without those copied from the pick
+const outcome = ({ mint, selectedAt, graduated, peakMarketCap, peakMultiple, maxDrawdown, holdersAfter, holderChange, hit, complete }: BacktestSelection) =>
+  ({ mint, selectedAt, peakMarketCap, peakMultiple, maxDrawdown, holdersAfter, holderChange, graduated, hit, complete });
+
+const CANDIDATES: BacktestCandidate[] = [{ label: 'default', criteria: getPreset('default') }];
+const OPTIONS = { from: T0 - MINUTE, to: T0 + 10 * MINUTE, horizon: 6 * HOUR, hitMultiple: 2 };
+
+let dir: string;
+let backtester: ReturnType<typeof createBacktester>;
+
+before(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), 'backtest-'));
+
+  const archiveStore = createFileArchiveStore(path.join(dir, 'scans'));
+  // `pump` only passes the filters from the second scan on
+  await archiveStore.append({ t: T0, tokens: [token('moon'), token('pump', { holders: 100 })] });
+  await archiveStore.append({ t: T0 + 5 * MINUTE, tokens: [token('moon'), token('pump')] });
+  // After `to`: only tells when moon graduated
+  await archiveStore.append({ t: T0 + 30 * MINUTE, tokens: [token('moon', { isGraduated: true })] });
+
+  const snapshots = createFileStore(path.join(dir, 'snapshots'));
+  await snapshots.append([
+    row(T0 + 10 * MINUTE, 'moon', 50000, 300),
+    row(T0 + 15 * MINUTE, 'pump', 10000, 150),
+    row(T0 + 20 * MINUTE, 'moon', 30000, 350),
+    // Past moon's horizon
+    row(T0 + 7 * HOUR, 'moon', 900000, 900),
+  ]);
+
+  const chain = createFixtureChain(FIXTURES);
+  backtester = createBacktester({
+    archive: createScanArchive(archiveStore),
+    history: createHistory(snapshots),
+    deployers: createDeployerIndex({ chain, market: createFixtureMarket(FIXTURES) }),
+  });
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('backtest', () => {
+  it('follows each pick from the first scan that selected it', async () => {
+    const report = await backtester.run(CANDIDATES, OPTIONS, T0 + 24 * HOUR);
+    const [run] = report.runs;
+
+    assert.equal(report.scans, 2);
+    assert.deepEqual(run.selections.map(outcome), [
+      {
+        mint: 'moon',
+        selectedAt: T0,
+        peakMarketCap: 50000,
+        peakMultiple: 2.5,
+        maxDrawdown: 40,
+        holdersAfter: 350,
+        holderChange: 150,
+        graduated: true,
+        hit: true,
+        complete: true,
+      },
+      {
+        mint: 'pump',
+        selectedAt: T0 + 5 * MINUTE,
+        peakMarketCap: 20000,
+        peakMultiple: 1,
+        maxDrawdown: 50,
+        holdersAfter: 150,
+        holderChange: -50,
+        graduated: false,
+        hit: false,
+        complete: true,
+      },
+    ]);
+    assert.deepEqual(
+      { graduationRate: run.summary.graduationRate, hitRate: run.summary.hitRate, medianMaxDrawdown: run.summary.medianMaxDrawdown },
+      { graduationRate: 50, hitRate: 50, medianMaxDrawdown: 45 }
+    );
+  });
+
+  it('leaves picks whose horizon has not passed out of the rates', async () => {
+    const report = await backtester.run(CANDIDATES, OPTIONS, T0 + HOUR);
+    const { summary } = report.runs[0];
+
+    assert.equal(summary.selections, 2);
+    assert.equal(summary.pending, 2);
+    assert.equal(summary.hitRate, undefined);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { createClusterIndex } from '@/lib/clusters';
+import { createDeployerIndex } from '@/lib/deployers';
+import { createRiskAnalyzer } from '@/lib/risk';
+import { blockReason } from '@/lib/lists';
+import { createFixtureChain, createFixtureFeed, createFixtureMarket } from '@/lib/providers/fixtures';
+import { encodeBase58 } from '@/lib/solana';
+import { DeployerListEntry } from '@/lib/types';
+
+const FIXTURES = path.resolve('fixtures/default');
+
+// Funded by the same wallet
+const GIGA_DEPLOYER = 'MASi45ub7Q4ZE36UT5G6cU4ud8Fhhe4deS4F3cw9KTA';
+const MOON_DEPLOYER = 'yNoVKf58ZTqNAYT3j5qcdsyuMNmPfYetW5v6JXmj54o';
+// The WOOF deployer funded the copycat FROG deployer
+const WOOF_DEPLOYER = 'b8dLcukC7ehDQ7cn5d4gEYkbUrMWeWQLGsCmrG6dLaY';
+const FROG_DEPLOYER = 'HYvC15j6PftT3MXBwDfpjaFFHsWgSBviwjHwYULmmJdb';
+
+// Wallets with no recorded history
+const freshWallet = (seed: number) => encodeBase58(new Uint8Array(32).fill(seed));
+
+function setup() {
+  const chain = createFixtureChain(FIXTURES);
+  return createClusterIndex({
+    chain,
+    deployers: createDeployerIndex({ chain, market: createFixtureMarket(FIXTURES) }),
+    risk: createRiskAnalyzer({ chain }),
+  });
+}
+
+async function observeFeed(index: ReturnType<typeof setup>) {
+  const { tokens } = await createFixtureFeed(FIXTURES).fetchTokens(50);
+  await index.observe(tokens.map((token) => ({ ...token, deployer: token.creator || 'unknown' })));
+}
+
+const block = (address: string): Map<string, DeployerListEntry> =>
+  new Map([[address, { address, list: 'block', addedAt: 0, source: 'api' }]]);
+
+describe('cluster index', () => {
+  it('links deployers with the same funder', async () => {
+    const index = setup();
+    await observeFeed(index);
+    const cluster = index.build().get(GIGA_DEPLOYER)!;
+
+    assert.deepEqual(cluster.members, [GIGA_DEPLOYER, MOON_DEPLOYER].sort());
+    assert.deepEqual(cluster.links.map((link) => link.reason), ['funder']);
+  });
+
+  it('links a deployer to the wallet it funded', async () => {
+    const index = setup();
+    await observeFeed(index);
+    const cluster = index.build().get(FROG_DEPLOYER)!;
+
+    assert.deepEqual(cluster.members, [WOOF_DEPLOYER, FROG_DEPLOYER].sort());
+    assert.deepEqual(cluster.links.map((link) => link.reason).sort(), ['metadata', 'transfer']);
+  });
+
+  it('ignores allowlisted funders', async () => {
+    const index = setup();
+    await observeFeed(index);
+    const funder = index.build().get(GIGA_DEPLOYER)!.links[0].via;
+
+    assert.equal(index.build(new Set([funder])).get(GIGA_DEPLOYER)!.members.length, 1);
+  });
+
+  it('links two deployers of the same name and symbol', async () => {
+    const index = setup();
+    await index.observe([1, 2].map((seed) => ({ mint: freshWallet(seed + 100), name: 'Pepe', symbol: 'PEPE', deployer: freshWallet(seed) })));
+    const cluster = index.build().get(freshWallet(1))!;
+
+    assert.equal(cluster.members.length, 2);
+    assert.equal(cluster.links[0].reason, 'metadata');
+  });
+
+  it('does not link copied tickers', async () => {
+    const index = setup();
+    await index.observe([1, 2, 3, 4].map((seed) => ({ mint: freshWallet(seed + 100), name: 'Pepe', symbol: 'PEPE', deployer: freshWallet(seed) })));
+    const clusters = index.build();
+
+    for (const seed of [1, 2, 3, 4]) {
+      assert.equal(clusters.get(freshWallet(seed))!.members.length, 1);
+    }
+  });
+  it('knows a deployer once its transfers have been looked up', async () => {
+    const index = setup();
+    assert.equal(index.has(GIGA_DEPLOYER), false);
+
+    await index.observeDeployer(GIGA_DEPLOYER);
+    assert.equal(index.has(GIGA_DEPLOYER), true);
+  });
+});
+
+describe('blockReason', () => {
+  it('blocks wallets linked by funding', async () => {
+    const index = setup();
+    await observeFeed(index);
+    const cluster = index.build().get(GIGA_DEPLOYER);
+
+    assert.match(blockReason(GIGA_DEPLOYER, cluster, block(MOON_DEPLOYER)) || '', /^cluster member .* blocklisted$/);
+  });
+
+  it('does not block through a shared name and symbol alone', async () => {
+    const index = setup();
+    await index.observe([1, 2].map((seed) => ({ mint: freshWallet(seed + 100), name: 'Pepe', symbol: 'PEPE', deployer: freshWallet(seed) })));
+    const cluster = index.build().get(freshWallet(1));
+
+    assert.equal(blockReason(freshWallet(1), cluster, block(freshWallet(2))), undefined);
+    assert.match(blockReason(freshWallet(2), cluster, block(freshWallet(2))) || '', /^deployer blocklisted/);
+  });
+
+  it('never blocks an allowlisted deployer through its cluster', async () => {
+    const index = setup();
+    await observeFeed(index);
+    const cluster = index.build().get(GIGA_DEPLOYER);
+    const entries = block(MOON_DEPLOYER);
+    entries.set(GIGA_DEPLOYER, { address: GIGA_DEPLOYER, list: 'allow', addedAt: 0, source: 'api' });
+
+    assert.equal(blockReason(GIGA_DEPLOYER, cluster, entries), undefined);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { bondingCurveAddress, curveMetrics, decodeBondingCurve, fetchBondingCurve } from '@/lib/curve';
+import { createFixtureChain } from '@/lib/providers/fixtures';
+import { encodeBase58 } from '@/lib/solana';
+
+const chain = createFixtureChain(path.resolve('fixtures/default'));
+
+// Recorded curve accounts: progress in percent and market cap in SOL
+const RECORDED = [
+  { symbol: 'MOON', mint: 'BPrFbbrZNhFgtsqwDtGuSptFDaYPo22sJXHDmfPVpump', progress: 60.5, marketCapSol: 91.54 },
+  { symbol: 'FROG', mint: 'AXgo8c4MkaacXsr7yc4GDJ3r7ZVc2qz5VMgZfZDmpump', progress: 73.1, marketCapSol: 132.44 },
+  { symbol: 'ZAP', mint: '9WFp7SyYBjvFBnUZSNTDPM6oQ2NcWVn2RNagKZ58pump', progress: 79.4, marketCapSol: 164.03 },
+];
+
+async function recordedBytes(mint: string): Promise<Buffer> {
+  const data = await chain.fetchAccountData(bondingCurveAddress(mint));
+  assert.ok(data, `no recorded curve account for ${mint}`);
+  return Buffer.from(data, 'base64');
+}
+
+describe('bonding curve', () => {
+  for (const { symbol, mint, progress, marketCapSol } of RECORDED) {
+    it(`decodes the recorded ${symbol} curve`, async () => {
+      const state = decodeBondingCurve(await recordedBytes(mint));
+      const metrics = curveMetrics(state, 150);
+
+      assert.equal(state.complete, false);
+      assert.equal(state.tokenTotalSupply, 1_000_000_000);
+      assert.equal(metrics.progress.toFixed(1), progress.toFixed(1));
+      assert.equal(metrics.marketCapSol.toFixed(2), marketCapSol.toFixed(2));
+      assert.equal(metrics.marketCapUsd!.toFixed(0), (metrics.marketCapSol * 150).toFixed(0));
+      assert.equal(metrics.priceSol * state.tokenTotalSupply, metrics.marketCapSol);
+    });
+  }
+
+  it('leaves USD values out without a SOL price', async () => {
+    const metrics = curveMetrics(decodeBondingCurve(await recordedBytes(RECORDED[0].mint)));
+    assert.equal(metrics.priceUsd, undefined);
+    assert.equal(metrics.marketCapUsd, undefined);
+  });
+
+  it('reports a complete curve as 100% progress', async () => {
+    const bytes = await recordedBytes(RECORDED[0].mint);
+    bytes[48] = 1;
+    assert.equal(curveMetrics(decodeBondingCurve(bytes)).progress, 100);
+  });
+
+  it('decodes the creator of newer curves', async () => {
+    const creator = new Uint8Array(32).fill(7);
+    const bytes = Buffer.concat([await recordedBytes(RECORDED[0].mint), creator]);
+    assert.equal(decodeBondingCurve(bytes).creator, encodeBase58(creator));
+  });
+
+  it('rejects a truncated account', async () => {
+    const bytes = await recordedBytes(RECORDED[0].mint);
+    assert.throws(() => decodeBondingCurve(bytes.subarray(0, 40)), /40 bytes, expected at least 49/);
+  });
+
+  it('rejects an account with another discriminator', async () => {
+    const bytes = await recordedBytes(RECORDED[0].mint);
+    bytes[0] ^= 0xff;
+    assert.throws(() => decodeBondingCurve(bytes), /Not a pump.fun bonding curve account/);
+  });
+
+  it('returns null for a token without a curve account', async () => {
+    assert.equal(await fetchBondingCurve(chain, 'mLidkuVKnRjP2WPBg8Y4ErK9pGSSxY6BVScJy9upump'), null);
+  });
+});
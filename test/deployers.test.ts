@@ -0,0 +1,144 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { createDeployerIndex } from '@/lib/deployers';
+import { ChainProvider, SignatureInfo } from '@/lib/providers';
+import { createFixtureChain, createFixtureMarket } from '@/lib/providers/fixtures';
+
+const FIXTURES = path.resolve('fixtures/default');
+
+// Three pump.fun launches plus the transfer that funded the wallet
+const CREATOR = 'MASi45ub7Q4ZE36UT5G6cU4ud8Fhhe4deS4F3cw9KTA';
+const MIDDLE_LAUNCH = 'c4h2hbkGYH1W';
+
+function setup(chain: ChainProvider = createFixtureChain(FIXTURES)) {
+  let time = Date.now();
+  const index = createDeployerIndex({ chain, market: createFixtureMarket(FIXTURES), now: () => time });
+  return { index, advance: (ms: number) => (time += ms) };
+}
+
+// The fixture chain with `count` older, unrelated signatures behind the
+// creator's real history
+function withFillerHistory(count: number): ChainProvider & { signatureCalls: number } {
+  const fixture = createFixtureChain(FIXTURES);
+  let history: SignatureInfo[] | null = null;
+
+  const chain = {
+    ...fixture,
+    signatureCalls: 0,
+    async fetchSignatures(address: string, options: { limit: number; until?: string; before?: string }) {
+      chain.signatureCalls++;
+      history ??= [
+        ...(await fixture.fetchSignatures(address, { limit: 1000 })),
+        ...Array.from({ length: count }, (_, i) => ({ signature: `filler${i}`, blockTime: 1700000000 - i })),
+      ];
+
+      let signatures = history;
+      const before = signatures.findIndex((s) => s.signature === options.before);
+      if (before >= 0) signatures = signatures.slice(before + 1);
+      const until = signatures.findIndex((s) => s.signature === options.until);
+      if (until >= 0) signatures = signatures.slice(0, until);
+      return signatures.slice(0, options.limit);
+    },
+  };
+  return chain;
+}
+
+describe('deployer index', () => {
+  it('finds every launch in the creator history', async () => {
+    const { index } = setup();
+    const stats = await index.getStats(CREATOR);
+
+    assert.equal(stats.totalTokens, 3);
+    assert.equal(stats.error, undefined);
+    assert.equal(stats.partial, undefined);
+    assert.deepEqual(
+      index.getLaunches(CREATOR).map((launch) => launch.source),
+      ['rpc', 'rpc', 'rpc']
+    );
+  });
+
+  it('rescans the rest of the history after a transaction fails', async () => {
+    const fixture = createFixtureChain(FIXTURES);
+    let failures = 1;
+    const chain: ChainProvider = {
+      ...fixture,
+      async fetchTransaction(signature) {
+        if (signature.startsWith(MIDDLE_LAUNCH) && failures-- > 0) {
+          throw new Error('RPC getTransaction failed: 429');
+        }
+        return fixture.fetchTransaction(signature);
+      },
+    };
+    const { index, advance } = setup(chain);
+
+    // Oldest first, so only the launch before the failure is in
+    const failed = await index.getStats(CREATOR);
+    assert.equal(failed.totalTokens, 1);
+    assert.equal(failed.error, 'RPC getTransaction failed: 429');
+    assert.ok(index.getLaunches(CREATOR)[0].mint);
+
+    // Cached briefly, then retried from the failed transaction on
+    assert.equal(await index.getStats(CREATOR), failed);
+    advance(61 * 1000);
+
+    const retried = await index.getStats(CREATOR);
+    assert.equal(retried.totalTokens, 3);
+    assert.equal(retried.error, undefined);
+  });
+
+  it('keeps a successful scan cached for 30 minutes', async () => {
+    const { index, advance } = setup();
+    const stats = await index.getStats(CREATOR);
+
+    advance(29 * 60 * 1000);
+    assert.equal(await index.getStats(CREATOR), stats);
+    advance(2 * 60 * 1000);
+    assert.notEqual(await index.getStats(CREATOR), stats);
+  });
+
+  it('pages back past the first 100 signatures', async () => {
+    const chain = withFillerHistory(150);
+    const { index } = setup(chain);
+    const stats = await index.getStats(CREATOR);
+
+    assert.equal(stats.totalTokens, 3);
+    assert.equal(stats.partial, undefined);
+    assert.equal(chain.signatureCalls, 2);
+    assert.ok(index.getLaunches(CREATOR).some((launch) => launch.createdAt === 1760637600 * 1000));
+  });
+
+  it('flags the stats as partial when the history is longer than the page bound', async () => {
+    const { index } = setup(withFillerHistory(1000));
+    const stats = await index.getStats(CREATOR);
+
+    assert.equal(stats.totalTokens, 3);
+    assert.equal(stats.partial, true);
+  });
+
+  it('only fetches signatures newer than the last scan', async () => {
+    const chain = withFillerHistory(0);
+    const { index, advance } = setup(chain);
+    await index.getStats(CREATOR);
+
+    advance(31 * 60 * 1000);
+    const fetched: string[] = [];
+    const fetchTransaction = chain.fetchTransaction;
+    chain.fetchTransaction = async (signature) => {
+      fetched.push(signature);
+      return fetchTransaction(signature);
+    };
+
+    const stats = await index.getStats(CREATOR);
+    assert.equal(stats.totalTokens, 3);
+    assert.deepEqual(fetched, []);
+  });
+
+  it('knows a deployer once its history has been scanned', async () => {
+    const { index } = setup();
+    assert.equal(index.has(CREATOR), false);
+
+    await index.getStats(CREATOR);
+    assert.equal(index.has(CREATOR), true);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EnrichedToken } from '@/lib/enrich';
+import { ExplorerQuery, parseExplorerQuery, queryExplorer } from '@/lib/explorer';
+import { applyCriteria, getPreset } from '@/lib/rules';
+
+const NOW = Date.now();
+
+const token = (mint: string, fields: Partial<EnrichedToken> = {}): EnrichedToken => ({
+  mint,
+  name: mint,
+  symbol: mint.toUpperCase(),
+  uri: '',
+  marketCap: 20000,
+  deployer: `${mint}-deployer`,
+  holders: 200,
+  createdAt: NOW,
+  bondingRate: 0,
+  ...fields,
+});
+
+// Ties on liquidity, and two tokens without any
+const CANDIDATES = [
+  token('a', { liquidityUsd: 500 }),
+  token('b', { liquidityUsd: 900 }),
+  token('c', { liquidityUsd: 500 }),
+  token('d'),
+  token('e', { liquidityUsd: 100, holders: 50 }),
+  token('f', { liquidityUsd: 900 }),
+  token('g'),
+];
+
+const criteria = getPreset('default');
+const ranked = applyCriteria(CANDIDATES, criteria).tokens;
+
+const query = (search: string) => parseExplorerQuery(new URLSearchParams(search));
+
+// Follows nextCursor to the end
+function allPages(candidates: EnrichedToken[], first: ExplorerQuery) {
+  const pages: string[][] = [];
+  let next: ExplorerQuery | null = first;
+
+  while (next) {
+    const page = queryExplorer(candidates, ranked, criteria, next);
+    pages.push(page.tokens.map((row) => row.mint));
+    next = page.nextCursor ? { ...first, cursor: query(`cursor=${page.nextCursor}`).cursor } : null;
+  }
+  return pages;
+}
+
+describe('token explorer', () => {
+  it('pages through every row once, with missing values last and mint breaking ties', () => {
+    assert.deepEqual(allPages(CANDIDATES, query('sort=liquidityUsd:desc&limit=3')), [
+      ['b', 'f', 'a'],
+      ['c', 'e', 'd'],
+      ['g'],
+    ]);
+    assert.deepEqual(allPages(CANDIDATES, query('sort=liquidityUsd:asc&limit=4')), [
+      ['e', 'a', 'c', 'b'],
+      ['f', 'd', 'g'],
+    ]);
+  });
+
+  it('continues after the last row seen when tokens arrive between pages', () => {
+    const first = queryExplorer(CANDIDATES, ranked, criteria, query('sort=liquidityUsd:desc&limit=3'));
+    const next = query(`sort=liquidityUsd:desc&limit=3&cursor=${first.nextCursor}`);
+
+    const second = queryExplorer([...CANDIDATES, token('aa', { liquidityUsd: 5000 })], ranked, criteria, next);
+
+    assert.deepEqual(second.tokens.map((row) => row.mint), ['c', 'e', 'd']);
+  });
+
+  it('marks rows that fail the criteria and why', () => {
+    const page = queryExplorer(CANDIDATES, ranked, criteria, query('status=rejected'));
+
+    assert.deepEqual(page.tokens.map((row) => [row.mint, row.passes, row.reasons]), [['e', false, ['holders 50 < 160']]]);
+    assert.equal(page.total, 1);
+
+    const passed = queryExplorer(CANDIDATES, ranked, criteria, query('status=passed&q=B'));
+    assert.deepEqual(passed.tokens.map((row) => [row.mint, row.rank]), [['b', ranked.find((entry) => entry.mint === 'b')?.rank]]);
+  });
+
+  it('applies column filters', () => {
+    const page = queryExplorer(CANDIDATES, ranked, criteria, query('filter=liquidityUsd:gte:500&filter=liquidityUsd:lte:500'));
+    assert.deepEqual(page.tokens.map((row) => row.mint), ['a', 'c']);
+  });
+
+  it('rejects malformed queries', () => {
+    assert.throws(() => query('filter=holders:gt:10'), /Invalid filter/);
+    assert.throws(() => query('filter=holders:gte:'), /Invalid value/);
+    assert.throws(() => query('sort=shoeSize'), /Unknown field/);
+    assert.throws(() => query('status=maybe'), /status must be/);
+    assert.throws(() => query('cursor=not-a-cursor'), /Invalid cursor/);
+    assert.equal(query('limit=1000').limit, 200);
+  });
+});
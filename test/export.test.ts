@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExportTable, candidateTable, deployerTable, toCsv, toNdjson, tokenTable } from '@/lib/export';
+
+const table = (rows: ExportTable['rows']): ExportTable => ({ columns: ['name', 'value'], rows });
+
+describe('CSV export', () => {
+  it('quotes cells with commas, quotes or line breaks', () => {
+    const csv = toCsv(table([
+      { name: 'Pepe, the frog', value: 1 },
+      { name: 'say "gm"', value: 2 },
+      { name: 'two\nlines', value: 3 },
+    ]));
+
+    assert.equal(csv, 'name,value\r\n"Pepe, the frog",1\r\n"say ""gm""",2\r\n"two\nlines",3\r\n');
+  });
+
+  it('defuses cells a spreadsheet would run as formulas, but not negative numbers', () => {
+    const csv = toCsv(table([
+      { name: '=HYPERLINK("http://x")', value: -12.5 },
+      { name: '+1', value: '-5' },
+      { name: '@SUM(A1)', value: null },
+    ]));
+
+    assert.deepEqual(csv.trimEnd().split('\r\n').slice(1), [
+      `"'=HYPERLINK(""http://x"")",-12.5`,
+      `'+1,'-5`,
+      `'@SUM(A1),`,
+    ]);
+  });
+
+  it('joins lists and leaves missing values empty', () => {
+    assert.equal(toCsv(table([{ name: ['a', 'b'], value: null }])), 'name,value\r\na;b,\r\n');
+  });
+});
+
+describe('export tables', () => {
+  it('keeps every column in order whether or not a row has it', () => {
+    const { columns, rows } = tokenTable([
+      {
+        rank: 1,
+        mint: 'mint',
+        symbol: 'PEPE',
+        riskFlags: [{ check: 'mint-authority', severity: 'high', label: 'MINT', detail: 'Mint authority is set' }],
+        provenance: {},
+      },
+    ]);
+
+    assert.equal(columns[0], 'rank');
+    assert.deepEqual(Object.keys(rows[0]), columns);
+    assert.equal(rows[0].holders, null);
+    assert.deepEqual(rows[0].riskFlags, ['mint-authority']);
+    assert.equal('provenance' in rows[0], false);
+  });
+
+  it('adds whether each candidate passed and why not', () => {
+    const { columns, rows } = candidateTable([{ mint: 'mint', passes: false, reasons: ['holders 10 < 160', 'age unavailable'] }]);
+
+    assert.deepEqual(columns.slice(-2), ['passes', 'rejectionReasons']);
+    assert.equal(rows[0].passes, false);
+    assert.equal(toCsv({ columns: ['rejectionReasons'], rows }), 'rejectionReasons\r\nholders 10 < 160;age unavailable\r\n');
+  });
+
+  it('writes one JSON object per line', () => {
+    const ndjson = toNdjson(deployerTable([{ address: 'dev', totalTokens: 3, bondedTokens: 1, bondingRate: 33.3 }]));
+
+    assert.deepEqual(JSON.parse(ndjson), { address: 'dev', totalTokens: 3, bondedTokens: 1, bondingRate: 33.3, partial: null, error: null });
+    assert.equal(toNdjson(deployerTable([])), '');
+  });
+});
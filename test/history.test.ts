@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { MAX_RANGE, createHistory, parseRange } from '@/lib/history';
+import { EnrichedToken } from '@/lib/enrich';
+import { streamHistory } from '@/lib/export';
+import { SnapshotRow, SnapshotStore, createFileStore } from '@/lib/store';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 31, 12);
+
+const row = (t: number, mint: string, marketCap: number, rank: number | null = null): SnapshotRow => ({
+  t,
+  mint,
+  symbol: mint.toUpperCase(),
+  holders: 100,
+  marketCap,
+  rank,
+});
+
+async function withStore(test: (store: SnapshotStore & { scans: number }) => Promise<void>) {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'history-'));
+  const files = createFileStore(dir);
+  const store = {
+    ...files,
+    scans: 0,
+    scan(mint: string | null, from: number, to: number) {
+      store.scans++;
+      return files.scan(mint, from, to);
+    },
+  };
+  try {
+    await test(store);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function read(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+describe('history ranges', () => {
+  it('reads a window back from now', () => {
+    assert.deepEqual(parseRange(new URLSearchParams('window=6h'), '24h', NOW), { from: NOW - DAY / 4, to: NOW });
+    assert.deepEqual(parseRange(new URLSearchParams(), '24h', NOW), { from: NOW - DAY, to: NOW });
+  });
+
+  it('keeps the latest 31 days of a longer range and ends it at now', () => {
+    assert.deepEqual(parseRange(new URLSearchParams(`from=0&to=${NOW + DAY}`), '24h', NOW), { from: NOW - MAX_RANGE, to: NOW });
+    assert.deepEqual(parseRange(new URLSearchParams('window=365d'), '24h', NOW), { from: NOW - MAX_RANGE, to: NOW });
+  });
+
+  it('rejects malformed and empty ranges', () => {
+    assert.equal(parseRange(new URLSearchParams('window=forever'), '24h', NOW), null);
+    assert.equal(parseRange(new URLSearchParams(`from=${NOW}&to=${NOW - 1}`), '24h', NOW), null);
+    assert.equal(parseRange(new URLSearchParams('from=abc'), '24h', NOW), null);
+  });
+});
+
+describe('history export', () => {
+  it('streams rows across days in order', async () => {
+    await withStore(async (store) => {
+      await store.append([row(NOW - DAY - 1000, 'a', 10, 1), row(NOW - 2000, 'b', 20), row(NOW - 1000, 'a', 30, 2)]);
+      const history = createHistory(store);
+
+      const csv = await read(streamHistory(history.stream(null, NOW - 2 * DAY, NOW), 'csv', {}));
+      assert.deepEqual(csv.trimEnd().split('\r\n').map((line) => line.split(',').slice(0, 2).join(',')), [
+        't,mint',
+        `${NOW - DAY - 1000},a`,
+        `${NOW - 2000},b`,
+        `${NOW - 1000},a`,
+      ]);
+
+      const json = JSON.parse(await read(streamHistory(history.stream('a', NOW - 2 * DAY, NOW), 'json', { success: true })));
+      assert.equal(json.success, true);
+      assert.deepEqual(json.rows.map((entry: SnapshotRow) => entry.marketCap), [10, 30]);
+
+      const empty = JSON.parse(await read(streamHistory(history.stream('c', NOW - DAY, NOW), 'json', {})));
+      assert.deepEqual(empty.rows, []);
+    });
+  });
+});
+
+describe('peak market caps', () => {
+  it('reads the store once, then keeps up with new scans', async () => {
+    await withStore(async (store) => {
+      const now = Date.now();
+      await store.append([row(now - 2 * DAY, 'a', 50_000), row(now - DAY, 'a', 20_000), row(now - DAY, 'b', 5_000)]);
+      const history = createHistory(store);
+
+      assert.deepEqual(await history.peakMarketCaps(['a', 'b', 'c']), new Map([['a', 50_000], ['b', 5_000]]));
+      const scans = store.scans;
+
+      await history.record(
+        [{ mint: 'b', symbol: 'B', holders: 100, marketCap: 9_000 }, { mint: 'c', symbol: 'C', holders: 100, marketCap: 1_000 }] as EnrichedToken[],
+        [],
+        now
+      );
+
+      assert.deepEqual(await history.peakMarketCaps(['a', 'b', 'c']), new Map([['a', 50_000], ['b', 9_000], ['c', 1_000]]));
+      assert.equal(store.scans, scans);
+    });
+  });
+});
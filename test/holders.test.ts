@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { analyzeHolders, fetchConcentration } from '@/lib/holders';
+import { ChainProvider, TokenAccount } from '@/lib/providers';
+import { createFixtureChain } from '@/lib/providers/fixtures';
+import { PUMP_FUN_PROGRAM_ID } from '@/lib/solana';
+
+const FIXTURES = path.resolve('fixtures/default');
+
+const CURVE = 'curve';
+const RAYDIUM_AUTHORITY = '5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1';
+
+const account = (owner: string, amount: number): TokenAccount => ({ address: `${owner}-ata`, owner, amount });
+
+// Token accounts for one mint; only the curve account exists on chain
+function chainWith(accounts: TokenAccount[], supply: number): ChainProvider {
+  return {
+    ...createFixtureChain(FIXTURES),
+    fetchTokenSupply: async () => supply,
+    fetchTokenAccounts: async () => accounts,
+    fetchAccountOwners: async (addresses) =>
+      Object.fromEntries(addresses.map((address) => [address, address === CURVE ? PUMP_FUN_PROGRAM_ID : null])),
+  };
+}
+
+describe('holder analysis', () => {
+  it('measures shares against the supply outside pool accounts', () => {
+    const concentration = analyzeHolders(
+      [account(CURVE, 800), account('dev', 100), account('a', 60), account('b', 40)],
+      1000,
+      'dev',
+      { [CURVE]: 'pump.fun bonding curve' }
+    );
+
+    assert.equal(concentration.circulating, 200);
+    assert.equal(concentration.holders, 3);
+    assert.equal(concentration.top10Share, 100);
+    assert.equal(concentration.deployerShare, 50);
+    assert.deepEqual(concentration.largest.map((holder) => holder.share), [50, 30, 20]);
+    assert.deepEqual(concentration.excluded.map((pool) => [pool.label, pool.share]), [['pump.fun bonding curve', 80]]);
+  });
+
+  it('finds the bonding curve by its program and Raydium vaults by their authority', async () => {
+    const chain = chainWith(
+      [account(RAYDIUM_AUTHORITY, 500), account(CURVE, 300), account('dev', 100), account('a', 100)],
+      1000
+    );
+    const concentration = await fetchConcentration(chain, 'mint', 'dev');
+
+    assert.deepEqual(concentration.excluded.map((pool) => pool.label), ['Raydium AMM pool', 'pump.fun bonding curve']);
+    assert.equal(concentration.holders, 2);
+    assert.equal(concentration.deployerShare, 50);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { createDeployerIndex } from '@/lib/deployers';
+import { getTokenDetail } from '@/lib/lookup';
+import { ChainProvider, Providers } from '@/lib/providers';
+import { createFixtureChain, createFixtureFeed, createFixtureMarket } from '@/lib/providers/fixtures';
+
+const FIXTURES = path.resolve('fixtures/default');
+
+const MOON = 'BPrFbbrZNhFgtsqwDtGuSptFDaYPo22sJXHDmfPVpump';
+
+function setup() {
+  const fixture = createFixtureChain(FIXTURES);
+  const chain: ChainProvider & { holderLookups: number } = {
+    ...fixture,
+    holderLookups: 0,
+    fetchTokenAccounts(mint) {
+      chain.holderLookups++;
+      return fixture.fetchTokenAccounts(mint);
+    },
+  };
+  const providers: Providers = { feed: createFixtureFeed(FIXTURES), market: createFixtureMarket(FIXTURES), chain };
+  return { chain, context: { providers, deployers: createDeployerIndex({ chain, market: providers.market }) } };
+}
+
+describe('token detail', () => {
+  it('reuses the holder analysis of an on-demand enrichment', async () => {
+    const { chain, context } = setup();
+    const detail = await getTokenDetail(MOON, context, { tokens: [], candidates: [], lastUpdated: 0 });
+
+    assert.equal(detail.token.mint, MOON);
+    assert.ok(detail.concentration);
+    assert.equal(detail.concentration.holders, detail.token.holders);
+    assert.equal(chain.holderLookups, 1);
+  });
+
+  it('fetches the holder list for a scanned token', async () => {
+    const { chain, context } = setup();
+    const scanned = await getTokenDetail(MOON, context, { tokens: [], candidates: [], lastUpdated: 0 });
+    chain.holderLookups = 0;
+
+    const detail = await getTokenDetail(MOON, context, { tokens: [], candidates: [scanned.token], lastUpdated: 1 });
+
+    assert.equal(detail.scannedAt, 1);
+    assert.ok(detail.concentration);
+    assert.equal(chain.holderLookups, 1);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchMarketData, summarizePairs } from '@/lib/market';
+import { MarketDataProvider } from '@/lib/providers';
+import { DexPairSchema } from '@/lib/providers/schemas';
+
+const MINT = 'BPrFbbrZNhFgtsqwDtGuSptFDaYPo22sJXHDmfPVpump';
+
+// Through the schema, as DexScreener responses are
+const pair = (pairAddress: string, fields: Record<string, unknown> = {}) =>
+  DexPairSchema({ dexId: 'pumpfun', pairAddress, baseToken: { address: MINT }, ...fields });
+
+describe('summarizePairs', () => {
+  it('takes price and market cap from the deepest pair and sums activity across pairs', () => {
+    const summary = summarizePairs(
+      [
+        pair('shallow', {
+          dexId: 'raydium',
+          priceUsd: 0.002,
+          marketCap: 21000,
+          liquidity: { usd: 4000 },
+          volume: { h1: 100, h24: 1000 },
+          txns: { h1: { buys: 3, sells: 1 } },
+        }),
+        pair('deep', {
+          dexId: 'pumpswap',
+          priceUsd: 0.0021,
+          marketCap: 22000,
+          liquidity: { usd: 9000 },
+          volume: { h1: 400, h24: 5000 },
+          priceChange: { h1: 12 },
+          txns: { h1: { buys: 10, sells: 4 } },
+        }),
+      ],
+      MINT
+    );
+
+    assert.equal(summary.pairAddress, 'deep');
+    assert.equal(summary.priceUsd, 0.0021);
+    assert.equal(summary.marketCap, 22000);
+    assert.equal(summary.marketCapSource, 'marketCap');
+    assert.equal(summary.liquidityUsd, 9000);
+    assert.equal(summary.priceChange1h, 12);
+    assert.equal(summary.volume1h, 500);
+    assert.equal(summary.volume24h, 6000);
+    assert.equal(summary.buys1h, 13);
+    assert.equal(summary.sells1h, 5);
+    assert.equal(summary.volume5m, undefined);
+    assert.equal(summary.pairCount, 2);
+    assert.equal(summary.migrated, true);
+  });
+
+  it('ignores pairs that quote the token when it has pairs of its own', () => {
+    const summary = summarizePairs(
+      [
+        pair('quoted', { baseToken: { address: 'So11111111111111111111111111111111111111112' }, liquidity: { usd: 1e6 }, marketCap: 9e10 }),
+        pair('own', { liquidity: { usd: 500 }, marketCap: 7000 }),
+      ],
+      MINT
+    );
+
+    assert.equal(summary.pairAddress, 'own');
+    assert.equal(summary.marketCap, 7000);
+    assert.equal(summary.pairCount, 1);
+    assert.equal(summary.migrated, false);
+  });
+
+  it('falls back to the next pair with a market cap, then to FDV, never to liquidity', () => {
+    const next = summarizePairs(
+      [pair('deep', { liquidity: { usd: 9000 } }), pair('shallow', { liquidity: { usd: 100 }, fdv: 30000 })],
+      MINT
+    );
+    assert.equal(next.pairAddress, 'deep');
+    assert.equal(next.marketCap, 30000);
+    assert.equal(next.marketCapSource, 'fdv');
+
+    const none = summarizePairs([pair('deep', { liquidity: { usd: 9000 } })], MINT);
+    assert.equal(none.marketCap, 0);
+    assert.equal(none.marketCapSource, 'none');
+  });
+
+  it('is empty without pairs', () => {
+    assert.deepEqual(summarizePairs([], MINT), { marketCap: 0, marketCapSource: 'none', pairCount: 0, migrated: false });
+  });
+});
+
+describe('fetchMarketData', () => {
+  it('reports a failed lookup instead of a zero market cap', async () => {
+    const market: MarketDataProvider = {
+      name: 'failing',
+      fetchPairs: async () => {
+        throw new Error('DexScreener 503');
+      },
+    };
+    const data = await fetchMarketData(market, MINT);
+
+    assert.equal(data.error, 'DexScreener 503');
+    assert.equal(data.marketCapSource, 'none');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import {
+  LaunchTrade,
+  checkAuthorities,
+  checkDeployerSales,
+  checkLaunchBuyers,
+  createRiskAnalyzer,
+  scoreFlags,
+} from '@/lib/risk';
+import { createDeployerIndex } from '@/lib/deployers';
+import { enrichToken } from '@/lib/enrich';
+import { ChainProvider, Providers } from '@/lib/providers';
+import { createFixtureChain, createFixtureFeed, createFixtureMarket } from '@/lib/providers/fixtures';
+
+const FIXTURES = path.resolve('fixtures/default');
+
+const DEPLOYER = 'dev';
+const LAUNCH = 1_700_000_000_000;
+
+function trade(signer: string, slot: number, minutes: number, deltas: Record<string, number>): LaunchTrade {
+  return { signature: `${signer}-${slot}`, slot, time: LAUNCH + minutes * 60 * 1000, signer, deltas };
+}
+
+// Mint info fails once for every mint
+function flakyChain(): ChainProvider {
+  const chain = createFixtureChain(FIXTURES);
+  const failed = new Set<string>();
+  return {
+    ...chain,
+    async fetchMintInfo(mint) {
+      if (!failed.has(mint)) {
+        failed.add(mint);
+        throw new Error('RPC getAccountInfo failed: 503');
+      }
+      return chain.fetchMintInfo(mint);
+    },
+  };
+}
+
+async function fixtureToken(symbol: string) {
+  const { tokens } = await createFixtureFeed(FIXTURES).fetchTokens(50);
+  return tokens.find((token) => token.symbol === symbol)!;
+}
+
+describe('risk checks', () => {
+  it('flags authorities that are still set', () => {
+    const flags = checkAuthorities({ program: 'token', decimals: 6, mintAuthority: 'someone', freezeAuthority: null });
+    assert.deepEqual(flags.map((flag) => flag.check), ['mint-authority']);
+  });
+
+  it('flags a deployer selling inside the sell window', () => {
+    const trades = [
+      trade(DEPLOYER, 1, 0, { [DEPLOYER]: 1000 }),
+      trade(DEPLOYER, 50, 10, { [DEPLOYER]: -800 }),
+    ];
+    const [flag] = checkDeployerSales(trades, DEPLOYER);
+    assert.equal(flag.check, 'deployer-sold');
+    assert.equal(flag.severity, 'high');
+  });
+
+  it('flags later sales from the current balance', () => {
+    const trades = [trade(DEPLOYER, 1, 0, { [DEPLOYER]: 1000 })];
+    assert.equal(checkDeployerSales(trades, DEPLOYER, 900).length, 0);
+    assert.equal(checkDeployerSales(trades, DEPLOYER, 100)[0].severity, 'medium');
+  });
+
+  it('flags bundled and sniped launches', () => {
+    const trades = [
+      trade(DEPLOYER, 1, 0, { [DEPLOYER]: 1000 }),
+      ...['a', 'b', 'c'].map((wallet) => trade(wallet, 1, 0, { [wallet]: 10_000_000 })),
+      ...['d', 'e', 'f', 'g', 'h'].map((wallet) => trade(wallet, 3, 0, { [wallet]: 1_000_000 })),
+    ];
+    const flags = checkLaunchBuyers(trades, DEPLOYER, 1_000_000_000);
+
+    assert.deepEqual(flags.map((flag) => flag.check), ['bundled-launch', 'sniped-launch']);
+    assert.match(flags[0].detail, /3 wallets .* 3\.0% of supply/);
+  });
+
+  it('caps the score at 100', () => {
+    const high = { check: 'mint-authority' as const, severity: 'high' as const, label: '', detail: '' };
+    assert.equal(scoreFlags([high, high, high]), 100);
+  });
+});
+
+describe('risk analyzer', () => {
+  it('scores the fixture launches', async () => {
+    const analyzer = createRiskAnalyzer({ chain: createFixtureChain(FIXTURES) });
+    const woof = await fixtureToken('WOOF');
+    const assessment = await analyzer.assess({ ...woof, deployer: woof.creator! });
+
+    assert.deepEqual(assessment.flags.map((flag) => flag.check), ['freeze-authority']);
+    assert.equal(assessment.score, 40);
+  });
+
+  it('fails rather than scoring a token it could not check, then retries', async () => {
+    const analyzer = createRiskAnalyzer({ chain: flakyChain() });
+    const woof = await fixtureToken('WOOF');
+    const token = { ...woof, deployer: woof.creator! };
+
+    await assert.rejects(analyzer.assess(token), /RPC getAccountInfo failed: 503/);
+    assert.equal((await analyzer.assess(token)).score, 40);
+  });
+
+  it('leaves riskScore unset and marks provenance when the assessment fails', async () => {
+    const chain = flakyChain();
+    const providers: Providers = { feed: createFixtureFeed(FIXTURES), market: createFixtureMarket(FIXTURES), chain };
+    const deployers = createDeployerIndex({ chain, market: providers.market });
+    const enriched = await enrichToken(await fixtureToken('GIGA'), providers, deployers, createRiskAnalyzer({ chain }));
+
+    assert.equal(enriched.riskScore, undefined);
+    assert.equal(enriched.riskFlags, undefined);
+    assert.equal(enriched.provenance?.riskScore?.status, 'error');
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EnrichedToken } from '@/lib/enrich';
+import { applyCriteria, getPreset, parseCriteria } from '@/lib/rules';
+import { ScanSnapshot } from '@/lib/scanner';
+import { buildTokensView } from '@/lib/view';
+
+const NOW = 1_700_000_000_000;
+const MINUTE = 60 * 1000;
+
+const token = (mint: string, fields: Partial<EnrichedToken> = {}): EnrichedToken => ({
+  mint,
+  name: mint,
+  symbol: mint.toUpperCase(),
+  uri: '',
+  marketCap: 20000,
+  deployer: `${mint}-deployer`,
+  holders: 200,
+  createdAt: NOW - 10 * MINUTE,
+  bondingRate: 0,
+  ...fields,
+});
+
+const mints = (tokens: { mint: string }[]) => tokens.map((entry) => entry.mint);
+
+describe('applyCriteria', () => {
+  it('ranks the tokens that pass the filters', () => {
+    const tokens = [
+      token('small', { marketCap: 5000, holders: 900 }),
+      token('few', { holders: 100 }),
+      token('mid', { holders: 300 }),
+      token('top', { holders: 500 }),
+    ];
+    const result = applyCriteria(tokens, getPreset('default'), NOW);
+
+    assert.deepEqual(mints(result.tokens), ['top', 'mid']);
+    assert.deepEqual(result.tokens.map((entry) => entry.rank), [1, 2]);
+    assert.equal(result.passed, 2);
+    assert.equal(result.fallback, false);
+    assert.deepEqual(result.rejected.find((entry) => entry.mint === 'few')!.reasons, ['holders 100 < 160']);
+  });
+
+  it('rejects a token whose holders could not be counted', () => {
+    const result = applyCriteria([token('failed', { holders: 0, holdersError: 'rpc down' })], getPreset('proven-deployers'), NOW);
+
+    assert.deepEqual(result.rejected[0].reasons, ['holders unavailable', 'bondingRate 0 < 50']);
+  });
+
+  it('ranks everything but blocked tokens when a preset falls back', () => {
+    const tokens = [
+      token('a', { holders: 10 }),
+      token('b', { holders: 20 }),
+      token('blocked', { holders: 30, blockedReason: 'deployer blocklisted' }),
+    ];
+
+    const fallback = applyCriteria(tokens, getPreset('default'), NOW);
+    assert.equal(fallback.fallback, true);
+    assert.deepEqual(mints(fallback.tokens), ['b', 'a']);
+
+    const strict = applyCriteria(tokens, getPreset('proven-deployers'), NOW);
+    assert.equal(strict.fallback, false);
+    assert.deepEqual(strict.tokens, []);
+  });
+
+  it('measures age from `now`', () => {
+    const criteria = { ...getPreset('default'), filters: [{ field: 'age', op: 'lte' as const, value: 15 }] };
+    const tokens = [token('young')];
+
+    assert.equal(applyCriteria(tokens, criteria, NOW).passed, 1);
+    assert.equal(applyCriteria(tokens, criteria, NOW + 10 * MINUTE).passed, 0);
+  });
+
+  it('scores weighted rankings on min-max normalised fields', () => {
+    const criteria = {
+      filters: [],
+      ranking: { weights: { holders: 0.6, marketCap: 0.4 }, direction: 'desc' as const },
+      topN: 3,
+    };
+    const tokens = [
+      token('holders', { holders: 400, marketCap: 20000 }),
+      token('both', { holders: 300, marketCap: 30000 }),
+      token('cap', { holders: 200, marketCap: 40000 }),
+    ];
+    const result = applyCriteria(tokens, criteria, NOW);
+
+    assert.deepEqual(mints(result.tokens), ['holders', 'both', 'cap']);
+    assert.deepEqual(result.tokens.map((entry) => entry.score), [0.6, 0.5, 0.4]);
+  });
+});
+
+describe('parseCriteria', () => {
+  it('returns null without criteria parameters', () => {
+    assert.equal(parseCriteria(new URLSearchParams('limit=10&q=pepe')), null);
+  });
+
+  it('keeps the preset name when only the preset is given', () => {
+    const criteria = parseCriteria(new URLSearchParams('preset=fresh'))!;
+
+    assert.equal(criteria.preset, 'fresh');
+    assert.deepEqual(criteria.filters, getPreset('fresh').filters);
+  });
+
+  it('replaces a preset threshold on the same field', () => {
+    const criteria = parseCriteria(new URLSearchParams('preset=default&minHolders=80&maxAge=60'))!;
+
+    assert.equal(criteria.preset, undefined);
+    assert.deepEqual(criteria.filters, [
+      { field: 'marketCap', op: 'gte', value: 15000 },
+      { field: 'holders', op: 'gte', value: 80 },
+      { field: 'age', op: 'lte', value: 60 },
+    ]);
+    assert.equal(criteria.fallbackToAll, true);
+  });
+
+  it('reads the ranking, order and top N', () => {
+    const sorted = parseCriteria(new URLSearchParams('sort=marketCap&order=asc&top=500'))!;
+    assert.deepEqual(sorted.ranking, { field: 'marketCap', direction: 'asc' });
+    assert.equal(sorted.topN, 100);
+
+    const weighted = parseCriteria(new URLSearchParams('weights=holders:0.7,bondingRate:0.3'))!;
+    assert.deepEqual(weighted.ranking, { weights: { holders: 0.7, bondingRate: 0.3 }, direction: 'desc' });
+  });
+
+  it('rejects unknown fields, values and presets', () => {
+    assert.throws(() => parseCriteria(new URLSearchParams('minShoeSize=3')), /Unknown field "shoeSize"/);
+    assert.throws(() => parseCriteria(new URLSearchParams('minHolders=lots')), /Invalid value for minHolders/);
+    assert.throws(() => parseCriteria(new URLSearchParams('sort=shoeSize')), /Unknown field/);
+    assert.throws(() => parseCriteria(new URLSearchParams('preset=moon')), /Unknown preset "moon"/);
+  });
+});
+
+describe('buildTokensView', () => {
+  it('re-ranks the candidates as of the scan', () => {
+    const snapshot: ScanSnapshot = {
+      tokens: [],
+      candidates: [token('young', { createdAt: NOW - 20 * MINUTE })],
+      criteria: getPreset('default'),
+      warnings: [],
+      watched: [],
+      scannedAt: NOW,
+      lastUpdated: NOW,
+      nextUpdate: NOW + MINUTE,
+      scanning: false,
+      stale: false,
+    };
+
+    const view = buildTokensView(snapshot, parseCriteria(new URLSearchParams('preset=proven-deployers&minBondingRate=0'))!);
+
+    assert.deepEqual(mints(view.tokens), ['young']);
+  });
+});
@@ -0,0 +1,64 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+let dir: string;
+
+before(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), 'scan-'));
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+// Runs the CLI over the fixtures, resolving with its exit code and output
+function scan(args: string[]) {
+  return new Promise<{ code: number; stdout: string; stderr: string }>((resolve) => {
+    execFile(
+      process.execPath,
+      ['--import', 'tsx', 'scripts/scan.ts', '--max-age', '600000', ...args],
+      { env: { ...process.env, DATA_PROVIDER: 'fixture', DATA_DIR: dir }, timeout: 120 * 1000 },
+      (error, stdout, stderr) => resolve({ code: error ? Number(error.code) : 0, stdout, stderr })
+    );
+  });
+}
+
+// No fixture token has this many holders
+const UNMET = ['--min-holders', '1000000000'];
+
+describe('scan CLI', () => {
+  it('flags rankings of candidates that fail the criteria', async () => {
+    const { code, stdout } = await scan(['--format', 'json', ...UNMET]);
+    const output = JSON.parse(stdout);
+
+    assert.equal(code, 0);
+    assert.equal(output.fallback, true);
+    assert.ok(output.rows.length > 0);
+  });
+
+  it('marks every NDJSON row with the scan time and whether it is a fallback', async () => {
+    const { code, stdout } = await scan(['--format', 'ndjson']);
+    const rows = stdout.trimEnd().split('\n').map((line) => JSON.parse(line));
+
+    assert.equal(code, 0);
+    assert.ok(rows.length > 0);
+    assert.ok(rows.every((row) => row.fallback === false && row.scannedAt === rows[0].scannedAt));
+  });
+
+  it('says so under the table header', async () => {
+    const { stdout } = await scan(UNMET);
+    assert.match(stdout.split('\n')[1], /^FALLBACK: no token meets the criteria/);
+  });
+
+  it('exits 64 on bad arguments', async () => {
+    const { code, stdout, stderr } = await scan(['--shoe-size', '9']);
+
+    assert.equal(code, 64);
+    assert.equal(stdout, '');
+    assert.match(stderr, /^Unknown option --shoe-size/);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ValidationError, array, nullable, number, numeric, object, optional, parseEach, record, string, tuple } from '@/lib/schema';
+import { parseFeedPage, parsePairs } from '@/lib/providers/schemas';
+
+const Pair = object({
+  dexId: string,
+  priceUsd: optional(numeric),
+  liquidity: optional(object({ usd: optional(number) })),
+});
+
+describe('schema combinators', () => {
+  it('parses a valid value and drops unknown keys', () => {
+    assert.deepEqual(Pair({ dexId: 'raydium', priceUsd: '0.0021', liquidity: { usd: 900 }, labels: ['v4'] }), {
+      dexId: 'raydium',
+      priceUsd: 0.0021,
+      liquidity: { usd: 900 },
+    });
+  });
+
+  it('names the path that failed', () => {
+    assert.throws(
+      () => array(Pair)([{ dexId: 'raydium' }, { dexId: 'pumpswap', liquidity: { usd: 'lots' } }], 'pairs'),
+      (error: unknown) =>
+        error instanceof ValidationError &&
+        error.path === 'pairs[1].liquidity.usd' &&
+        error.message === 'pairs[1].liquidity.usd: expected number, got "lots"'
+    );
+  });
+
+  it('rejects non-finite numbers and blank numeric strings', () => {
+    assert.throws(() => number(NaN), /expected number, got number/);
+    assert.throws(() => number(Infinity), ValidationError);
+    assert.throws(() => numeric(' '), /expected numeric/);
+    assert.equal(numeric('12.5'), 12.5);
+  });
+
+  it('reads null as missing for optional and nullable values', () => {
+    assert.equal(optional(string)(null), undefined);
+    assert.equal(nullable(string)(undefined), null);
+    assert.deepEqual(Pair({ dexId: 'raydium', priceUsd: null }), { dexId: 'raydium' });
+  });
+
+  it('checks tuples and records element by element', () => {
+    assert.deepEqual(tuple<[string, string]>(string, string)(['AAAA', 'base64', 'extra']), ['AAAA', 'base64']);
+    assert.throws(() => tuple<[string, string]>(string, string)(['AAAA']), /expected array of 2, got array/);
+    assert.throws(() => record(number)({ a: 1, b: '2' }, 'counts'), /counts\.b: expected number/);
+  });
+
+  it('sets invalid elements aside without rejecting the batch', () => {
+    const { valid, invalid } = parseEach([{ dexId: 'raydium' }, { dexId: 7 }, null], Pair, 'pairs');
+
+    assert.deepEqual(valid, [{ dexId: 'raydium' }]);
+    assert.deepEqual(invalid.map(({ index, error }) => [index, error.path]), [[1, 'pairs[1].dexId'], [2, 'pairs[2]']]);
+  });
+});
+
+describe('upstream schemas', () => {
+  it('keeps the valid feed tokens and reports the rest', () => {
+    const page = parseFeedPage({
+      tokens: [
+        { mint: 'good', name: 'Good', symbol: 'GOOD', createdAt: 1700000000000 },
+        { mint: 'bad', name: 'Bad', symbol: 'BAD', createdAt: 'yesterday' },
+      ],
+      count: 2,
+    });
+
+    assert.deepEqual(page.tokens.map((token) => token.mint), ['good']);
+    assert.deepEqual(page.invalid, [{ mint: 'bad', error: 'tokens[1].createdAt: expected number, got "yesterday"' }]);
+  });
+
+  it('fails a DexScreener payload only when no pair is usable', () => {
+    const good = { dexId: 'pumpfun', baseToken: { address: 'mint' } };
+    const bad = { dexId: 'pumpfun', baseToken: {} };
+
+    assert.equal(parsePairs(null, 'mint').length, 0);
+    assert.equal(parsePairs([good, bad], 'mint').length, 1);
+    assert.throws(() => parsePairs([bad], 'mint'), /pairs\[0\]\.baseToken\.address: expected string, got undefined/);
+  });
+});
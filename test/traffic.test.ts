@@ -0,0 +1,121 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { createTrafficRecorder, createTrafficReplay, describeRequest } from '@/lib/traffic';
+
+const FIXTURES = path.resolve('fixtures/default');
+
+const run = promisify(execFile);
+
+let dir: string;
+
+before(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), 'traffic-'));
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const json = (body: unknown, status: number = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+
+describe('describeRequest', () => {
+  it('uses the body of RPC calls', () => {
+    const body = JSON.stringify({ method: 'getTokenSupply' });
+    assert.equal(describeRequest('https://rpc.example.com/?api-key=secret', { method: 'POST', body }), body);
+  });
+
+  it('drops the host and redacts key-like parameters', () => {
+    assert.equal(
+      describeRequest('https://rpc.example.com/v1/tokens?limit=50&api-key=secret&token=abc', {}),
+      '/v1/tokens?limit=50&api-key=redacted&token=redacted'
+    );
+  });
+});
+
+describe('traffic replay', () => {
+  it('answers in recorded order, then repeats the last response', async () => {
+    const file = path.join(dir, 'order.ndjson');
+    const recorder = createTrafficRecorder(file);
+    await recorder.record('backend', 'https://backend/api/tokens', {}, json({ page: 1 }));
+    await recorder.record('backend', 'https://backend/api/tokens', {}, json({ page: 2 }, 503));
+
+    const replay = createTrafficReplay(file);
+    const answers = [];
+    for (let i = 0; i < 3; i++) {
+      const response = await replay.respond('backend', 'https://elsewhere/api/tokens', {});
+      answers.push([response.status, await response.json()]);
+    }
+
+    assert.deepEqual(answers, [[200, { page: 1 }], [503, { page: 2 }], [503, { page: 2 }]]);
+  });
+
+  it('replays recorded errors and fails unrecorded requests', async () => {
+    const file = path.join(dir, 'errors.ndjson');
+    await createTrafficRecorder(file).record('rpc', 'https://rpc', { method: 'POST', body: '{"id":1}' }, new Error('socket hang up'));
+
+    const replay = createTrafficReplay(file);
+    await assert.rejects(replay.respond('rpc', 'https://rpc', { method: 'POST', body: '{"id":1}' }), /socket hang up/);
+    await assert.rejects(replay.respond('rpc', 'https://rpc', { method: 'POST', body: '{"id":2}' }), /No recorded rpc response/);
+  });
+
+  it('fails when the session is missing or empty', async () => {
+    await assert.rejects(createTrafficReplay(path.join(dir, 'missing.ndjson')).respond('backend', 'https://b/', {}), /No recorded traffic/);
+  });
+
+  it('keeps the recorded session clock', async () => {
+    const file = path.join(dir, 'clock.ndjson');
+    const recorder = createTrafficRecorder(file);
+    await recorder.start(1_700_000_000_000);
+    await recorder.start(1_800_000_000_000);
+    await recorder.record('backend', 'https://backend/api/tokens', {}, json({}));
+
+    assert.equal(await createTrafficReplay(file).now(), 1_700_000_000_000);
+  });
+});
+
+describe('record and replay', () => {
+  // The fixture feed served as the backend; everything else is fixtures
+  function startBackend() {
+    const server = http.createServer(async (request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(await readFile(path.join(FIXTURES, 'feed.json'), 'utf8'));
+    });
+    return new Promise<{ url: string; close: () => void }>((resolve) => {
+      server.listen(0, '127.0.0.1', () => {
+        resolve({ url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, close: () => server.close() });
+      });
+    });
+  }
+
+  async function scan(env: Record<string, string>) {
+    const { stdout } = await run(process.execPath, ['--import', 'tsx', 'scripts/scan.ts', '--format', 'json', '--max-age', '600000'], {
+      env: { ...process.env, DATA_PROVIDER: 'fixture', FEED_PROVIDER: 'live', ...env },
+      timeout: 120 * 1000,
+    });
+    return JSON.parse(stdout);
+  }
+
+  it('replays a recorded scan to the same output, offline', async () => {
+    const session = path.join(dir, 'session.ndjson');
+    const backend = await startBackend();
+    let recorded;
+    try {
+      recorded = await scan({ BACKEND_URL: backend.url, UPSTREAM_RECORD: session, DATA_DIR: path.join(dir, 'record') });
+    } finally {
+      backend.close();
+    }
+
+    const replayed = await scan({ BACKEND_URL: backend.url, UPSTREAM_REPLAY: session, DATA_DIR: path.join(dir, 'replay') });
+
+    assert.ok(recorded.rows.length > 0);
+    assert.deepEqual(replayed, recorded);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeBase58 } from '@/lib/solana';
+import { WatchEntry } from '@/lib/types';
+import { WatchlistError, createWatchlist } from '@/lib/watchlist';
+
+// A distinct valid address per seed, up to 65535
+function address(seed: number): string {
+  const bytes = new Uint8Array(32).fill(7);
+  bytes[0] = seed >> 8;
+  bytes[1] = seed & 0xff;
+  return encodeBase58(bytes);
+}
+
+function setup(entries: WatchEntry[] = []) {
+  const store = {
+    entries,
+    saves: 0,
+    load: async () => store.entries,
+    save: async (saved: WatchEntry[]) => {
+      store.saves++;
+      store.entries = saved;
+    },
+  };
+  return { store, watchlist: createWatchlist(store, () => 1_700_000_000_000) };
+}
+
+// The status of the WatchlistError `promise` rejects with
+async function status(promise: Promise<unknown>): Promise<number> {
+  try {
+    await promise;
+    return 200;
+  } catch (error) {
+    assert.ok(error instanceof WatchlistError);
+    return error.status;
+  }
+}
+
+describe('watchlist', () => {
+  it('normalises tags and rejects oversized input', async () => {
+    const { watchlist } = setup();
+    const entry = await watchlist.add('deployer', address(1), { notes: 'serial', tags: [' Serial ', 'serial', 'RUG', ''] });
+
+    assert.deepEqual(entry.tags, ['serial', 'rug']);
+    assert.equal(await status(watchlist.add('deployer', address(2), { notes: 'x'.repeat(1001) })), 400);
+    assert.equal(await status(watchlist.add('deployer', address(2), { tags: Array.from({ length: 11 }, (_, i) => `t${i}`) })), 400);
+    assert.equal(await status(watchlist.add('deployer', address(2), { tags: ['x'.repeat(33)] })), 400);
+    assert.equal(await status(watchlist.add('deployer', 'not-an-address')), 400);
+  });
+
+  it('caps the number of watched mints but not deployers', async () => {
+    const { watchlist } = setup();
+    for (let i = 0; i < 50; i++) {
+      await watchlist.add('mint', address(i));
+    }
+
+    assert.equal(await status(watchlist.add('mint', address(50))), 400);
+    assert.equal(await status(watchlist.add('deployer', address(50))), 200);
+  });
+
+  it('caps the number of entries', async () => {
+    const entries = Array.from({ length: 1000 }, (_, i): WatchEntry => ({
+      kind: 'deployer',
+      address: address(i),
+      tags: [],
+      addedAt: 0,
+      updatedAt: 0,
+    }));
+    const { watchlist } = setup(entries);
+
+    assert.equal(await status(watchlist.add('deployer', address(1000))), 400);
+  });
+
+  it('adds each address once per kind, even when requests race', async () => {
+    const { store, watchlist } = setup();
+    const results = await Promise.all([status(watchlist.add('mint', address(1))), status(watchlist.add('mint', address(1)))]);
+
+    assert.deepEqual(results, [200, 409]);
+    assert.equal(store.saves, 1);
+    assert.equal(await status(watchlist.add('deployer', address(1))), 200);
+  });
+
+  it('updates only the fields given and clears notes with an empty string', async () => {
+    const { watchlist } = setup();
+    await watchlist.add('deployer', address(1), { notes: 'serial', tags: ['rug'] });
+
+    const tagged = await watchlist.update('deployer', address(1), { tags: ['Whale'] });
+    assert.deepEqual([tagged.notes, tagged.tags], ['serial', ['whale']]);
+
+    const cleared = await watchlist.update('deployer', address(1), { notes: '' });
+    assert.deepEqual([cleared.notes, cleared.tags], [undefined, ['whale']]);
+
+    assert.equal(await status(watchlist.update('mint', address(1), { notes: 'x' })), 404);
+    assert.equal(await status(watchlist.remove('mint', address(1))), 404);
+    await watchlist.remove('deployer', address(1));
+    assert.deepEqual(await watchlist.list(), []);
+  });
+});